@@ -0,0 +1,58 @@
+import { timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { OAuthError, OAuthErrorReason, exchangeCode, getTokenUser } from '@/lib/githubOAuth';
+import { clearOAuthFlow, getOAuthFlow, setSession } from '@/lib/session';
+
+function sameState(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+function failure(error: string, reason: OAuthErrorReason, status: number) {
+  const response = NextResponse.json({ error, reason }, { status });
+  clearOAuthFlow(response);
+  return response;
+}
+
+// Finish a login started by /api/auth/login in this browser. The callback's
+// state has to match the one we stored, so a code from someone else's login
+// can't sign this browser in, and an error GitHub reported is only shown for
+// this browser's own login. The token stays in the session cookie. The login
+// in progress is cleared whichever way this ends.
+export async function POST(request: NextRequest) {
+  const { code, state, error, errorDescription } = await request.json().catch(() => ({}));
+  if (typeof state !== 'string' || !state) {
+    return failure('The callback is missing the sign-in state', 'failed', 400);
+  }
+
+  const flow = getOAuthFlow(request);
+  if (!flow || flow.expiresAt <= Date.now()) {
+    return failure('The sign-in took too long or was started in another browser', 'expired', 400);
+  }
+  if (!sameState(flow.state, state)) {
+    return failure('The sign-in response does not match the sign-in this browser started', 'state_mismatch', 400);
+  }
+
+  if (typeof error === 'string' && error) {
+    const message = typeof errorDescription === 'string' && errorDescription ? errorDescription : `GitHub OAuth error: ${error}`;
+    return failure(message, error === 'access_denied' ? 'denied' : 'failed', 400);
+  }
+  if (typeof code !== 'string' || !code) {
+    return failure('No authorization code received', 'failed', 400);
+  }
+
+  try {
+    const token = await exchangeCode(code, flow.codeVerifier, flow.redirectUri, flow.mode);
+    const user = await getTokenUser(token);
+
+    const response = NextResponse.json({ login: user.login, returnTo: flow.returnTo });
+    clearOAuthFlow(response);
+    setSession(response, { mode: flow.mode, token, login: user.login, userId: user.id, name: user.name });
+    return response;
+  } catch (err) {
+    console.error('GitHub OAuth exchange failed:', err);
+    if (err instanceof OAuthError) return failure(err.message, err.reason, err.reason === 'expired' ? 400 : 502);
+    return failure(err instanceof Error ? err.message : 'Failed to authenticate with GitHub', 'failed', 502);
+  }
+}
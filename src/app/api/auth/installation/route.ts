@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { userCanAccessInstallation } from '@/lib/githubApp';
+import { getSession, setSession } from '@/lib/session';
+
+// Pick the GitHub App installation repositories are read and written through
+export async function POST(request: NextRequest) {
+  const session = getSession(request);
+  if (!session) return NextResponse.json({ error: 'Not signed in to GitHub' }, { status: 401 });
+  if (session.mode !== 'app') {
+    return NextResponse.json({ error: 'Installations only apply when signed in through the GitHub App' }, { status: 400 });
+  }
+
+  const { installationId } = await request.json().catch(() => ({}));
+  if (typeof installationId !== 'number') {
+    return NextResponse.json({ error: 'No installation selected' }, { status: 400 });
+  }
+
+  try {
+    if (!(await userCanAccessInstallation(session.token, installationId))) {
+      return NextResponse.json({ error: 'You do not have access to this installation' }, { status: 403 });
+    }
+  } catch (err) {
+    return NextResponse.json({ error: err instanceof Error ? err.message : 'Failed to check the installation' }, { status: 502 });
+  }
+
+  const response = NextResponse.json({ installationId });
+  setSession(response, { ...session, installationId });
+  return response;
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { safeReturnTo } from '@/lib/github';
+import { buildAuthorizeRequest } from '@/lib/githubOAuth';
+import { setOAuthFlow } from '@/lib/session';
+
+// Start a login: remember the state and PKCE verifier in this browser, then
+// send it to GitHub to approve the app. `?mode=app` signs in through the
+// GitHub App instead of the OAuth app.
+export async function GET(request: NextRequest) {
+  const mode = request.nextUrl.searchParams.get('mode') === 'app' ? 'app' : 'oauth';
+  const redirectUri = process.env.NEXT_PUBLIC_GITHUB_REDIRECT_URI || `${request.nextUrl.origin}/auth/callback`;
+  const { url, state, codeVerifier } = buildAuthorizeRequest(redirectUri, mode);
+
+  const response = NextResponse.redirect(url);
+  setOAuthFlow(response, {
+    mode,
+    state,
+    codeVerifier,
+    redirectUri,
+    returnTo: safeReturnTo(request.nextUrl.searchParams.get('returnTo')),
+  });
+  return response;
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { revokeToken } from '@/lib/githubOAuth';
+import { clearSession, getSession } from '@/lib/session';
+
+export async function GET(request: NextRequest) {
+  const session = getSession(request);
+  if (!session) return NextResponse.json({ authenticated: false });
+  return NextResponse.json({
+    authenticated: true,
+    mode: session.mode,
+    login: session.login,
+    userId: session.userId,
+    name: session.name,
+    installationId: session.installationId,
+    expiresAt: session.expiresAt,
+  });
+}
+
+// Sign out: revoke the token with GitHub, then drop the cookie
+export async function DELETE(request: NextRequest) {
+  const session = getSession(request);
+  const response = NextResponse.json({ authenticated: false });
+  clearSession(response);
+
+  if (session) {
+    try {
+      await revokeToken(session.token, session.mode);
+    } catch (err) {
+      // The cookie is cleared either way; a token that outlives sign-out is logged
+      console.error('Failed to revoke GitHub token:', err);
+    }
+  }
+
+  return response;
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { GitHubAppAccessError, repositoryToken } from '@/lib/githubApp';
+import { clearSession, getSession } from '@/lib/session';
+
+const GITHUB_API = 'https://api.github.com';
+
+function repoEndpoint(rest: string): RegExp {
+  return new RegExp(`^repos/[^/]+/[^/]+${rest}$`);
+}
+
+// The GitHub calls src/lib/github.ts makes, by method; anything else is refused
+const ALLOWED_ENDPOINTS: Array<[method: string, pattern: RegExp]> = [
+  ['GET', /^user$/],
+  ['GET', /^user\/repos$/],
+  ['GET', /^user\/installations$/],
+  ['GET', /^user\/installations\/\d+\/repositories$/],
+  ['GET', repoEndpoint('')],
+  ['GET', repoEndpoint('/branches')],
+  ['GET', repoEndpoint('/contents(/.+)?')],
+  ['PUT', repoEndpoint('/contents/.+')],
+  ['GET', repoEndpoint('/git/refs?/heads/.+')],
+  ['POST', repoEndpoint('/git/refs')],
+  ['PATCH', repoEndpoint('/git/refs/heads/.+')],
+  ['GET', repoEndpoint('/git/(commits|trees|blobs)/[^/]+')],
+  ['POST', repoEndpoint('/git/(commits|trees|blobs)')],
+  ['POST', repoEndpoint('/pulls')],
+  ['POST', repoEndpoint('/pulls/\\d+/requested_reviewers')],
+  ['POST', repoEndpoint('/issues/\\d+/labels')],
+  ['GET', repoEndpoint('/commits/.+/(check-runs|status)')],
+];
+
+type RouteContext = { params: Promise<{ path: string[] }> };
+
+// Forward a GitHub API call with the session's token. In app mode repository
+// calls use the selected installation's token instead of the user's.
+async function proxy(request: NextRequest, { params }: RouteContext) {
+  const session = getSession(request);
+  if (!session) {
+    const response = NextResponse.json({ error: 'Not signed in to GitHub' }, { status: 401 });
+    clearSession(response);
+    return response;
+  }
+
+  // Dot segments would be resolved by the URL parser after the allowlist
+  // check, turning an allowed path into any other endpoint
+  const segments = (await params).path;
+  if (segments.some((segment) => segment === '' || segment === '.' || segment === '..')) {
+    return NextResponse.json({ error: 'GitHub endpoint not allowed' }, { status: 403 });
+  }
+
+  const path = segments.map(encodeURIComponent).join('/');
+  const url = new URL(`${GITHUB_API}/${path}${request.nextUrl.search}`);
+  const allowed = ALLOWED_ENDPOINTS.some(([method, pattern]) => method === request.method && pattern.test(path));
+  if (!allowed || url.origin !== GITHUB_API || url.pathname !== `/${path}`) {
+    return NextResponse.json({ error: 'GitHub endpoint not allowed' }, { status: 403 });
+  }
+
+  let token = session.token;
+  if (segments[0] === 'repos') {
+    try {
+      token = await repositoryToken(session, segments[1], segments[2]);
+    } catch (err) {
+      return NextResponse.json(
+        { error: err instanceof Error ? err.message : 'Failed to authenticate as the GitHub App' },
+        { status: err instanceof GitHubAppAccessError ? 403 : 502 }
+      );
+    }
+  }
+
+  const hasBody = request.method !== 'GET' && request.method !== 'HEAD';
+  const upstream = await fetch(url, {
+    method: request.method,
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'Accept': request.headers.get('accept') ?? 'application/vnd.github.v3+json',
+      ...(hasBody ? { 'Content-Type': 'application/json' } : {}),
+    },
+    body: hasBody ? await request.text() : undefined,
+    cache: 'no-store',
+  });
+
+  const response = new NextResponse(upstream.status === 204 ? null : await upstream.text(), {
+    status: upstream.status,
+    statusText: upstream.statusText,
+    headers: { 'Content-Type': upstream.headers.get('content-type') ?? 'application/json' },
+  });
+  // The token was revoked or expired on GitHub's side
+  if (upstream.status === 401) clearSession(response);
+  return response;
+}
+
+export { proxy as GET, proxy as POST, proxy as PUT, proxy as PATCH };
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { GitHubAppAccessError, repositoryToken } from '@/lib/githubApp';
+import { getSession } from '@/lib/session';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Start the backend analysis of a project with the session's GitHub token,
+// which the browser no longer holds
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const session = getSession(request);
+  if (!session) return NextResponse.json({ error: 'Not signed in to GitHub' }, { status: 401 });
+
+  const body = await request.text();
+  let repoFullName: unknown;
+  try {
+    repoFullName = JSON.parse(body).repo_full_name;
+  } catch {
+    // Reported below
+  }
+  const [owner, repo] = typeof repoFullName === 'string' ? repoFullName.split('/') : [];
+  if (!owner || !repo) return NextResponse.json({ error: 'No repository given' }, { status: 400 });
+
+  let token: string;
+  try {
+    token = await repositoryToken(session, owner, repo);
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Failed to authenticate as the GitHub App' },
+      { status: err instanceof GitHubAppAccessError ? 403 : 502 }
+    );
+  }
+
+  const { id } = await params;
+  const upstream = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/projects/${encodeURIComponent(id)}/analyze`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-GitHub-Token': token,
+    },
+    body,
+  });
+
+  return new NextResponse(await upstream.text(), {
+    status: upstream.status,
+    headers: { 'Content-Type': upstream.headers.get('content-type') ?? 'application/json' },
+  });
+}
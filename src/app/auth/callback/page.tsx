@@ -1,72 +1,106 @@
 'use client';
 
-import { useEffect, useState, Suspense } from 'react';
+import { useEffect, useRef, useState, Suspense } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
-import { setGitHubToken } from '@/lib/github';
+import { retryGitHubOAuth, safeReturnTo } from '@/lib/github';
+import type { OAuthErrorReason } from '@/lib/githubOAuth';
+
+interface CallbackError {
+  reason: OAuthErrorReason;
+  message: string;
+}
+
+const ERROR_SCREENS: Record<OAuthErrorReason, { title: string; description: string; retry: string }> = {
+  denied: {
+    title: 'Access Not Granted',
+    description: 'You declined to let Terra access your GitHub account. Connect again whenever you are ready.',
+    retry: 'Connect with GitHub',
+  },
+  expired: {
+    title: 'Sign-in Expired',
+    description: 'This sign-in took too long, was already used, or was started in another browser.',
+    retry: 'Sign in again',
+  },
+  state_mismatch: {
+    title: 'Sign-in Could Not Be Verified',
+    description:
+      'This response does not belong to a sign-in started in this browser, so it was ignored. If you did not just try to sign in, you can close this page.',
+    retry: 'Start a new sign-in',
+  },
+  failed: {
+    title: 'Authentication Error',
+    description: 'GitHub could not complete the sign-in.',
+    retry: 'Try again',
+  },
+};
 
 function CallbackContent() {
   const router = useRouter();
   const searchParams = useSearchParams();
-  const [error, setError] = useState<string | null>(null);
-
-  useEffect(() => {
-    const code = searchParams.get('code');
-    const errorParam = searchParams.get('error');
+  const [error, setError] = useState<CallbackError | null>(null);
+  // A code can only be exchanged once, so the effect must not run the exchange twice
+  const exchanged = useRef(false);
 
-    if (errorParam) {
-      setError(`GitHub OAuth error: ${errorParam}`);
-      return;
-    }
+  const code = searchParams.get('code');
+  const state = searchParams.get('state');
+  const errorParam = searchParams.get('error');
+  const errorDescription = searchParams.get('error_description');
 
-    if (!code) {
-      setError('No authorization code received');
-      return;
-    }
+  useEffect(() => {
+    if (exchanged.current) return;
+    exchanged.current = true;
 
-    // Exchange code for access token
+    // Exchange code for access token. The server keeps the token in the session
+    // cookie. Errors GitHub reports go through the server too, which checks the
+    // state before they are shown and clears the login in progress.
     const exchangeCodeForToken = async () => {
       try {
-        const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/github/callback`, {
+        const response = await fetch('/api/auth/callback', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ code }),
+          body: JSON.stringify({ code, state, error: errorParam, errorDescription }),
         });
+        const data = await response.json().catch(() => ({}));
 
         if (!response.ok) {
-          throw new Error('Failed to exchange code for token');
+          setError({ reason: data.reason ?? 'failed', message: data.error || 'Failed to exchange code for token' });
+          return;
         }
 
-        const data = await response.json();
-
-        if (data.access_token) {
-          // Store token
-          setGitHubToken(data.access_token);
-
-          // Redirect to repository selection
-          router.push('/auth/github');
-        } else {
-          setError('No access token received');
-        }
+        // Back to the page the sign-in started from, repository selection by default
+        router.replace(safeReturnTo(data.returnTo));
       } catch (err) {
-        setError(err instanceof Error ? err.message : 'Failed to authenticate with GitHub');
+        setError({ reason: 'failed', message: err instanceof Error ? err.message : 'Failed to authenticate with GitHub' });
       }
     };
 
     exchangeCodeForToken();
-  }, [searchParams, router]);
+  }, [code, state, errorParam, errorDescription, router]);
 
   if (error) {
+    const screen = ERROR_SCREENS[error.reason];
     return (
       <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 flex items-center justify-center p-4">
         <div className="glass-panel max-w-md w-full p-8">
-          <h1 className="text-2xl font-bold text-red-400 mb-4">Authentication Error</h1>
-          <p className="text-white mb-6">{error}</p>
-          <button
-            onClick={() => router.push('/')}
-            className="btn-primary px-6 py-2 w-full"
-          >
-            Go Back
-          </button>
+          <h1 className={`text-2xl font-bold mb-4 ${error.reason === 'denied' ? 'text-yellow-300' : 'text-red-400'}`}>
+            {screen.title}
+          </h1>
+          <p className="text-white mb-2">{screen.description}</p>
+          {error.reason === 'failed' && <p className="text-sm text-gray-400 mb-2">{error.message}</p>}
+          <div className="flex gap-3 mt-6">
+            <button
+              onClick={retryGitHubOAuth}
+              className="btn-primary px-6 py-2 flex-1"
+            >
+              {screen.retry}
+            </button>
+            <button
+              onClick={() => router.push('/')}
+              className="px-6 py-2 rounded text-gray-300 hover:text-white hover:bg-white/10"
+            >
+              Go Back
+            </button>
+          </div>
         </div>
       </div>
     );
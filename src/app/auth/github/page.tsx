@@ -2,7 +2,21 @@
 
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
-import { getGitHubRepos, getGitHubToken, GitHubRepo, clearGitHubToken } from '@/lib/github';
+import {
+  getGitHubRepos,
+  getGitHubSession,
+  getGitHubInstallations,
+  getGitHubAppInstallUrl,
+  selectGitHubInstallation,
+  AuthMode,
+  GitHubApiError,
+  GitHubInstallation,
+  GitHubRepo,
+  signOutOfGitHub,
+} from '@/lib/github';
+import { createProject } from '@/lib/projects';
+import { CloudProvider, PROVIDERS } from '@/lib/providers';
+import ProviderPicker from '@/components/ProviderPicker';
 
 export default function GitHubAuthPage() {
   const router = useRouter();
@@ -10,31 +24,55 @@ export default function GitHubAuthPage() {
   const [loading, setLoading] = useState(true);
   const [selectedRepo, setSelectedRepo] = useState<string>('');
   const [error, setError] = useState<string | null>(null);
+  const [provider, setProvider] = useState<CloudProvider>('gcp');
+  const [region, setRegion] = useState(PROVIDERS.gcp.defaultRegion);
+  const [signingOut, setSigningOut] = useState(false);
+  const [loadingRepos, setLoadingRepos] = useState(false);
+  const [authMode, setAuthMode] = useState<AuthMode>('oauth');
+  // GitHub App installations and the one repositories are listed from, in app mode
+  const [installations, setInstallations] = useState<GitHubInstallation[]>([]);
+  const [installationId, setInstallationId] = useState<number | null>(null);
+  const installUrl = getGitHubAppInstallUrl();
 
   useEffect(() => {
-    const token = getGitHubToken();
-    if (!token) {
-      // No token, redirect to landing page
-      router.push('/');
-      return;
-    }
-
     // Fetch real repositories from GitHub
     const fetchRepos = async () => {
       try {
+        const session = await getGitHubSession();
+        if (!session.authenticated) {
+          // No session, redirect to landing page
+          router.push('/');
+          return;
+        }
+
+        if (session.mode === 'app') {
+          setAuthMode('app');
+          const available = await getGitHubInstallations();
+          setInstallations(available);
+
+          // Keep the installation picked earlier, or pick the only one there is
+          const selected = available.find((installation) => installation.id === session.installationId)?.id
+            ?? (available.length === 1 ? available[0].id : null);
+          if (selected) {
+            if (selected !== session.installationId) await selectGitHubInstallation(selected);
+            setInstallationId(selected);
+            setRepos(await getGitHubRepos(selected));
+          }
+          setLoading(false);
+          return;
+        }
+
         const repositories = await getGitHubRepos();
         setRepos(repositories);
         setLoading(false);
       } catch (err) {
+        // An expired session is already being sent back to the landing page, so
+        // keep the spinner rather than flashing an error
+        if (err instanceof GitHubApiError && err.status === 401) return;
+
         console.error('Error fetching repos:', err);
         setError(err instanceof Error ? err.message : 'Failed to fetch repositories');
         setLoading(false);
-
-        // Clear token if unauthorized
-        if (err instanceof Error && err.message.includes('401')) {
-          clearGitHubToken();
-          setTimeout(() => router.push('/'), 2000);
-        }
       }
     };
 
@@ -48,30 +86,19 @@ export default function GitHubAuthPage() {
 
     try {
       // Create project with selected repo
-      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/projects`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          name,
-          repo_url: `https://github.com/${repoFullName}`,
-          repo_full_name: repoFullName,
-          provider: 'gcp'
-        }),
+      const project = await createProject({
+        name,
+        repo_url: `https://github.com/${repoFullName}`,
+        repo_full_name: repoFullName,
+        provider,
+        region,
       });
 
-      if (!response.ok) {
-        throw new Error('Failed to create project');
-      }
-
-      const project = await response.json();
-
-      // Trigger analysis with GitHub token
-      const token = getGitHubToken();
-      await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/projects/${project.id}/analyze`, {
+      // Trigger analysis; the route adds the session's GitHub token
+      await fetch(`/api/projects/${project.id}/analyze`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'X-GitHub-Token': token || ''
         },
         body: JSON.stringify({
           repo_full_name: repoFullName,
@@ -87,6 +114,27 @@ export default function GitHubAuthPage() {
     }
   };
 
+  const handleSelectInstallation = async (id: number) => {
+    setInstallationId(id);
+    setRepos([]);
+    setError(null);
+    setLoadingRepos(true);
+    try {
+      await selectGitHubInstallation(id);
+      setRepos(await getGitHubRepos(id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch repositories');
+    } finally {
+      setLoadingRepos(false);
+    }
+  };
+
+  const handleSignOut = async () => {
+    setSigningOut(true);
+    await signOutOfGitHub();
+    router.push('/');
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 flex items-center justify-center">
@@ -102,8 +150,53 @@ export default function GitHubAuthPage() {
     <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 p-8">
       <div className="max-w-4xl mx-auto">
         <div className="glass-panel p-8 mb-8">
-          <h1 className="text-3xl font-bold text-white mb-2">Select a Repository</h1>
+          <div className="flex items-start justify-between gap-4">
+            <h1 className="text-3xl font-bold text-white mb-2">Select a Repository</h1>
+            <button
+              onClick={handleSignOut}
+              disabled={signingOut}
+              className="px-3 py-1 rounded text-sm text-gray-300 hover:text-white hover:bg-white/10 disabled:opacity-50"
+            >
+              {signingOut ? 'Signing out...' : 'Sign out'}
+            </button>
+          </div>
           <p className="text-gray-300">Choose a repository to analyze and generate infrastructure configs</p>
+          <div className="flex items-center gap-3 mt-4 text-sm">
+            <span className="text-gray-300">Deploy to</span>
+            <ProviderPicker
+              provider={provider}
+              region={region}
+              onChange={(nextProvider, nextRegion) => {
+                setProvider(nextProvider);
+                setRegion(nextRegion);
+              }}
+              disabled={!!selectedRepo}
+            />
+          </div>
+          {authMode === 'app' && installations.length > 0 && (
+            <div className="flex items-center gap-3 mt-3 text-sm">
+              <span className="text-gray-300">Installation</span>
+              <select
+                value={installationId ?? ''}
+                onChange={(e) => handleSelectInstallation(Number(e.target.value))}
+                disabled={!!selectedRepo || loadingRepos}
+                className="input-field py-1"
+              >
+                {installationId === null && <option value="">Select an account...</option>}
+                {installations.map((installation) => (
+                  <option key={installation.id} value={installation.id}>
+                    {installation.account.login}
+                    {installation.repository_selection === 'selected' ? ' (selected repositories)' : ''}
+                  </option>
+                ))}
+              </select>
+              {installUrl && (
+                <a href={installUrl} className="text-blue-400 hover:text-blue-300">
+                  Install on another account
+                </a>
+              )}
+            </div>
+          )}
         </div>
 
         {error && (
@@ -113,9 +206,36 @@ export default function GitHubAuthPage() {
         )}
 
         <div className="space-y-4">
-          {repos.length === 0 && !error && (
+          {authMode === 'app' && installations.length === 0 && !error && (
+            <div className="glass-panel p-8 text-center">
+              <p className="text-gray-400 mb-4">Terra is not installed on any account you have access to.</p>
+              {installUrl && (
+                <a href={installUrl} className="btn-primary px-6 py-2 inline-block">
+                  Install the GitHub App
+                </a>
+              )}
+            </div>
+          )}
+
+          {authMode === 'app' && installations.length > 0 && installationId === null && !error && (
+            <div className="glass-panel p-8 text-center">
+              <p className="text-gray-400">Select the account whose repositories you want to use.</p>
+            </div>
+          )}
+
+          {loadingRepos && (
+            <div className="glass-panel p-8 text-center">
+              <p className="text-gray-400">Loading repositories...</p>
+            </div>
+          )}
+
+          {repos.length === 0 && !error && !loadingRepos && (authMode === 'oauth' || installationId !== null) && (
             <div className="glass-panel p-8 text-center">
-              <p className="text-gray-400">No repositories found. Make sure you have repositories in your GitHub account.</p>
+              <p className="text-gray-400">
+                {authMode === 'app'
+                  ? 'This installation has no repositories. Grant the app access to some on GitHub.'
+                  : 'No repositories found. Make sure you have repositories in your GitHub account.'}
+              </p>
             </div>
           )}
 
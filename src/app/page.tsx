@@ -1,22 +1,25 @@
 'use client';
 
-import { useEffect } from 'react';
-import { useRouter } from 'next/navigation';
-import { initiateGitHubOAuth, getGitHubToken } from '@/lib/github';
+import { useEffect, Suspense } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { initiateGitHubOAuth, getGitHubAppInstallUrl, hasGitHubSession, safeReturnTo } from '@/lib/github';
 
-export default function LandingPage() {
+function LandingContent() {
   const router = useRouter();
+  const searchParams = useSearchParams();
+  const sessionExpired = searchParams.get('session') === 'expired';
+  // Deep link the user was sent here from, e.g. a project
+  const returnTo = searchParams.get('returnTo') ?? undefined;
 
   useEffect(() => {
     // If user is already authenticated, redirect to repos
-    const token = getGitHubToken();
-    if (token) {
-      router.push('/auth/github');
-    }
-  }, [router]);
+    hasGitHubSession().then((authenticated) => {
+      if (authenticated) router.push(safeReturnTo(returnTo));
+    });
+  }, [router, returnTo]);
 
   const handleGitHubConnect = () => {
-    initiateGitHubOAuth();
+    initiateGitHubOAuth(returnTo);
   };
 
   return (
@@ -29,12 +32,23 @@ export default function LandingPage() {
           Connect your GitHub repo, visualize your infrastructure, and deploy with AI-powered configurations
         </p>
         <div className="space-y-4">
+          {sessionExpired && (
+            <p className="text-sm text-yellow-300">Your GitHub session expired. Connect again to continue.</p>
+          )}
           <button
             onClick={handleGitHubConnect}
             className="btn-primary px-8 py-4 text-lg font-semibold"
           >
             Connect with GitHub
           </button>
+          {getGitHubAppInstallUrl() && (
+            <button
+              onClick={() => initiateGitHubOAuth(returnTo, 'app')}
+              className="block mx-auto text-sm text-blue-400 hover:text-blue-300"
+            >
+              Sign in through the GitHub App for organization repositories
+            </button>
+          )}
           <p className="text-sm text-gray-400">
             Analyze your codebase • Generate Terraform configs • Deploy to GCP, AWS, or Azure
           </p>
@@ -43,3 +57,11 @@ export default function LandingPage() {
     </div>
   );
 }
+
+export default function LandingPage() {
+  return (
+    <Suspense>
+      <LandingContent />
+    </Suspense>
+  );
+}
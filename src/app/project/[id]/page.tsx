@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { useParams } from 'next/navigation';
 import {
   ReactFlow,
@@ -10,88 +10,158 @@ import {
   Background,
   useNodesState,
   useEdgesState,
-  addEdge,
   Connection,
   BackgroundVariant,
+  NodeChange,
+  Dimensions,
+  XYPosition,
+  ReactFlowInstance,
 } from '@xyflow/react';
 import '@xyflow/react/dist/style.css';
 import FileModificationDialog from '@/components/FileModificationDialog';
-import { getGitHubToken, getRepoBranches, updateRepoFile, createBranch } from '@/lib/github';
-
-// Node data types
-interface NodeData extends Record<string, unknown> {
-  label: string;
-  type: string;
-  details?: string;
-  serviceName?: string;
-  dockerComposeConfig?: any;
-}
+import ChatThreadList from '@/components/ChatThreadList';
+import GraphPatchPanel from '@/components/GraphPatchPanel';
+import HistoryPanel from '@/components/HistoryPanel';
+import ServiceConfigEditor from '@/components/ServiceConfigEditor';
+import NodePalette, { PALETTE_DRAG_TYPE } from '@/components/NodePalette';
+import { CloudTargetContext, NodeFindingsContext, nodeTypes } from '@/components/InfraNodes';
+import ExportMenu from '@/components/ExportMenu';
+import ProviderPicker from '@/components/ProviderPicker';
+import CostPanel from '@/components/CostPanel';
+import SecurityFindings from '@/components/SecurityFindings';
+import { GitHubApiError, hasGitHubSession, getGitHubSession, coAuthorTrailer, getRepoBranches, getRepoFile, createBranch, analyzeRepository, commitFiles, createPullRequest } from '@/lib/github';
+import { ChangeSet, CommitOptions, buildCommitMessage, changeSetFromFile, changeSetFromResponse, getChangeStatus } from '@/lib/changes';
+import { buildGraphFromAnalysis } from '@/lib/analysis';
+import { mergeGraphs, InfraGraph, NodeData } from '@/lib/graph';
+import { GraphEdit, changeSetForEdits } from '@/lib/graphEdits';
+import { createPaletteNode, isNodeKind } from '@/lib/nodeCatalog';
+import { upsertReadmeDiagram } from '@/lib/graphExport';
+import { generateTerraform } from '@/lib/terraformGenerator';
+import { CloudProvider, CloudTarget, MANAGED_SERVICES, MANAGED_TIERS, PROVIDERS, isCloudProvider, managedModule, providerRegion } from '@/lib/providers';
+import { Project, getProject, updateProject } from '@/lib/projects';
+import { estimateChangeSetCost, estimateCost, formatCost } from '@/lib/costEstimate';
+import { Finding, ScannedFile, findingsByNode, fixFinding, scanFiles } from '@/lib/securityScan';
+import { editCompose } from '@/lib/composeEdit';
+import { ServiceForm, applyServiceForm, describeFormChanges } from '@/lib/composeForm';
+import { streamChat, ChatStream } from '@/lib/chatStream';
+import {
+  GraphPatch,
+  patchFromChanges,
+  normalizePatch,
+  applyPatch,
+  relatedOperations,
+  ghostNodes,
+  previewPatch,
+  describeOperation,
+  GraphPatchOperation,
+} from '@/lib/graphPatch';
+import {
+  DEFAULT_LAYOUT_OPTIONS,
+  LayoutDirection,
+  LayoutSpacing,
+  SPACING_PRESETS,
+  layoutGraph,
+  layoutOperations,
+  needsLayout,
+} from '@/lib/layout';
+import { SavedLayout, LayoutConflict, captureLayout, getSavedLayout, restoreLayout, saveLayout } from '@/lib/savedLayout';
+import {
+  EMPTY_HISTORY,
+  HistoryKind,
+  GraphHistory,
+  HistoryEntry,
+  createCommand,
+  createCheckpoint,
+  createEntry,
+  pushEntry,
+  jumpTo,
+  undo,
+  redo,
+} from '@/lib/history';
+import {
+  ChatMessage,
+  ChatThread,
+  listThreads,
+  createThread,
+  renameThread,
+  deleteThread,
+  getThreadMessages,
+  appendThreadMessages,
+  threadTitleFrom,
+} from '@/lib/chatThreads';
 
-// Custom node component
-function ServiceNode({ data }: { data: NodeData }) {
-  return (
-    <div className="node-card border-blue-500 min-w-[200px]">
-      <div className="flex items-center gap-2 mb-2">
-        <div className="w-3 h-3 rounded-full bg-blue-500"></div>
-        <h3 className="font-semibold text-white">{data.label}</h3>
-      </div>
-      <p className="text-sm text-gray-300">{data.type}</p>
-      {data.details && (
-        <p className="text-xs text-gray-400 mt-1">{data.details}</p>
-      )}
-    </div>
-  );
-}
+// Delay between the last graph edit and saving the layout
+const LAYOUT_SAVE_DELAY = 1500;
 
-function DatabaseNode({ data }: { data: NodeData }) {
-  return (
-    <div className="node-card border-green-500 min-w-[200px]">
-      <div className="flex items-center gap-2 mb-2">
-        <div className="w-3 h-3 rounded-full bg-green-500"></div>
-        <h3 className="font-semibold text-white">{data.label}</h3>
-      </div>
-      <p className="text-sm text-gray-300">{data.type}</p>
-      {data.details && (
-        <p className="text-xs text-gray-400 mt-1">{data.details}</p>
-      )}
-    </div>
-  );
-}
+// The backend analysis, topped up with infra files parsed client-side so the
+// graph renders even when the backend analysis is missing or behind the repository
+async function loadAnalysisGraph(projectId: string, repoFullName: string | undefined, branch?: string) {
+  let graph: InfraGraph = { nodes: [], edges: [] };
+  let analyzedBranch = branch;
+  // Compose files and Dockerfiles for the security scan
+  let files: ScannedFile[] = [];
+  // Why the graph may be missing parts of the repository
+  const warnings: string[] = [];
 
-function StorageNode({ data }: { data: NodeData }) {
-  return (
-    <div className="node-card border-purple-500 min-w-[200px]">
-      <div className="flex items-center gap-2 mb-2">
-        <div className="w-3 h-3 rounded-full bg-purple-500"></div>
-        <h3 className="font-semibold text-white">{data.label}</h3>
-      </div>
-      <p className="text-sm text-gray-300">{data.type}</p>
-      {data.details && (
-        <p className="text-xs text-gray-400 mt-1">{data.details}</p>
-      )}
-    </div>
-  );
+  try {
+    const query = branch ? `?branch=${encodeURIComponent(branch)}` : '';
+    const analysisRes = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/projects/${projectId}/analysis${query}`);
+    if (!analysisRes.ok) throw new Error('Analysis not found');
+    const analysisData = await analysisRes.json();
+
+    if (analysisData.nodes && analysisData.edges) {
+      graph = { nodes: analysisData.nodes, edges: analysisData.edges };
+    }
+  } catch (err) {
+    console.error('Failed to load backend analysis:', err);
+  }
+
+  if (repoFullName && (await hasGitHubSession())) {
+    const [owner, repo] = repoFullName.split('/');
+    try {
+      const repoAnalysis = await analyzeRepository(owner, repo, branch);
+      // What was just parsed from the branch wins over the backend's stored analysis
+      graph = mergeGraphs(buildGraphFromAnalysis(repoAnalysis), graph);
+      analyzedBranch = repoAnalysis.branch;
+      files = [...repoAnalysis.dockerComposeFiles, ...repoAnalysis.dockerfiles]
+        .filter((file) => file.content !== undefined)
+        .map((file) => ({ path: file.path, content: file.content as string }));
+
+      if (repoAnalysis.truncated) {
+        warnings.push('The repository is too large to list in full, so some files may be missing from the graph.');
+      }
+      if (repoAnalysis.unreadFiles.length > 0) {
+        warnings.push(`Could not read ${repoAnalysis.unreadFiles.join(', ')}.`);
+      }
+    } catch (err) {
+      warnings.push(`Could not read the repository: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  return { graph, branch: analyzedBranch, files, warnings };
 }
 
-const nodeTypes = {
-  service: ServiceNode,
-  database: DatabaseNode,
-  storage: StorageNode,
-};
-
-interface Project {
-  id: string;
-  name: string;
-  repo_url: string;
-  repo_full_name: string;
-  provider: string;
+// Lay the layout saved for the branch over the analysis, or lay the graph out
+// from scratch when nothing was saved
+async function applySavedLayout(projectId: string, analyzed: InfraGraph, branch: string | undefined) {
+  if (branch) {
+    try {
+      const saved = await getSavedLayout(projectId, branch);
+      if (saved) return restoreLayout(analyzed, saved);
+    } catch (err) {
+      console.error('Failed to load saved layout:', err);
+    }
+  }
+
+  // Backend graphs and merged graphs often come without usable positions
+  return { graph: needsLayout(analyzed.nodes) ? layoutGraph(analyzed) : analyzed, conflict: null };
 }
 
-interface FileChange {
-  path: string;
-  oldContent: string;
-  newContent: string;
-  description: string;
+function welcomeMessage(projectName: string): ChatMessage {
+  return {
+    role: 'assistant',
+    content: `Hi! I analyzed your repository "${projectName}" and created this infrastructure graph. You can ask me to modify resources, add new services, or explain any part of the setup. Try: "Update postgres version to 15" or "Explain the database setup"`,
+  };
 }
 
 export default function ProjectPage() {
@@ -100,24 +170,334 @@ export default function ProjectPage() {
 
   const [activeTab, setActiveTab] = useState<'graph' | 'chat'>('graph');
   const [project, setProject] = useState<Project | null>(null);
+  const cloudProvider: CloudProvider = project && isCloudProvider(project.provider) ? project.provider : 'gcp';
+  const cloudRegion = providerRegion(cloudProvider, project?.region);
+  const cloudTarget = useMemo<CloudTarget>(() => ({ provider: cloudProvider, region: cloudRegion }), [cloudProvider, cloudRegion]);
   const [selectedNode, setSelectedNode] = useState<Node<NodeData> | null>(null);
-  const [chatMessages, setChatMessages] = useState<Array<{ role: string; content: string }>>([]);
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
   const [chatInput, setChatInput] = useState('');
   const [loading, setLoading] = useState(false);
+  const chatStreamRef = useRef<ChatStream | null>(null);
+
+  // Chat history threads
+  const [threads, setThreads] = useState<ChatThread[]>([]);
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+  const [threadSearch, setThreadSearch] = useState('');
   const [analysisLoading, setAnalysisLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   // File modification dialog state
   const [showModificationDialog, setShowModificationDialog] = useState(false);
-  const [pendingFileChange, setPendingFileChange] = useState<FileChange | null>(null);
+  const [pendingChangeSet, setPendingChangeSet] = useState<ChangeSet | null>(null);
   const [branches, setBranches] = useState<Array<{ name: string }>>([]);
 
   const [nodes, setNodes, onNodesChange] = useNodesState([] as Node<NodeData>[]);
   const [edges, setEdges, onEdgesChange] = useEdgesState([] as Edge[]);
 
+  // Graph changes proposed in chat, previewed until they are accepted or rejected
+  const [pendingPatch, setPendingPatch] = useState<GraphPatch | null>(null);
+  const [ghostDimensions, setGhostDimensions] = useState<Record<string, Dimensions>>({});
+
+  // Added nodes are not part of the graph yet, so React Flow's measurements for
+  // them are kept here instead of in the node state
+  const displayGraph = useMemo(() => {
+    if (!pendingPatch) return { nodes, edges };
+    const preview = previewPatch({ nodes, edges }, pendingPatch);
+    const ghosts = ghostNodes(pendingPatch).map((node) => ({ ...node, measured: ghostDimensions[node.id] }));
+    return { nodes: [...preview.nodes, ...ghosts], edges: preview.edges };
+  }, [nodes, edges, pendingPatch, ghostDimensions]);
+
+  // Monthly cost of the graph on the project's provider, and how the change
+  // under review would move it
+  const costEstimate = useMemo(
+    () => estimateCost({ nodes, edges }, cloudProvider, cloudRegion),
+    [nodes, edges, cloudProvider, cloudRegion]
+  );
+  // Security findings in the compose files and Dockerfiles of the graph branch
+  const [scannedFiles, setScannedFiles] = useState<ScannedFile[]>([]);
+  const findings = useMemo(() => scanFiles(scannedFiles), [scannedFiles]);
+  const nodeFindings = useMemo(() => findingsByNode(findings, nodes), [findings, nodes]);
+
+  const changeSetCost = useMemo(
+    () => (pendingChangeSet ? estimateChangeSetCost(pendingChangeSet, cloudProvider, cloudRegion) : null),
+    [pendingChangeSet, cloudProvider, cloudRegion]
+  );
+
+  const handleNodesChange = useCallback(
+    (changes: NodeChange<Node<NodeData>>[]) => {
+      const ghostIds = new Set(pendingPatch ? ghostNodes(pendingPatch).map((node) => node.id) : []);
+      const isGhost = (change: NodeChange<Node<NodeData>>) => 'id' in change && ghostIds.has(change.id);
+
+      for (const change of changes) {
+        if (change.type === 'dimensions' && change.dimensions && isGhost(change)) {
+          const dimensions = change.dimensions;
+          setGhostDimensions((prev) => ({ ...prev, [change.id]: dimensions }));
+        }
+      }
+      onNodesChange(changes.filter((change) => !isGhost(change)));
+    },
+    [pendingPatch, onNodesChange]
+  );
+
+  // Undo/redo history of graph edits
+  const [history, setHistory] = useState<GraphHistory>(EMPTY_HISTORY);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showPalette, setShowPalette] = useState(false);
+  const [showCost, setShowCost] = useState(false);
+  const dragStartRef = useRef<Map<string, XYPosition>>(new Map());
+
+  // Layered layout settings
+  const [layoutDirection, setLayoutDirection] = useState<LayoutDirection>(DEFAULT_LAYOUT_OPTIONS.direction);
+  const [layoutSpacing, setLayoutSpacing] = useState<LayoutSpacing>('normal');
+  const flowRef = useRef<ReactFlowInstance<Node<NodeData>, Edge> | null>(null);
+
+  // Saved layout for the branch the graph was analyzed from. The analyzed graph
+  // is kept so only hand-made changes are saved.
+  const [graphBranch, setGraphBranch] = useState<string | null>(null);
+  const [graphLoading, setGraphLoading] = useState(false);
+  const [analyzedGraph, setAnalyzedGraph] = useState<InfraGraph>({ nodes: [], edges: [] });
+  const [savedLayoutSnapshot, setSavedLayoutSnapshot] = useState<string | null>(null);
+  const [layoutSaveState, setLayoutSaveState] = useState<'idle' | 'saving' | 'error'>('idle');
+  const [layoutConflict, setLayoutConflict] = useState<LayoutConflict | null>(null);
+  const [analysisWarnings, setAnalysisWarnings] = useState<string[]>([]);
+
+  const layoutSnapshot = useMemo(
+    () => (graphBranch ? JSON.stringify(captureLayout({ nodes, edges }, analyzedGraph, graphBranch)) : null),
+    [nodes, edges, analyzedGraph, graphBranch]
+  );
+  const layoutDirty = layoutSnapshot !== null && savedLayoutSnapshot !== null && layoutSnapshot !== savedLayoutSnapshot;
+
+  const persistLayout = useCallback(
+    async (snapshot: string) => {
+      setLayoutSaveState('saving');
+      try {
+        await saveLayout(projectId, JSON.parse(snapshot) as SavedLayout);
+        setSavedLayoutSnapshot(snapshot);
+        setLayoutSaveState('idle');
+      } catch (err) {
+        console.error('Failed to save layout:', err);
+        setLayoutSaveState('error');
+      }
+    },
+    [projectId]
+  );
+
+  // Save a while after the last edit
+  useEffect(() => {
+    if (!layoutDirty || !layoutSnapshot) return;
+    const timeout = setTimeout(() => persistLayout(layoutSnapshot), LAYOUT_SAVE_DELAY);
+    return () => clearTimeout(timeout);
+  }, [layoutDirty, layoutSnapshot, persistLayout]);
+
+  const showGraph = useCallback(
+    (analyzed: InfraGraph, branch: string | undefined, restored: { graph: InfraGraph; conflict: LayoutConflict | null }) => {
+      setAnalyzedGraph(analyzed);
+      setGraphBranch(branch ?? null);
+      setNodes(restored.graph.nodes);
+      setEdges(restored.graph.edges);
+      setLayoutConflict(restored.conflict);
+      setSavedLayoutSnapshot(branch ? JSON.stringify(captureLayout(restored.graph, analyzed, branch)) : null);
+    },
+    [setNodes, setEdges]
+  );
+
+  // Record an edit React Flow has already applied to the graph
+  const recordEntry = useCallback((entry: HistoryEntry) => {
+    setHistory((prev) => pushEntry(prev, entry));
+  }, []);
+
+  // Apply an edit to the graph and record it
+  const executeCommand = useCallback(
+    (kind: Exclude<HistoryKind, 'checkpoint'>, label: string, operations: GraphPatchOperation[]): InfraGraph => {
+      const graph = { nodes, edges };
+      const next = applyPatch(graph, operations);
+      recordEntry(createCommand(graph, kind, label, operations));
+      setNodes(next.nodes);
+      setEdges(next.edges);
+      return next;
+    },
+    [nodes, edges, recordEntry, setNodes, setEdges]
+  );
+
+  // Undo, redo and jumps replace the whole graph; a pending chat patch is
+  // re-resolved against the graph it now applies to
+  const moveHistory = useCallback(
+    (result: { history: GraphHistory; graph: InfraGraph }) => {
+      setHistory(result.history);
+      setNodes(result.graph.nodes);
+      setEdges(result.graph.edges);
+      setPendingPatch((prev) => {
+        if (!prev) return prev;
+        const patch = normalizePatch(result.graph, prev);
+        return patch.operations.length > 0 ? patch : null;
+      });
+    },
+    [setNodes, setEdges]
+  );
+
+  const handleUndo = useCallback(() => moveHistory(undo(history, { nodes, edges })), [history, nodes, edges, moveHistory]);
+  const handleRedo = useCallback(() => moveHistory(redo(history, { nodes, edges })), [history, nodes, edges, moveHistory]);
+  const handleJumpTo = useCallback(
+    (position: number) => moveHistory(jumpTo(history, { nodes, edges }, position)),
+    [history, nodes, edges, moveHistory]
+  );
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.key.toLowerCase() !== 'z') return;
+      // Leave undo in text fields to the browser
+      const target = event.target as HTMLElement;
+      if (target.closest('input, textarea, [contenteditable="true"]')) return;
+
+      event.preventDefault();
+      if (event.shiftKey) handleRedo();
+      else handleUndo();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleUndo, handleRedo]);
+
+  const handleRelayout = (direction = layoutDirection, spacing = layoutSpacing) => {
+    const operations = layoutOperations({ nodes, edges }, { direction, ...SPACING_PRESETS[spacing] });
+    if (operations.length === 0) return;
+
+    executeCommand('move', 'Re-layout', operations);
+    requestAnimationFrame(() => flowRef.current?.fitView({ duration: 300 }));
+  };
+
+  // Contents of a repository file on the branch shown in the graph
+  const readSourceFile = useCallback(
+    async (path: string) => {
+      const [owner, repo] = (project?.repo_full_name ?? '').split('/');
+      return (await getRepoFile(owner, repo, path, graphBranch ?? undefined)).content ?? '';
+    },
+    [project, graphBranch]
+  );
+
+  // Open the review dialog with the source changes behind graph edits. Edits
+  // that only exist on the canvas (no compose file behind them) are ignored.
+  const proposeSourceChanges = useCallback(
+    async (graphEdits: GraphEdit[]) => {
+      if (!project?.repo_full_name || !(await hasGitHubSession())) return;
+
+      try {
+        const changeSet = await changeSetForEdits(graphEdits, async (path) => {
+          try {
+            return await readSourceFile(path);
+          } catch (err) {
+            // A palette node may be the first thing written to a new compose file
+            const adding = graphEdits.some((edit) => edit.kind === 'add');
+            if (adding && err instanceof GitHubApiError && err.status === 404) return '';
+            throw err;
+          }
+        });
+        if (changeSet) {
+          setPendingChangeSet(changeSet);
+          setShowModificationDialog(true);
+        }
+      } catch (err) {
+        console.error('Failed to build file changes for graph edit:', err);
+      }
+    },
+    [project, readSourceFile]
+  );
+
   const onConnect = useCallback(
-    (params: Connection) => setEdges((eds) => addEdge(params, eds)),
-    [setEdges]
+    (params: Connection) => {
+      const id = `${params.source}->${params.target}`;
+      if (edges.some((edge) => edge.id === id) || params.source === params.target) return;
+
+      executeCommand('connect', `Connect ${params.source} → ${params.target}`, [
+        { op: 'add_edge', edge: { ...params, id } },
+      ]);
+
+      const source = nodes.find((node) => node.id === params.source);
+      const target = nodes.find((node) => node.id === params.target);
+      if (source && target) proposeSourceChanges([{ kind: 'connect', source, target }]);
+    },
+    [nodes, edges, executeCommand, proposeSourceChanges]
+  );
+
+  const handleDragOver = useCallback((event: React.DragEvent) => {
+    if (!event.dataTransfer.types.includes(PALETTE_DRAG_TYPE)) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'move';
+  }, []);
+
+  // Add a node dragged from the palette where it was dropped
+  const handleDrop = useCallback(
+    (event: React.DragEvent) => {
+      const kind = event.dataTransfer.getData(PALETTE_DRAG_TYPE);
+      if (!isNodeKind(kind) || !flowRef.current) return;
+      event.preventDefault();
+
+      const position = flowRef.current.screenToFlowPosition({ x: event.clientX, y: event.clientY });
+      const node = createPaletteNode({ nodes, edges }, kind, position);
+      executeCommand('add', `Add ${node.data.label}`, [{ op: 'add_node', node }]);
+      setSelectedNode(node);
+    },
+    [nodes, edges, executeCommand]
+  );
+
+  const onNodeDragStart = useCallback((_event: React.MouseEvent, _node: Node, dragged: Node[]) => {
+    dragStartRef.current = new Map(dragged.map((node) => [node.id, node.position]));
+  }, []);
+
+  const onNodeDragStop = useCallback(
+    (_event: React.MouseEvent, _node: Node, dragged: Node[]) => {
+      const moved = dragged.filter((node) => {
+        const start = dragStartRef.current.get(node.id);
+        return start && (start.x !== node.position.x || start.y !== node.position.y);
+      });
+      if (moved.length === 0) return;
+
+      recordEntry(
+        createEntry(
+          'move',
+          moved.length === 1 ? `Move ${(moved[0].data as NodeData).label}` : `Move ${moved.length} nodes`,
+          moved.map((node) => ({ op: 'update_node', id: node.id, position: node.position })),
+          moved.map((node) => ({ op: 'update_node', id: node.id, position: dragStartRef.current.get(node.id) }))
+        )
+      );
+    },
+    [recordEntry]
+  );
+
+  // React Flow has already removed the elements; record how to bring them back
+  const onDelete = useCallback(
+    ({ nodes: deletedNodes, edges: deletedEdges }: { nodes: Node[]; edges: Edge[] }) => {
+      // Restore the graph's own copies rather than their patch previews
+      const originals = nodes.filter((node) => deletedNodes.some((deleted) => deleted.id === node.id));
+      const removedEdges = edges.filter((edge) => deletedEdges.some((deleted) => deleted.id === edge.id));
+      if (originals.length === 0 && removedEdges.length === 0) return;
+
+      const label = originals.length === 1 && removedEdges.length <= 1
+        ? `Delete ${originals[0].data.label}`
+        : originals.length === 0 && removedEdges.length === 1
+          ? `Delete connection ${removedEdges[0].source} → ${removedEdges[0].target}`
+          : `Delete ${originals.length + removedEdges.length} elements`;
+
+      recordEntry(
+        createEntry(
+          'delete',
+          label,
+          [
+            ...removedEdges.map((edge): GraphPatchOperation => ({ op: 'remove_edge', id: edge.id })),
+            ...originals.map((node): GraphPatchOperation => ({ op: 'remove_node', id: node.id })),
+          ],
+          [
+            ...originals.map((node): GraphPatchOperation => ({ op: 'add_node', node })),
+            ...removedEdges.map((edge): GraphPatchOperation => ({ op: 'add_edge', edge })),
+          ]
+        )
+      );
+
+      if (originals.length > 0) {
+        proposeSourceChanges(originals.map((node): GraphEdit => ({ kind: 'remove', node })));
+      }
+    },
+    [nodes, edges, recordEntry, proposeSourceChanges]
   );
 
   const onNodeClick = useCallback((_event: React.MouseEvent, node: Node) => {
@@ -131,24 +511,18 @@ export default function ProjectPage() {
         setAnalysisLoading(true);
 
         // Load project details
-        const projectRes = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/projects/${projectId}`);
-        if (!projectRes.ok) throw new Error('Failed to load project');
-        const projectData = await projectRes.json();
+        const projectData = await getProject(projectId);
         setProject(projectData);
 
-        // Load analysis results
-        const analysisRes = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/projects/${projectId}/analysis`);
-        if (!analysisRes.ok) throw new Error('Analysis not found');
-        const analysisData = await analysisRes.json();
-
-        if (analysisData.nodes && analysisData.edges) {
-          setNodes(analysisData.nodes);
-          setEdges(analysisData.edges);
-        }
+        // Load analysis results for the default branch
+        const { graph, branch, files, warnings } = await loadAnalysisGraph(projectId, projectData.repo_full_name);
+        setScannedFiles(files);
+        setAnalysisWarnings(warnings);
 
-        // Load branches if we have a repo
         if (projectData.repo_full_name) {
           const [owner, repo] = projectData.repo_full_name.split('/');
+
+          // Load branches if we have a repo
           try {
             const repoBranches = await getRepoBranches(owner, repo);
             setBranches(repoBranches);
@@ -157,13 +531,21 @@ export default function ProjectPage() {
           }
         }
 
-        // Add welcome message
-        setChatMessages([
-          {
-            role: 'assistant',
-            content: `Hi! I analyzed your repository "${projectData.name}" and created this infrastructure graph. You can ask me to modify resources, add new services, or explain any part of the setup. Try: "Update postgres version to 15" or "Explain the database setup"`,
-          },
-        ]);
+        showGraph(graph, branch, await applySavedLayout(projectId, graph, branch));
+
+        // Reopen the most recent conversation, or greet the user in a fresh one
+        let history: ChatMessage[] = [];
+        try {
+          const projectThreads = await listThreads(projectId);
+          setThreads(projectThreads);
+          if (projectThreads.length > 0) {
+            setActiveThreadId(projectThreads[0].id);
+            history = await getThreadMessages(projectId, projectThreads[0].id);
+          }
+        } catch (err) {
+          console.error('Failed to load chat history:', err);
+        }
+        setChatMessages(history.length > 0 ? history : [welcomeMessage(projectData.name)]);
 
         setAnalysisLoading(false);
       } catch (err) {
@@ -174,7 +556,103 @@ export default function ProjectPage() {
     }
 
     loadProjectData();
-  }, [projectId, setNodes, setEdges]);
+  }, [projectId, showGraph]);
+
+  const handleSwitchBranch = async (branch: string) => {
+    if (!project || branch === graphBranch) return;
+
+    setGraphLoading(true);
+    try {
+      if (layoutDirty && layoutSnapshot) await persistLayout(layoutSnapshot);
+
+      const analysis = await loadAnalysisGraph(projectId, project.repo_full_name, branch);
+      showGraph(analysis.graph, branch, await applySavedLayout(projectId, analysis.graph, branch));
+      setScannedFiles(analysis.files);
+      setAnalysisWarnings(analysis.warnings);
+
+      // History and proposals refer to the previous branch's graph
+      setHistory(EMPTY_HISTORY);
+      setPendingPatch(null);
+      setSelectedNode(null);
+    } catch (err) {
+      console.error('Failed to load branch:', err);
+    } finally {
+      setGraphLoading(false);
+    }
+  };
+
+  const handleNoteChange = (nodeId: string, note: string) => {
+    setNodes((nds) => nds.map((node) => (node.id === nodeId ? { ...node, data: { ...node.data, note } } : node)));
+    setSelectedNode((prev) => (prev?.id === nodeId ? { ...prev, data: { ...prev.data, note } } : prev));
+  };
+
+  // Search threads as the user types
+  useEffect(() => {
+    if (analysisLoading) return;
+
+    const timeout = setTimeout(async () => {
+      try {
+        setThreads(await listThreads(projectId, threadSearch.trim() || undefined));
+      } catch (err) {
+        console.error('Failed to search chat threads:', err);
+      }
+    }, 300);
+
+    return () => clearTimeout(timeout);
+  }, [projectId, threadSearch, analysisLoading]);
+
+  // Store messages in the active thread; history is best-effort and never blocks the chat
+  const persistMessages = async (threadId: string | null, messages: ChatMessage[]) => {
+    if (!threadId) return;
+    try {
+      await appendThreadMessages(projectId, threadId, messages);
+      const now = new Date().toISOString();
+      setThreads((prev) => {
+        const thread = prev.find((t) => t.id === threadId);
+        return thread ? [{ ...thread, updated_at: now }, ...prev.filter((t) => t.id !== threadId)] : prev;
+      });
+    } catch (err) {
+      console.error('Failed to save chat messages:', err);
+    }
+  };
+
+  const handleSelectThread = async (threadId: string) => {
+    if (threadId === activeThreadId || loading) return;
+
+    try {
+      setActiveThreadId(threadId);
+      const messages = await getThreadMessages(projectId, threadId);
+      setChatMessages(messages.length > 0 ? messages : [welcomeMessage(project?.name ?? '')]);
+    } catch (err) {
+      console.error('Failed to load chat thread:', err);
+    }
+  };
+
+  // Threads are created when their first message is sent
+  const handleNewThread = () => {
+    if (loading) return;
+    setActiveThreadId(null);
+    setChatMessages([welcomeMessage(project?.name ?? '')]);
+  };
+
+  const handleRenameThread = async (threadId: string, title: string) => {
+    try {
+      const thread = await renameThread(projectId, threadId, title);
+      setThreads((prev) => prev.map((t) => (t.id === threadId ? thread : t)));
+    } catch (err) {
+      console.error('Failed to rename chat thread:', err);
+    }
+  };
+
+  const handleDeleteThread = async (threadId: string) => {
+    try {
+      await deleteThread(projectId, threadId);
+      setThreads((prev) => prev.filter((t) => t.id !== threadId));
+      if (threadId === activeThreadId) handleNewThread();
+    } catch (err) {
+      console.error('Failed to delete chat thread:', err);
+    }
+  };
 
   const handleSendMessage = async () => {
     if (!chatInput.trim()) return;
@@ -182,54 +660,134 @@ export default function ProjectPage() {
     const userMessage = chatInput;
     setChatInput('');
     setLoading(true);
+    recordEntry(createCheckpoint(threadTitleFrom(userMessage)));
 
-    // Add user message
-    setChatMessages((prev) => [...prev, { role: 'user', content: userMessage }]);
+    let threadId = activeThreadId;
+    if (!threadId) {
+      try {
+        const thread = await createThread(projectId, threadTitleFrom(userMessage));
+        threadId = thread.id;
+        setActiveThreadId(thread.id);
+        setThreads((prev) => [thread, ...prev]);
+      } catch (err) {
+        console.error('Failed to create chat thread:', err);
+      }
+    }
 
-    try {
-      // Call AI service via backend
-      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/chat`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          project_id: projectId,
-          message: userMessage,
-          context: { nodes, edges, project },
-        }),
-      });
+    // Add user message and an empty reply that tokens stream into
+    setChatMessages((prev) => [
+      ...prev,
+      { role: 'user', content: userMessage },
+      { role: 'assistant', content: '', streaming: true },
+    ]);
 
-      if (!response.ok) throw new Error('Chat request failed');
+    // The final reply is tracked here as well so it can be saved once the stream ends
+    let reply = '';
+    let proposedChangeSet: ChangeSet | undefined;
 
-      const data = await response.json();
+    const updateReply = (update: (content: string) => string) => {
+      reply = update(reply);
+      setChatMessages((prev) =>
+        prev.map((msg) => (msg.streaming ? { ...msg, content: update(msg.content) } : msg))
+      );
+    };
 
-      // Add AI response
-      setChatMessages((prev) => [
-        ...prev,
-        { role: 'assistant', content: data.response || 'I can help you modify your infrastructure. What would you like to change?' },
-      ]);
+    // Call AI service via backend
+    const stream = streamChat(
+      {
+        project_id: projectId,
+        message: userMessage,
+        context: { nodes, edges, project },
+      },
+      (event) => {
+        switch (event.type) {
+          case 'token':
+            updateReply((content) => content + event.text);
+            break;
 
-      // Apply any graph changes
-      if (data.changes?.nodes) {
-        setNodes((nds) => [...nds, ...data.changes.nodes]);
-      }
-      if (data.changes?.edges) {
-        setEdges((eds) => [...eds, ...data.changes.edges]);
-      }
+          // Graph changes are previewed for review rather than applied directly
+          case 'changes': {
+            const patch = patchFromChanges(event.changes);
+            setPendingPatch((prev) =>
+              normalizePatch(
+                { nodes, edges },
+                {
+                  description: patch.description ?? prev?.description,
+                  operations: [...(prev?.operations ?? []), ...patch.operations],
+                }
+              )
+            );
+            break;
+          }
+
+          // File modifications open the review dialog
+          case 'file_changes': {
+            const changeSet = changeSetFromResponse({ file_changes: event.files, change_description: event.description });
+            if (changeSet) {
+              proposedChangeSet = changeSet;
+              setPendingChangeSet(changeSet);
+              setShowModificationDialog(true);
+            }
+            break;
+          }
+
+          case 'cancelled':
+            updateReply((content) => (content ? `${content}\n\n⏹ Stopped` : '⏹ Stopped'));
+            break;
 
-      // Check if there's a file modification
-      if (data.file_change) {
-        setPendingFileChange(data.file_change);
-        setShowModificationDialog(true);
+          case 'error':
+            console.error('Chat error:', event.message);
+            updateReply((content) => content || 'Sorry, I encountered an error. Please try again.');
+            break;
+
+          case 'done':
+            updateReply((content) => content || 'I can help you modify your infrastructure. What would you like to change?');
+            break;
+        }
       }
-    } catch (err) {
-      console.error('Chat error:', err);
-      setChatMessages((prev) => [
-        ...prev,
-        { role: 'assistant', content: 'Sorry, I encountered an error. Please try again.' },
-      ]);
-    } finally {
-      setLoading(false);
-    }
+    );
+
+    chatStreamRef.current = stream;
+    await stream.done;
+    chatStreamRef.current = null;
+
+    setChatMessages((prev) =>
+      prev.map((msg) => (msg.streaming ? { ...msg, streaming: false, change_set: proposedChangeSet } : msg))
+    );
+    setLoading(false);
+
+    await persistMessages(threadId, [
+      { role: 'user', content: userMessage },
+      { role: 'assistant', content: reply, change_set: proposedChangeSet },
+    ]);
+  };
+
+  const handleAcceptOperations = (indices: number[]) => {
+    if (!pendingPatch) return;
+
+    const accepted = pendingPatch.operations.filter((_, i) => indices.includes(i));
+    const label = accepted.length === 1
+      ? describeOperation(accepted[0])
+      : pendingPatch.description ?? `Apply ${accepted.length} chat changes`;
+    const graph = executeCommand('patch', label, accepted);
+
+    // What is left of the patch is re-resolved against the updated graph
+    const remaining = normalizePatch(graph, {
+      ...pendingPatch,
+      operations: pendingPatch.operations.filter((_, i) => !indices.includes(i)),
+    });
+    setPendingPatch(remaining.operations.length > 0 ? remaining : null);
+  };
+
+  const handleRejectOperations = (indices: number[]) => {
+    if (!pendingPatch) return;
+
+    const operations = pendingPatch.operations.filter((_, i) => !indices.includes(i));
+    setPendingPatch(operations.length > 0 ? { ...pendingPatch, operations } : null);
+  };
+
+  const handleCancelMessage = () => {
+    chatStreamRef.current?.cancel();
   };
 
   const handleExplainResource = async () => {
@@ -244,6 +802,100 @@ export default function ProjectPage() {
     }, 100);
   };
 
+  // Turn an edited inspector form into a change to the service's compose file
+  const handleReviewServiceConfig = async (before: ServiceForm, after: ServiceForm) => {
+    const { serviceName, sourcePath } = selectedNode?.data ?? {};
+    if (!serviceName || !sourcePath) return;
+    if (!(await hasGitHubSession())) throw new Error('Connect GitHub to edit repository files');
+
+    const oldContent = await readSourceFile(sourcePath);
+    const newContent = editCompose(oldContent, (doc) => applyServiceForm(doc, serviceName, before, after));
+    if (newContent === oldContent) throw new Error('The file already has these settings');
+
+    setPendingChangeSet(
+      changeSetFromFile({
+        path: sourcePath,
+        oldContent,
+        newContent,
+        description: describeFormChanges(serviceName, before, after),
+        status: 'modified',
+      })
+    );
+    setShowModificationDialog(true);
+  };
+
+  // Review the fix for a security finding against the file's current content
+  const handleFixFinding = async (finding: Finding) => {
+    if (!(await hasGitHubSession())) throw new Error('Connect GitHub to edit repository files');
+
+    const oldContent = await readSourceFile(finding.path);
+    const newContent = fixFinding(finding, oldContent);
+    setPendingChangeSet(
+      changeSetFromFile({
+        path: finding.path,
+        oldContent,
+        newContent,
+        description: `${finding.fix}${finding.service ? ` for ${finding.service}` : ''}`,
+        status: 'modified',
+      })
+    );
+    setShowModificationDialog(true);
+  };
+
+  // Review a README change that embeds the Mermaid diagram of the graph
+  const handleAddDiagramToReadme = async (mermaid: string) => {
+    if (!(await hasGitHubSession())) throw new Error('Connect GitHub to edit repository files');
+
+    const path = 'README.md';
+    let oldContent = '';
+    try {
+      oldContent = await readSourceFile(path);
+    } catch (err) {
+      if (!(err instanceof GitHubApiError && err.status === 404)) throw err;
+    }
+    const newContent = upsertReadmeDiagram(oldContent, mermaid);
+    if (newContent === oldContent) throw new Error('The README already has this diagram');
+
+    setPendingChangeSet(
+      changeSetFromFile({
+        path,
+        oldContent,
+        newContent,
+        description: 'Add architecture diagram to README',
+        status: oldContent ? 'modified' : 'added',
+      })
+    );
+    setShowModificationDialog(true);
+  };
+
+  // Save the new provider right away; the node cards and inspector follow it
+  const handleSwitchProvider = async (provider: CloudProvider, region: string) => {
+    if (!project) return;
+    const previous = project;
+    setProject({ ...project, provider, region });
+    try {
+      setProject(await updateProject(project.id, { provider, region }));
+    } catch (err) {
+      console.error('Failed to switch provider:', err);
+      setProject(previous);
+    }
+  };
+
+  // Review Terraform for the project's cloud provider generated from the graph
+  const handleGenerateTerraform = () => {
+    if (!project) return;
+    const { changeSet } = generateTerraform(
+      { nodes, edges },
+      {
+        provider: cloudProvider,
+        region: cloudRegion,
+        namePrefix: project.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'app',
+      }
+    );
+    setPendingChangeSet(changeSet);
+    setShowModificationDialog(true);
+  };
+
   const handleModifyResource = async () => {
     if (!selectedNode) return;
 
@@ -255,63 +907,71 @@ export default function ProjectPage() {
     }, 100);
   };
 
-  const handleCommitChanges = async (
-    branch: string,
-    createNew: boolean,
-    newBranchName?: string
-  ) => {
-    if (!pendingFileChange || !project) return;
+  const handleCommitChanges = async ({ branch, newBranchName, files, pullRequest }: CommitOptions) => {
+    if (!pendingChangeSet || !project) return;
 
     try {
       const [owner, repo] = project.repo_full_name.split('/');
       let targetBranch = branch;
 
       // Create new branch if requested
-      if (createNew && newBranchName) {
+      if (newBranchName) {
         await createBranch(owner, repo, newBranchName, branch);
         targetBranch = newBranchName;
       }
 
-      // Get current file SHA (you'll need to fetch this)
-      const fileResponse = await fetch(
-        `https://api.github.com/repos/${owner}/${repo}/contents/${pendingFileChange.path}?ref=${targetBranch}`,
-        {
-          headers: {
-            Authorization: `Bearer ${getGitHubToken()}`,
-            Accept: 'application/vnd.github.v3+json',
-          },
-        }
-      );
-
-      if (!fileResponse.ok) throw new Error('Failed to get file');
-      const fileData = await fileResponse.json();
-
-      // Update the file
-      await updateRepoFile(
+      // Commit every file in one commit. Through the GitHub App the commit is
+      // the app's, with the user credited as co-author.
+      const coAuthor = coAuthorTrailer(await getGitHubSession());
+      const commit = await commitFiles(
         owner,
         repo,
-        pendingFileChange.path,
-        pendingFileChange.newContent,
-        `Update ${pendingFileChange.path}: ${pendingFileChange.description}
-
-🤖 Generated with Terra
-https://github.com/terraform-on-cloud/terra`,
-        fileData.sha,
-        targetBranch
+        targetBranch,
+        buildCommitMessage(pendingChangeSet, files, coAuthor),
+        files.map((file) => ({
+          path: file.path,
+          content: getChangeStatus(file) === 'deleted' ? null : file.newContent,
+        }))
       );
 
-      // Show success message
-      setChatMessages((prev) => [
-        ...prev,
-        {
+      // Rescan what changed on the branch the findings are shown for
+      if (targetBranch === graphBranch) {
+        setScannedFiles((prev) =>
+          prev.map((scanned) => {
+            const committed = files.find((file) => file.path === scanned.path);
+            return committed ? { ...scanned, content: committed.newContent } : scanned;
+          })
+        );
+      }
+
+      if (pullRequest) {
+        const pr = await createPullRequest(owner, repo, targetBranch, branch, pullRequest);
+
+        const message: ChatMessage = {
           role: 'assistant',
-          content: `✅ Successfully committed changes to ${targetBranch}! You can view the changes at https://github.com/${owner}/${repo}/tree/${targetBranch}`,
-        },
-      ]);
+          content: `🔀 Opened ${pr.draft ? 'draft ' : ''}pull request #${pr.number} from ${targetBranch} into ${branch}: ${pr.html_url}${pr.warnings.map((warning) => `\n⚠️ PR #${pr.number} opened, ${warning}`).join('')}`,
+          commit: { sha: commit.sha, url: commit.html_url, branch: targetBranch },
+          pull_request: { number: pr.number, url: pr.html_url },
+        };
+        setChatMessages((prev) => [...prev, message]);
+        await persistMessages(activeThreadId, [message]);
+
+        // The dialog stays open to show the pull request's checks
+        return pr;
+      }
+
+      // Show success message
+      const message: ChatMessage = {
+        role: 'assistant',
+        content: `✅ Successfully committed ${files.length === 1 ? files[0].path : `${files.length} files`} to ${targetBranch}! You can view the commit at ${commit.html_url}`,
+        commit: { sha: commit.sha, url: commit.html_url, branch: targetBranch },
+      };
+      setChatMessages((prev) => [...prev, message]);
+      await persistMessages(activeThreadId, [message]);
 
       // Close dialog
       setShowModificationDialog(false);
-      setPendingFileChange(null);
+      setPendingChangeSet(null);
     } catch (err) {
       console.error('Commit error:', err);
       throw err;
@@ -356,14 +1016,53 @@ https://github.com/terraform-on-cloud/terra`,
     );
   }
 
+  const deployment = selectedNode ? managedModule(selectedNode) : null;
+
   return (
     <div className="h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 flex flex-col">
       {/* Header */}
       <div className="glass-panel m-4 p-4 flex items-center justify-between">
         <div>
           <h1 className="text-2xl font-bold text-white">{project.name}</h1>
-          <p className="text-gray-300 text-sm">{project.repo_full_name} • {project.provider}</p>
+          <div className="flex items-center gap-3 text-sm mt-1">
+            <p className="text-gray-300">{project.repo_full_name}</p>
+            <ProviderPicker provider={cloudProvider} region={cloudRegion} onChange={handleSwitchProvider} />
+          </div>
         </div>
+        {graphBranch && (
+          <div className="flex items-center gap-3 text-sm">
+            <select
+              value={graphBranch}
+              onChange={(e) => handleSwitchBranch(e.target.value)}
+              disabled={graphLoading}
+              className="input-field py-1"
+              title="Branch shown in the graph"
+            >
+              {(branches.some((b) => b.name === graphBranch) ? branches : [{ name: graphBranch }, ...branches]).map((b) => (
+                <option key={b.name} value={b.name}>
+                  {b.name}
+                </option>
+              ))}
+            </select>
+            {layoutSaveState === 'saving' ? (
+              <span className="text-gray-400">Saving layout...</span>
+            ) : layoutSaveState === 'error' ? (
+              <span className="text-red-300">
+                Layout not saved{' '}
+                <button
+                  onClick={() => layoutSnapshot && persistLayout(layoutSnapshot)}
+                  className="underline hover:text-red-100"
+                >
+                  Retry
+                </button>
+              </span>
+            ) : layoutDirty ? (
+              <span className="text-yellow-300">● Unsaved layout changes</span>
+            ) : (
+              <span className="text-gray-400">Layout saved</span>
+            )}
+          </div>
+        )}
         <div className="flex gap-2">
           <button
             onClick={() => setActiveTab('graph')}
@@ -390,32 +1089,196 @@ https://github.com/terraform-on-cloud/terra`,
           <>
             {/* Graph */}
             <div className="flex-1 relative">
-              {nodes.length === 0 ? (
+              {graphLoading && (
+                <div className="absolute inset-0 z-20 flex items-center justify-center bg-slate-900/60">
+                  <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-white"></div>
+                </div>
+              )}
+
+              {analysisWarnings.length > 0 && (
+                <div className="absolute top-4 left-1/2 -translate-x-1/2 z-10 max-w-xl flex items-start gap-4 px-4 py-3 rounded-lg bg-slate-800/90 border border-yellow-500/40 text-sm text-yellow-100">
+                  <div className="space-y-1">
+                    {analysisWarnings.map((warning) => (
+                      <p key={warning}>{warning}</p>
+                    ))}
+                  </div>
+                  <button
+                    onClick={() => setAnalysisWarnings([])}
+                    className="shrink-0 text-gray-300 hover:text-white"
+                  >
+                    Dismiss
+                  </button>
+                </div>
+              )}
+
+              {layoutConflict && (
+                <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-10 max-w-xl flex items-center gap-4 px-4 py-3 rounded-lg bg-slate-800/90 border border-yellow-500/40 text-sm text-yellow-100">
+                  <span>
+                    The analysis changed since this layout was saved
+                    {layoutConflict.savedAt ? ` (${new Date(layoutConflict.savedAt).toLocaleString()})` : ''}:{' '}
+                    {layoutConflict.added.length} new, {layoutConflict.removed.length} removed node
+                    {layoutConflict.added.length + layoutConflict.removed.length === 1 ? '' : 's'}. Matching nodes kept
+                    their positions.
+                  </span>
+                  <button
+                    onClick={() => {
+                      setLayoutConflict(null);
+                      handleRelayout();
+                    }}
+                    className="shrink-0 text-yellow-300 hover:text-yellow-100 font-semibold"
+                  >
+                    Re-layout
+                  </button>
+                  <button
+                    onClick={() => {
+                      setLayoutConflict(null);
+                      if (layoutSnapshot) persistLayout(layoutSnapshot);
+                    }}
+                    className="shrink-0 text-gray-300 hover:text-white"
+                  >
+                    Keep
+                  </button>
+                </div>
+              )}
+
+              {displayGraph.nodes.length === 0 ? (
                 <div className="absolute inset-0 flex items-center justify-center">
                   <div className="text-center">
                     <p className="text-gray-400 text-lg mb-4">
                       No infrastructure detected in this repository
                     </p>
                     <p className="text-gray-500 text-sm">
-                      Make sure your repository has a docker-compose.yml file
+                      Make sure your repository has a docker-compose.yml file, Terraform configuration or Kubernetes manifests
                     </p>
                   </div>
                 </div>
               ) : (
-                <ReactFlow
-                  nodes={nodes}
-                  edges={edges}
-                  onNodesChange={onNodesChange}
-                  onEdgesChange={onEdgesChange}
-                  onConnect={onConnect}
-                  onNodeClick={onNodeClick}
-                  nodeTypes={nodeTypes}
-                  fitView
-                  className="bg-slate-900/50"
-                >
-                  <Controls />
-                  <Background variant={BackgroundVariant.Dots} gap={12} size={1} />
-                </ReactFlow>
+                <CloudTargetContext.Provider value={cloudTarget}>
+                  <NodeFindingsContext.Provider value={nodeFindings}>
+                    <ReactFlow
+                      nodes={displayGraph.nodes}
+                      edges={displayGraph.edges}
+                      onNodesChange={handleNodesChange}
+                      onEdgesChange={onEdgesChange}
+                      onConnect={onConnect}
+                      onNodeClick={onNodeClick}
+                      onNodeDragStart={onNodeDragStart}
+                      onNodeDragStop={onNodeDragStop}
+                      onDelete={onDelete}
+                      onDragOver={handleDragOver}
+                      onDrop={handleDrop}
+                      onInit={(instance) => {
+                        flowRef.current = instance;
+                      }}
+                      nodeTypes={nodeTypes}
+                      fitView
+                      className="bg-slate-900/50"
+                    >
+                      <Controls />
+                      <Background variant={BackgroundVariant.Dots} gap={12} size={1} />
+                    </ReactFlow>
+                  </NodeFindingsContext.Provider>
+                </CloudTargetContext.Provider>
+              )}
+
+              {pendingPatch && (
+                <GraphPatchPanel
+                  patch={pendingPatch}
+                  onAccept={(index) => handleAcceptOperations(relatedOperations(pendingPatch, index, 'accept'))}
+                  onReject={(index) => handleRejectOperations(relatedOperations(pendingPatch, index, 'reject'))}
+                  onAcceptAll={() => handleAcceptOperations(pendingPatch.operations.map((_, i) => i))}
+                  onRejectAll={() => setPendingPatch(null)}
+                />
+              )}
+
+              {/* Graph toolbar */}
+              {nodes.length > 0 && (
+                <div className="absolute top-4 right-4 z-10 flex items-center gap-2">
+                  <select
+                    value={layoutDirection}
+                    onChange={(e) => {
+                      const direction = e.target.value as LayoutDirection;
+                      setLayoutDirection(direction);
+                      handleRelayout(direction, layoutSpacing);
+                    }}
+                    className="input-field text-sm py-2"
+                    title="Layout direction"
+                  >
+                    <option value="TB">Top to bottom</option>
+                    <option value="LR">Left to right</option>
+                  </select>
+                  <select
+                    value={layoutSpacing}
+                    onChange={(e) => {
+                      const spacing = e.target.value as LayoutSpacing;
+                      setLayoutSpacing(spacing);
+                      handleRelayout(layoutDirection, spacing);
+                    }}
+                    className="input-field text-sm py-2"
+                    title="Layout spacing"
+                  >
+                    <option value="compact">Compact</option>
+                    <option value="normal">Normal</option>
+                    <option value="wide">Wide</option>
+                  </select>
+                  <button onClick={() => handleRelayout()} className="btn-secondary px-4 py-2 text-sm">
+                    Re-layout
+                  </button>
+                  <button
+                    onClick={() => setShowPalette((prev) => !prev)}
+                    className={`btn-secondary px-4 py-2 text-sm ${showPalette ? 'bg-white/20' : ''}`}
+                  >
+                    + Add
+                  </button>
+                  <ExportMenu
+                    graph={{ nodes, edges }}
+                    direction={layoutDirection}
+                    fileName={`${project.name.replace(/[^\w.-]+/g, '-')}-architecture`}
+                    onAddToReadme={handleAddDiagramToReadme}
+                  />
+                  <button onClick={handleGenerateTerraform} className="btn-secondary px-4 py-2 text-sm">
+                    Terraform
+                  </button>
+                  <button
+                    onClick={() => {
+                      setShowCost((prev) => !prev);
+                      setShowHistory(false);
+                    }}
+                    className={`btn-secondary px-4 py-2 text-sm ${showCost ? 'bg-white/20' : ''}`}
+                    title="Estimated monthly cost"
+                  >
+                    {formatCost(costEstimate.total)}/mo
+                  </button>
+                  <button
+                    onClick={() => {
+                      setShowHistory((prev) => !prev);
+                      setShowCost(false);
+                    }}
+                    className={`btn-secondary px-4 py-2 text-sm ${showHistory ? 'bg-white/20' : ''}`}
+                  >
+                    History{history.position > 0 ? ` (${history.position})` : ''}
+                  </button>
+                </div>
+              )}
+
+              {showPalette && <NodePalette onClose={() => setShowPalette(false)} />}
+
+              {showCost && (
+                <CostPanel
+                  estimate={costEstimate}
+                  onSelectNode={(nodeId) => setSelectedNode(nodes.find((node) => node.id === nodeId) ?? null)}
+                  onClose={() => setShowCost(false)}
+                />
+              )}
+
+              {showHistory && (
+                <HistoryPanel
+                  history={history}
+                  onUndo={handleUndo}
+                  onRedo={handleRedo}
+                  onJump={handleJumpTo}
+                  onClose={() => setShowHistory(false)}
+                />
               )}
             </div>
 
@@ -444,6 +1307,62 @@ https://github.com/terraform-on-cloud/terra`,
                       <p className="text-white font-mono text-sm">{selectedNode.data.serviceName}</p>
                     </div>
                   )}
+                  {deployment && (
+                    <div>
+                      <label className="text-sm text-gray-400">Deploys to</label>
+                      {'type' in deployment ? (
+                        <>
+                          <p className="text-white">{MANAGED_SERVICES[cloudProvider][deployment.type]}</p>
+                          <p className="text-xs text-gray-400 mt-1">
+                            {MANAGED_TIERS[cloudProvider][deployment.type]} • {PROVIDERS[cloudProvider].label} {cloudRegion}
+                          </p>
+                        </>
+                      ) : (
+                        <p className="text-gray-400 text-sm">{deployment.reason}</p>
+                      )}
+                    </div>
+                  )}
+                  {nodeFindings[selectedNode.id] && (
+                    <div className="pt-4 border-t border-white/10">
+                      <h3 className="font-semibold text-white mb-3">Security</h3>
+                      <SecurityFindings findings={nodeFindings[selectedNode.id]} onFix={handleFixFinding} />
+                    </div>
+                  )}
+                  {selectedNode.data.template && (
+                    <div className="pt-4 border-t border-white/10">
+                      <p className="text-sm text-gray-400 mb-2">
+                        This resource only exists on the canvas. Add it to {selectedNode.data.sourcePath} from its template:
+                      </p>
+                      <button
+                        onClick={() => proposeSourceChanges([{ kind: 'add', node: selectedNode }])}
+                        className="btn-primary w-full px-4 py-2"
+                      >
+                        Add to {selectedNode.data.sourcePath}
+                      </button>
+                    </div>
+                  )}
+                  {!selectedNode.data.template && selectedNode.data.dockerComposeConfig && selectedNode.data.serviceName && selectedNode.data.sourcePath && (
+                    <div className="pt-4 border-t border-white/10">
+                      <h3 className="font-semibold text-white mb-3">Configuration</h3>
+                      <ServiceConfigEditor
+                        key={selectedNode.id}
+                        service={selectedNode.data.dockerComposeConfig}
+                        onReview={handleReviewServiceConfig}
+                      />
+                    </div>
+                  )}
+                  {graphBranch && (
+                    <div>
+                      <label className="text-sm text-gray-400">Notes</label>
+                      <textarea
+                        value={selectedNode.data.note ?? ''}
+                        onChange={(e) => handleNoteChange(selectedNode.id, e.target.value)}
+                        placeholder="Add a note to this node..."
+                        rows={3}
+                        className="input-field w-full text-sm mt-1"
+                      />
+                    </div>
+                  )}
                   <button
                     onClick={handleExplainResource}
                     className="btn-primary w-full px-4 py-2 mt-4"
@@ -461,79 +1380,150 @@ https://github.com/terraform-on-cloud/terra`,
             )}
           </>
         ) : (
-          /* Chat Interface */
-          <div className="flex-1 flex flex-col">
-            {/* Messages */}
-            <div className="flex-1 overflow-y-auto p-6 space-y-4">
-              {chatMessages.map((msg, idx) => (
-                <div
-                  key={idx}
-                  className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}
-                >
+          <>
+            {/* Chat Threads */}
+            <ChatThreadList
+              threads={threads}
+              activeThreadId={activeThreadId}
+              search={threadSearch}
+              onSearchChange={setThreadSearch}
+              onSelect={handleSelectThread}
+              onCreate={handleNewThread}
+              onRename={handleRenameThread}
+              onDelete={handleDeleteThread}
+            />
+
+            {/* Chat Interface */}
+            <div className="flex-1 flex flex-col">
+              {/* Messages */}
+              <div className="flex-1 overflow-y-auto p-6 space-y-4">
+                {chatMessages.map((msg, idx) => (
                   <div
-                    className={`max-w-[70%] p-4 rounded-lg ${
-                      msg.role === 'user'
-                        ? 'bg-blue-500 text-white'
-                        : 'bg-white/10 text-gray-100'
-                    }`}
+                    key={idx}
+                    className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}
                   >
-                    <div className="whitespace-pre-wrap">{msg.content}</div>
-                  </div>
-                </div>
-              ))}
-              {loading && (
-                <div className="flex justify-start">
-                  <div className="bg-white/10 text-gray-100 p-4 rounded-lg">
-                    <div className="flex gap-2">
-                      <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce"></div>
-                      <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '0.1s' }}></div>
-                      <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '0.2s' }}></div>
+                    <div
+                      className={`max-w-[70%] p-4 rounded-lg ${
+                        msg.role === 'user'
+                          ? 'bg-blue-500 text-white'
+                          : 'bg-white/10 text-gray-100'
+                      }`}
+                    >
+                      {msg.streaming && !msg.content ? (
+                        <div className="flex gap-2">
+                          <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce"></div>
+                          <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '0.1s' }}></div>
+                          <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '0.2s' }}></div>
+                        </div>
+                      ) : (
+                        <div className="whitespace-pre-wrap">
+                          {msg.content}
+                          {msg.streaming && <span className="inline-block w-2 h-4 ml-0.5 bg-gray-300 animate-pulse align-text-bottom"></span>}
+                        </div>
+                      )}
+                      {(msg.change_set || msg.commit) && (
+                        <div className="flex flex-wrap gap-2 mt-3">
+                          {msg.change_set && (
+                            <button
+                              onClick={() => {
+                                setPendingChangeSet(msg.change_set ?? null);
+                                setShowModificationDialog(true);
+                              }}
+                              className="px-2 py-1 rounded text-xs bg-white/10 hover:bg-white/20 text-blue-200"
+                            >
+                              📄 Review {msg.change_set.files.length} file{msg.change_set.files.length === 1 ? '' : 's'}
+                            </button>
+                          )}
+                          {msg.commit && (
+                            <a
+                              href={msg.commit.url}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="px-2 py-1 rounded text-xs bg-white/10 hover:bg-white/20 text-green-200 font-mono"
+                            >
+                              {msg.commit.sha.slice(0, 7)} on {msg.commit.branch}
+                            </a>
+                          )}
+                          {msg.pull_request && (
+                            <a
+                              href={msg.pull_request.url}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="px-2 py-1 rounded text-xs bg-white/10 hover:bg-white/20 text-purple-200"
+                            >
+                              PR #{msg.pull_request.number}
+                            </a>
+                          )}
+                        </div>
+                      )}
                     </div>
                   </div>
-                </div>
-              )}
-            </div>
+                ))}
+              </div>
 
-            {/* Input */}
-            <div className="p-6 border-t border-white/10">
-              <div className="flex gap-2">
-                <input
-                  type="text"
-                  value={chatInput}
-                  onChange={(e) => setChatInput(e.target.value)}
-                  onKeyPress={(e) => e.key === 'Enter' && !loading && handleSendMessage()}
-                  placeholder="Ask me to modify your infrastructure... (e.g., 'Update postgres to version 15')"
-                  className="input-field flex-1"
-                  disabled={loading}
-                />
-                <button
-                  onClick={handleSendMessage}
-                  disabled={loading || !chatInput.trim()}
-                  className="btn-primary px-6 py-2 disabled:opacity-50"
-                >
-                  Send
-                </button>
+              {/* Input */}
+              <div className="p-6 border-t border-white/10">
+                {pendingPatch && (
+                  <div className="flex items-center justify-between mb-3 px-4 py-2 rounded-lg bg-yellow-500/10 border border-yellow-500/30 text-sm text-yellow-100">
+                    <span>
+                      {pendingPatch.operations.length} proposed graph change{pendingPatch.operations.length === 1 ? '' : 's'} waiting for review
+                    </span>
+                    <button onClick={() => setActiveTab('graph')} className="text-yellow-300 hover:text-yellow-100 font-semibold">
+                      Review
+                    </button>
+                  </div>
+                )}
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={chatInput}
+                    onChange={(e) => setChatInput(e.target.value)}
+                    onKeyPress={(e) => e.key === 'Enter' && !loading && handleSendMessage()}
+                    placeholder="Ask me to modify your infrastructure... (e.g., 'Update postgres to version 15')"
+                    className="input-field flex-1"
+                    disabled={loading}
+                  />
+                  {loading ? (
+                    <button
+                      onClick={handleCancelMessage}
+                      className="btn-secondary px-6 py-2"
+                    >
+                      Stop
+                    </button>
+                  ) : (
+                    <button
+                      onClick={handleSendMessage}
+                      disabled={!chatInput.trim()}
+                      className="btn-primary px-6 py-2 disabled:opacity-50"
+                    >
+                      Send
+                    </button>
+                  )}
+                </div>
+                <p className="text-xs text-gray-400 mt-2">
+                  Try: "Update postgres version to 15" or "Explain the database setup"
+                </p>
               </div>
-              <p className="text-xs text-gray-400 mt-2">
-                Try: "Update postgres version to 15" or "Explain the database setup"
-              </p>
             </div>
-          </div>
+          </>
         )}
       </div>
 
       {/* File Modification Dialog */}
-      {showModificationDialog && pendingFileChange && (
+      {showModificationDialog && pendingChangeSet && (
         <FileModificationDialog
           isOpen={showModificationDialog}
           onClose={() => {
             setShowModificationDialog(false);
-            setPendingFileChange(null);
+            setPendingChangeSet(null);
           }}
-          fileChange={pendingFileChange}
+          changeSet={pendingChangeSet}
+          costDelta={changeSetCost}
+          provider={cloudProvider}
           repoFullName={project.repo_full_name}
-          currentBranch={branches[0]?.name || 'main'}
+          currentBranch={graphBranch || branches[0]?.name || 'main'}
           branches={branches}
+          chatContext={[...chatMessages].reverse().find((msg) => msg.role === 'user')?.content}
           onConfirm={handleCommitChanges}
         />
       )}
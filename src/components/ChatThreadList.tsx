@@ -0,0 +1,132 @@
+'use client';
+
+import { useState } from 'react';
+import type { ChatThread } from '@/lib/chatThreads';
+
+interface ChatThreadListProps {
+  threads: ChatThread[];
+  activeThreadId: string | null;
+  search: string;
+  onSearchChange: (search: string) => void;
+  onSelect: (threadId: string) => void;
+  onCreate: () => void;
+  onRename: (threadId: string, title: string) => Promise<void>;
+  onDelete: (threadId: string) => Promise<void>;
+}
+
+function formatUpdatedAt(value: string): string {
+  const date = new Date(value);
+  return date.toDateString() === new Date().toDateString()
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString();
+}
+
+export default function ChatThreadList({
+  threads,
+  activeThreadId,
+  search,
+  onSearchChange,
+  onSelect,
+  onCreate,
+  onRename,
+  onDelete,
+}: ChatThreadListProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editTitle, setEditTitle] = useState('');
+
+  const startEditing = (thread: ChatThread) => {
+    setEditingId(thread.id);
+    setEditTitle(thread.title);
+  };
+
+  const commitRename = async () => {
+    if (!editingId) return;
+    const title = editTitle.trim();
+    const threadId = editingId;
+    setEditingId(null);
+    if (title) await onRename(threadId, title);
+  };
+
+  const handleDelete = async (thread: ChatThread) => {
+    if (window.confirm(`Delete the thread "${thread.title}"? This cannot be undone.`)) {
+      await onDelete(thread.id);
+    }
+  };
+
+  return (
+    <div className="w-64 border-r border-white/10 flex flex-col">
+      <div className="p-4 space-y-2 border-b border-white/10">
+        <button onClick={onCreate} className="btn-primary w-full px-4 py-2">
+          New thread
+        </button>
+        <input
+          type="search"
+          value={search}
+          onChange={(e) => onSearchChange(e.target.value)}
+          placeholder="Search threads..."
+          className="input-field w-full text-sm"
+        />
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {threads.length === 0 && (
+          <p className="text-sm text-gray-500 p-2">{search ? 'No matching threads' : 'No conversations yet'}</p>
+        )}
+
+        {threads.map((thread) => (
+          <div
+            key={thread.id}
+            onClick={() => onSelect(thread.id)}
+            className={`group px-3 py-2 rounded-lg cursor-pointer transition-colors ${
+              thread.id === activeThreadId ? 'bg-white/15' : 'hover:bg-white/10'
+            }`}
+          >
+            {editingId === thread.id ? (
+              <input
+                autoFocus
+                value={editTitle}
+                onChange={(e) => setEditTitle(e.target.value)}
+                onClick={(e) => e.stopPropagation()}
+                onBlur={commitRename}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') commitRename();
+                  if (e.key === 'Escape') setEditingId(null);
+                }}
+                className="input-field w-full text-sm py-1"
+              />
+            ) : (
+              <div className="flex items-start gap-2">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-white truncate" title={thread.title}>{thread.title}</p>
+                  <p className="text-xs text-gray-500">{formatUpdatedAt(thread.updated_at)}</p>
+                </div>
+                <div className="hidden group-hover:flex gap-1">
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      startEditing(thread);
+                    }}
+                    className="text-xs text-gray-400 hover:text-white"
+                    title="Rename"
+                  >
+                    ✎
+                  </button>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleDelete(thread);
+                    }}
+                    className="text-xs text-gray-400 hover:text-red-400"
+                    title="Delete"
+                  >
+                    ✕
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+'use client';
+
+import { useState } from 'react';
+import { CostEstimate, formatCost } from '@/lib/costEstimate';
+import { PROVIDERS } from '@/lib/providers';
+
+interface CostPanelProps {
+  estimate: CostEstimate;
+  onSelectNode: (nodeId: string) => void;
+  onClose: () => void;
+}
+
+export default function CostPanel({ estimate, onSelectNode, onClose }: CostPanelProps) {
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const nodes = [...estimate.nodes].sort((a, b) => b.monthly - a.monthly);
+
+  return (
+    <div className="absolute top-16 right-4 z-10 w-80 max-h-[70%] flex flex-col bg-slate-800/90 backdrop-blur-sm rounded-lg border border-white/10 shadow-xl">
+      <div className="p-3 border-b border-white/10 flex items-center justify-between">
+        <div>
+          <h3 className="font-semibold text-white">Estimated cost</h3>
+          <p className="text-xs text-gray-400">
+            {PROVIDERS[estimate.provider].label} {estimate.region} • prices of {estimate.pricingVersion}
+          </p>
+        </div>
+        <button onClick={onClose} className="px-2 py-1 text-gray-400 hover:text-white" title="Close">
+          ✕
+        </button>
+      </div>
+
+      <ul className="flex-1 overflow-y-auto p-2 space-y-1">
+        {nodes.map((node) => (
+          <li key={node.nodeId}>
+            <button
+              onClick={() => {
+                setExpanded((prev) => (prev === node.nodeId ? null : node.nodeId));
+                onSelectNode(node.nodeId);
+              }}
+              className="w-full text-left px-2 py-1.5 rounded text-sm hover:bg-white/5"
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-white truncate">{node.label}</span>
+                <span className="text-emerald-300 font-mono">{formatCost(node.monthly, estimate.currency)}</span>
+              </div>
+              <p className="text-xs text-gray-400 truncate">
+                {node.service} • {node.tier}
+                {node.provider !== estimate.provider && ` (${PROVIDERS[node.provider].label})`}
+              </p>
+            </button>
+            {expanded === node.nodeId && (
+              <ul className="px-4 pb-2 space-y-0.5">
+                {node.items.map((item) => (
+                  <li key={item.label} className="flex justify-between text-xs text-gray-400">
+                    <span>{item.label}</span>
+                    <span className="font-mono">{formatCost(item.monthly, estimate.currency)}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </li>
+        ))}
+        {nodes.length === 0 && <li className="px-2 py-1.5 text-sm text-gray-400">Nothing in the graph can be priced yet</li>}
+      </ul>
+
+      {estimate.unpriced.length > 0 && (
+        <details className="px-3 py-2 border-t border-white/10 text-xs text-gray-400">
+          <summary className="cursor-pointer">{estimate.unpriced.length} not priced</summary>
+          <ul className="mt-1 space-y-0.5">
+            {estimate.unpriced.map((node) => (
+              <li key={node.nodeId}>
+                {node.label}: {node.reason}
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+
+      <div className="p-3 border-t border-white/10 flex items-center justify-between">
+        <span className="text-sm text-gray-300">Total per month</span>
+        <span className="font-semibold text-white font-mono">{formatCost(estimate.total, estimate.currency)}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,181 @@
+'use client';
+
+import { useState, useMemo, Fragment } from 'react';
+import { buildHunks, countChanges, diffLines, diffWords, toSplitRows, DiffLine, TextRange } from '@/lib/diff';
+import { detectLanguage, highlightLine, Language, TOKEN_CLASSES } from '@/lib/highlight';
+
+interface DiffViewerProps {
+  path: string;
+  oldContent: string;
+  newContent: string;
+  // New-side line numbers to flag, such as lines holding a detected secret
+  flaggedLines?: Set<number>;
+}
+
+type ViewMode = 'unified' | 'split';
+
+const LINE_STYLES: Record<DiffLine['type'], { row: string; marker: string; changed: string }> = {
+  equal: { row: 'text-gray-300', marker: ' ', changed: '' },
+  delete: { row: 'bg-red-900/30 text-red-100', marker: '-', changed: 'bg-red-500/40 rounded-sm' },
+  insert: { row: 'bg-green-900/30 text-green-100', marker: '+', changed: 'bg-green-500/40 rounded-sm' },
+};
+
+const FLAGGED_ROW = 'bg-red-600/40 text-red-50';
+
+// Syntax-highlighted line content with the word-level changes marked on top
+function LineContent({ text, language, ranges, changedClass }: {
+  text: string;
+  language: Language;
+  ranges: TextRange[];
+  changedClass: string;
+}) {
+  const pieces: Array<{ text: string; className: string }> = [];
+  let pos = 0;
+
+  for (const token of highlightLine(text, language)) {
+    const tokenEnd = pos + token.text.length;
+    let cursor = pos;
+
+    // Split the token wherever a changed range starts or ends inside it
+    const boundaries = ranges
+      .flatMap((range) => [range.start, range.end])
+      .filter((boundary) => boundary > pos && boundary < tokenEnd)
+      .sort((a, b) => a - b);
+
+    for (const boundary of [...boundaries, tokenEnd]) {
+      if (boundary <= cursor) continue;
+      const changed = ranges.some((range) => cursor >= range.start && cursor < range.end);
+      pieces.push({
+        text: text.slice(cursor, boundary),
+        className: `${TOKEN_CLASSES[token.type]} ${changed ? changedClass : ''}`,
+      });
+      cursor = boundary;
+    }
+    pos = tokenEnd;
+  }
+
+  return (
+    <span className="whitespace-pre">
+      {pieces.length === 0 ? ' ' : pieces.map((piece, i) => (
+        <span key={i} className={piece.className}>{piece.text}</span>
+      ))}
+    </span>
+  );
+}
+
+export default function DiffViewer({ path, oldContent, newContent, flaggedLines }: DiffViewerProps) {
+  const [mode, setMode] = useState<ViewMode>('unified');
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+
+  const language = detectLanguage(path);
+  const lines = useMemo(() => diffLines(oldContent, newContent), [oldContent, newContent]);
+  const blocks = useMemo(() => buildHunks(lines), [lines]);
+  const { additions, deletions } = countChanges(lines);
+
+  // Word-level ranges for each deleted line paired with the inserted line that replaced it
+  const wordRanges = useMemo(() => {
+    const ranges = new Map<DiffLine, TextRange[]>();
+    for (const row of toSplitRows(lines)) {
+      if (row.left?.type === 'delete' && row.right?.type === 'insert') {
+        const { oldRanges, newRanges } = diffWords(row.left.text, row.right.text);
+        ranges.set(row.left, oldRanges);
+        ranges.set(row.right, newRanges);
+      }
+    }
+    return ranges;
+  }, [lines]);
+
+  const expand = (id: number) => setExpanded((prev) => new Set(prev).add(id));
+
+  const renderContent = (line: DiffLine) => (
+    <LineContent
+      text={line.text}
+      language={language}
+      ranges={wordRanges.get(line) ?? []}
+      changedClass={LINE_STYLES[line.type].changed}
+    />
+  );
+
+  const lineNumber = (value?: number) => (
+    <td className="w-12 px-2 text-right text-gray-500 select-none align-top">{value ?? ''}</td>
+  );
+
+  const isFlagged = (line?: DiffLine) => line?.newNumber !== undefined && !!flaggedLines?.has(line.newNumber);
+
+  const renderUnified = (rows: DiffLine[]) =>
+    rows.map((line, i) => (
+      <tr key={`${line.oldNumber}-${line.newNumber}-${i}`} className={isFlagged(line) ? FLAGGED_ROW : LINE_STYLES[line.type].row}>
+        {lineNumber(line.oldNumber)}
+        {lineNumber(line.newNumber)}
+        <td className="w-4 text-center select-none text-gray-500">{isFlagged(line) ? '!' : LINE_STYLES[line.type].marker}</td>
+        <td className="px-2">{renderContent(line)}</td>
+      </tr>
+    ));
+
+  const renderSplit = (rows: DiffLine[]) =>
+    toSplitRows(rows).map((row, i) => (
+      <tr key={i}>
+        {lineNumber(row.left?.oldNumber)}
+        <td className={`px-2 w-1/2 ${row.left ? LINE_STYLES[row.left.type].row : 'bg-gray-800/30'}`}>
+          {row.left && renderContent(row.left)}
+        </td>
+        {lineNumber(row.right?.newNumber)}
+        <td className={`px-2 w-1/2 ${row.right ? (isFlagged(row.right) ? FLAGGED_ROW : LINE_STYLES[row.right.type].row) : 'bg-gray-800/30'}`}>
+          {row.right && renderContent(row.right)}
+        </td>
+      </tr>
+    ));
+
+  const render = mode === 'unified' ? renderUnified : renderSplit;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <div className="text-sm">
+          <span className="text-green-400 font-semibold">+{additions}</span>{' '}
+          <span className="text-red-400 font-semibold">-{deletions}</span>
+        </div>
+        <div className="flex gap-1">
+          {(['unified', 'split'] as ViewMode[]).map((value) => (
+            <button
+              key={value}
+              onClick={() => setMode(value)}
+              className={`px-3 py-1 rounded text-sm capitalize transition-all ${
+                mode === value ? 'bg-blue-500 text-white' : 'bg-white/10 text-gray-300'
+              }`}
+            >
+              {value}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {lines.length === 0 ? (
+        <p className="text-gray-400 text-sm">Empty file</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full font-mono text-sm border-collapse">
+            <tbody>
+              {blocks.map((block, i) =>
+                block.kind === 'lines' || expanded.has(block.id) ? (
+                  <Fragment key={i}>{render(block.lines)}</Fragment>
+                ) : (
+                  <tr key={i}>
+                    <td colSpan={4} className="py-1">
+                      <button
+                        onClick={() => expand(block.id)}
+                        className="w-full text-center text-xs text-blue-300 bg-blue-500/10 hover:bg-blue-500/20 rounded py-1"
+                      >
+                        ↕ Show {block.lines.length} unchanged line{block.lines.length === 1 ? '' : 's'}
+                      </button>
+                    </td>
+                  </tr>
+                )
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
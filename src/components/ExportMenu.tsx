@@ -0,0 +1,72 @@
+'use client';
+
+import { useState } from 'react';
+import type { InfraGraph } from '@/lib/graph';
+import type { LayoutDirection } from '@/lib/layout';
+import { downloadFile, svgToPng, toDot, toMermaid, toSvg } from '@/lib/graphExport';
+
+interface ExportMenuProps {
+  graph: InfraGraph;
+  direction: LayoutDirection;
+  // Base name of downloaded files
+  fileName: string;
+  // Open the README change with the Mermaid diagram for review
+  onAddToReadme: (mermaid: string) => Promise<void>;
+}
+
+// Resolution multiplier for PNG exports
+const PNG_SCALE = 3;
+
+export default function ExportMenu({ graph, direction, fileName, onAddToReadme }: ExportMenuProps) {
+  const [open, setOpen] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<void> | void) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      setOpen(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Export failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const items: Array<{ label: string; action: () => Promise<void> | void }> = [
+    { label: 'PNG image', action: async () => downloadFile(`${fileName}.png`, await svgToPng(toSvg(graph), PNG_SCALE)) },
+    { label: 'SVG image', action: () => downloadFile(`${fileName}.svg`, toSvg(graph), 'image/svg+xml') },
+    { label: 'Mermaid', action: () => downloadFile(`${fileName}.mmd`, toMermaid(graph, direction)) },
+    { label: 'Graphviz DOT', action: () => downloadFile(`${fileName}.dot`, toDot(graph, direction), 'text/vnd.graphviz') },
+    { label: 'Copy Mermaid', action: () => navigator.clipboard.writeText(toMermaid(graph, direction)) },
+    { label: 'Add Mermaid to README...', action: () => onAddToReadme(toMermaid(graph, direction)) },
+  ];
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen((prev) => !prev)}
+        className={`btn-secondary px-4 py-2 text-sm ${open ? 'bg-white/20' : ''}`}
+      >
+        Export ▾
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-2 w-56 bg-slate-800 rounded-lg border border-white/10 shadow-xl py-1">
+          {items.map((item) => (
+            <button
+              key={item.label}
+              onClick={() => run(item.action)}
+              disabled={busy}
+              className="w-full text-left px-3 py-2 text-sm text-gray-200 hover:bg-white/10 disabled:opacity-50"
+            >
+              {item.label}
+            </button>
+          ))}
+          {error && <p className="px-3 py-2 text-xs text-red-400">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
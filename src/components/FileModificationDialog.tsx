@@ -1,13 +1,13 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-
-interface FileChange {
-  path: string;
-  oldContent: string;
-  newContent: string;
-  description: string;
-}
+import { useState, useEffect, useMemo } from 'react';
+import DiffViewer from '@/components/DiffViewer';
+import PullRequestChecks from '@/components/PullRequestChecks';
+import { ChangeSet, CommitOptions, FileChangeStatus, buildPullRequestBody, getChangeStatus } from '@/lib/changes';
+import type { OpenedPullRequest } from '@/lib/github';
+import { CostDelta, formatCost } from '@/lib/costEstimate';
+import { SecretMatch, SecretReplacement, detectChangeSetSecrets, maskSecret, replaceSecrets } from '@/lib/secretDetection';
+import type { CloudProvider } from '@/lib/providers';
 
 interface Branch {
   name: string;
@@ -16,55 +16,186 @@ interface Branch {
 interface FileModificationDialogProps {
   isOpen: boolean;
   onClose: () => void;
-  fileChange: FileChange | null;
+  changeSet: ChangeSet | null;
+  // Estimated monthly cost before and after the change, when it touches compose files
+  costDelta?: CostDelta | null;
+  // Provider whose secret manager detected secrets can be moved to
+  provider?: CloudProvider;
   repoFullName: string;
   currentBranch: string;
   branches: Branch[];
-  onConfirm: (branch: string, createNew: boolean, newBranchName?: string) => Promise<void>;
+  // Last chat request, used to prefill the pull request description
+  chatContext?: string;
+  // Resolves with the pull request when one was opened, so its checks can be shown
+  onConfirm: (options: CommitOptions) => Promise<OpenedPullRequest | void>;
+}
+
+type CommitMode = 'existing' | 'new-branch' | 'pull-request';
+
+function splitList(value: string): string[] {
+  return value
+    .split(',')
+    .map((item) => item.trim().replace(/^@/, ''))
+    .filter(Boolean);
+}
+
+// Path and value of a detected secret, which stay the same when other values are replaced
+function secretKey(match: SecretMatch, content: string): string {
+  return `${match.path}\0${content.slice(match.start, match.end)}`;
 }
 
+const STATUS_STYLES: Record<FileChangeStatus, { label: string; className: string }> = {
+  added: { label: 'A', className: 'bg-green-500/20 text-green-400' },
+  modified: { label: 'M', className: 'bg-yellow-500/20 text-yellow-400' },
+  deleted: { label: 'D', className: 'bg-red-500/20 text-red-400' },
+};
+
 export default function FileModificationDialog({
   isOpen,
   onClose,
-  fileChange,
+  changeSet,
+  costDelta,
+  provider = 'gcp',
   repoFullName,
   currentBranch,
   branches,
+  chatContext,
   onConfirm,
 }: FileModificationDialogProps) {
   const [selectedBranch, setSelectedBranch] = useState(currentBranch);
-  const [createNewBranch, setCreateNewBranch] = useState(false);
+  const [commitMode, setCommitMode] = useState<CommitMode>('existing');
   const [newBranchName, setNewBranchName] = useState('');
+  const [prTitle, setPrTitle] = useState('');
+  const [prBody, setPrBody] = useState('');
+  const [prReviewers, setPrReviewers] = useState('');
+  const [prLabels, setPrLabels] = useState('');
+  const [prDraft, setPrDraft] = useState(false);
+  const [pullRequest, setPullRequest] = useState<OpenedPullRequest | null>(null);
   const [committing, setCommitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [activePath, setActivePath] = useState<string | null>(null);
+  const [excludedPaths, setExcludedPaths] = useState<Set<string>>(new Set());
+  // New content of files whose detected secrets were replaced
+  const [replacedContent, setReplacedContent] = useState<Record<string, string>>({});
+  // Entropy matches the user marked as not secret, by path and value
+  const [dismissedSecrets, setDismissedSecrets] = useState<Set<string>>(new Set());
 
   useEffect(() => {
     if (isOpen) {
       setSelectedBranch(currentBranch);
-      setCreateNewBranch(false);
+      setCommitMode('existing');
       setNewBranchName('');
+      setPrTitle(changeSet?.description ?? '');
+      setPrBody(changeSet ? buildPullRequestBody(changeSet, chatContext) : '');
+      setPrReviewers('');
+      setPrLabels('');
+      setPrDraft(false);
+      setPullRequest(null);
       setError(null);
+      setActivePath(changeSet?.files[0]?.path ?? null);
+      setExcludedPaths(new Set());
+      setReplacedContent({});
+      setDismissedSecrets(new Set());
     }
-  }, [isOpen, currentBranch]);
+  }, [isOpen, currentBranch, changeSet, chatContext]);
 
-  if (!isOpen || !fileChange) return null;
+  const files = useMemo(
+    () =>
+      (changeSet?.files ?? []).map((file) =>
+        file.path in replacedContent ? { ...file, newContent: replacedContent[file.path] } : file
+      ),
+    [changeSet, replacedContent]
+  );
+  const includedFiles = useMemo(() => files.filter((file) => !excludedPaths.has(file.path)), [files, excludedPaths]);
+
+  // Credentials the commit would add. Committing is blocked until they are replaced.
+  const secrets = useMemo(
+    () =>
+      includedFiles.flatMap((file) =>
+        detectChangeSetSecrets([file]).filter((match) => !dismissedSecrets.has(secretKey(match, file.newContent)))
+      ),
+    [includedFiles, dismissedSecrets]
+  );
+
+  if (!isOpen || !changeSet || files.length === 0) return null;
+
+  const fileChange = files.find((file) => file.path === activePath) ?? files[0];
+  const flaggedLines = new Set(
+    secrets
+      .filter((match) => match.path === fileChange.path)
+      .flatMap((match) => Array.from({ length: match.endLine - match.line + 1 }, (_, i) => match.line + i))
+  );
+
+  const handleReplaceSecrets = (matches: SecretMatch[], replacement: SecretReplacement) => {
+    const next = { ...replacedContent };
+    for (const path of new Set(matches.map((match) => match.path))) {
+      const content = files.find((file) => file.path === path)?.newContent ?? '';
+      next[path] = replaceSecrets(content, matches.filter((match) => match.path === path), replacement, provider);
+    }
+    setReplacedContent(next);
+    setError(null);
+  };
+
+  const toggleFile = (path: string) => {
+    setExcludedPaths((prev) => {
+      const next = new Set(prev);
+      if (next.has(path)) {
+        next.delete(path);
+      } else {
+        next.add(path);
+      }
+      return next;
+    });
+  };
+
+  const createsBranch = commitMode !== 'existing';
 
   const handleConfirm = async () => {
-    if (createNewBranch && !newBranchName.trim()) {
+    if (createsBranch && !newBranchName.trim()) {
       setError('Please enter a branch name');
       return;
     }
 
+    if (commitMode === 'pull-request' && !prTitle.trim()) {
+      setError('Please enter a pull request title');
+      return;
+    }
+
+    if (includedFiles.length === 0) {
+      setError('Select at least one file to commit');
+      return;
+    }
+
+    if (secrets.length > 0) {
+      setError('Replace the detected secrets before committing');
+      return;
+    }
+
     setCommitting(true);
     setError(null);
 
     try {
-      await onConfirm(
-        selectedBranch,
-        createNewBranch,
-        createNewBranch ? newBranchName : undefined
-      );
-      onClose();
+      const result = await onConfirm({
+        branch: selectedBranch,
+        newBranchName: createsBranch ? newBranchName.trim() : undefined,
+        files: includedFiles,
+        pullRequest: commitMode === 'pull-request'
+          ? {
+              title: prTitle.trim(),
+              body: prBody,
+              reviewers: splitList(prReviewers),
+              labels: splitList(prLabels),
+              draft: prDraft,
+            }
+          : undefined,
+      });
+
+      // Stay open on the pull request so its checks can be followed
+      if (result) {
+        setPullRequest(result);
+      } else {
+        onClose();
+      }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to commit changes');
     } finally {
@@ -72,59 +203,96 @@ export default function FileModificationDialog({
     }
   };
 
-  // Simple diff display
-  const renderDiff = () => {
-    const oldLines = fileChange.oldContent.split('\n');
-    const newLines = fileChange.newContent.split('\n');
-    const maxLines = Math.max(oldLines.length, newLines.length);
-
-    return (
-      <div className="space-y-1 font-mono text-sm">
-        {Array.from({ length: maxLines }).map((_, i) => {
-          const oldLine = oldLines[i];
-          const newLine = newLines[i];
-          const changed = oldLine !== newLine;
-
-          return (
-            <div key={i} className="flex gap-2">
-              <div className={`flex-1 px-2 py-1 ${changed ? 'bg-red-900/30 text-red-200' : 'bg-gray-800/30 text-gray-400'}`}>
-                {oldLine || ' '}
-              </div>
-              <div className={`flex-1 px-2 py-1 ${changed ? 'bg-green-900/30 text-green-200' : 'bg-gray-800/30 text-gray-400'}`}>
-                {newLine || ' '}
-              </div>
-            </div>
-          );
-        })}
-      </div>
-    );
-  };
-
   return (
     <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4">
       <div className="glass-panel max-w-4xl w-full max-h-[90vh] overflow-hidden flex flex-col">
         {/* Header */}
         <div className="p-6 border-b border-white/10">
           <h2 className="text-2xl font-bold text-white mb-2">Confirm Changes</h2>
-          <p className="text-gray-300">{fileChange.description}</p>
+          <p className="text-gray-300">{changeSet.description}</p>
           <p className="text-sm text-gray-400 mt-1">
-            Repository: {repoFullName} • File: {fileChange.path}
+            Repository: {repoFullName} • {files.length === 1 ? `File: ${fileChange.path}` : `${files.length} files`}
           </p>
+          {costDelta && costDelta.after !== costDelta.before && (
+            <p className="text-sm mt-1">
+              <span className="text-gray-400">Estimated cost: </span>
+              <span className="text-gray-200 font-mono">
+                {formatCost(costDelta.before)} → {formatCost(costDelta.after)}/mo
+              </span>{' '}
+              <span className={`font-mono ${costDelta.after > costDelta.before ? 'text-amber-400' : 'text-green-400'}`}>
+                ({costDelta.after > costDelta.before ? '+' : '−'}
+                {formatCost(Math.abs(costDelta.after - costDelta.before))})
+              </span>
+            </p>
+          )}
         </div>
 
-        {/* Diff View */}
-        <div className="flex-1 overflow-auto p-6">
-          <div className="mb-4">
-            <div className="flex gap-4 mb-2">
-              <span className="text-sm font-semibold text-red-400">Before</span>
-              <span className="text-sm font-semibold text-green-400">After</span>
+        <div className="flex-1 overflow-hidden flex">
+          {/* File List */}
+          {files.length > 1 && (
+            <div className="w-64 border-r border-white/10 overflow-y-auto p-3 space-y-1">
+              {files.map((file) => {
+                const status = STATUS_STYLES[getChangeStatus(file)];
+                return (
+                  <div
+                    key={file.path}
+                    className={`flex items-center gap-2 px-2 py-1 rounded cursor-pointer ${
+                      file.path === fileChange.path ? 'bg-white/15' : 'hover:bg-white/10'
+                    }`}
+                    onClick={() => setActivePath(file.path)}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={!excludedPaths.has(file.path)}
+                      onChange={() => toggleFile(file.path)}
+                      onClick={(e) => e.stopPropagation()}
+                      className="w-4 h-4"
+                    />
+                    <span className={`px-1.5 rounded text-xs font-mono ${status.className}`}>{status.label}</span>
+                    <span className="text-sm text-gray-200 font-mono truncate" title={file.path}>{file.path}</span>
+                  </div>
+                );
+              })}
             </div>
+          )}
+
+          {/* Diff View */}
+          <div className="flex-1 overflow-auto p-6">
+            {files.length > 1 && (
+              <p className="text-sm text-gray-300 mb-4">
+                <span className="font-mono">{fileChange.path}</span>
+                {fileChange.description && ` — ${fileChange.description}`}
+              </p>
+            )}
+            <DiffViewer
+              key={fileChange.path}
+              path={fileChange.path}
+              oldContent={fileChange.oldContent}
+              newContent={getChangeStatus(fileChange) === 'deleted' ? '' : fileChange.newContent}
+              flaggedLines={flaggedLines}
+            />
           </div>
-          {renderDiff()}
         </div>
 
-        {/* Branch Selection */}
-        <div className="p-6 border-t border-white/10 space-y-4">
+        {pullRequest ? (
+          /* Pull Request Status */
+          <div className="p-6 border-t border-white/10 space-y-4">
+            <p className="text-sm font-medium text-gray-300">Pull request opened</p>
+            {pullRequest.warnings.map((warning) => (
+              <p key={warning} className="text-sm text-yellow-300">
+                PR #{pullRequest.number} opened, {warning}
+              </p>
+            ))}
+            <PullRequestChecks repoFullName={repoFullName} pullRequest={pullRequest} />
+            <div className="flex justify-end">
+              <button onClick={onClose} className="btn-primary px-6 py-2">
+                Done
+              </button>
+            </div>
+          </div>
+        ) : (
+        /* Branch Selection */
+        <div className="p-6 border-t border-white/10 space-y-4 overflow-y-auto max-h-[50vh]">
           <div>
             <label className="block text-sm font-medium text-gray-300 mb-2">
               Choose where to commit
@@ -135,16 +303,17 @@ export default function FileModificationDialog({
               <label className="flex items-center gap-3 p-3 rounded-lg bg-white/5 hover:bg-white/10 cursor-pointer transition-colors">
                 <input
                   type="radio"
-                  checked={!createNewBranch}
-                  onChange={() => setCreateNewBranch(false)}
+                  checked={commitMode === 'existing'}
+                  onChange={() => setCommitMode('existing')}
                   className="w-4 h-4"
                 />
                 <div className="flex-1">
-                  <span className="text-white">Commit to existing branch</span>
+                  <span className="text-white">
+                    {commitMode === 'existing' ? 'Commit to existing branch' : 'Base branch'}
+                  </span>
                   <select
                     value={selectedBranch}
                     onChange={(e) => setSelectedBranch(e.target.value)}
-                    disabled={createNewBranch}
                     className="input-field w-full mt-2"
                   >
                     {branches.map((branch) => (
@@ -160,8 +329,8 @@ export default function FileModificationDialog({
               <label className="flex items-center gap-3 p-3 rounded-lg bg-white/5 hover:bg-white/10 cursor-pointer transition-colors">
                 <input
                   type="radio"
-                  checked={createNewBranch}
-                  onChange={() => setCreateNewBranch(true)}
+                  checked={commitMode === 'new-branch'}
+                  onChange={() => setCommitMode('new-branch')}
                   className="w-4 h-4"
                 />
                 <div className="flex-1">
@@ -171,14 +340,140 @@ export default function FileModificationDialog({
                     value={newBranchName}
                     onChange={(e) => setNewBranchName(e.target.value)}
                     placeholder="feature/update-postgres"
-                    disabled={!createNewBranch}
+                    disabled={commitMode !== 'new-branch'}
                     className="input-field w-full mt-2"
                   />
                 </div>
               </label>
+
+              {/* Pull Request */}
+              <label className="flex items-start gap-3 p-3 rounded-lg bg-white/5 hover:bg-white/10 cursor-pointer transition-colors">
+                <input
+                  type="radio"
+                  checked={commitMode === 'pull-request'}
+                  onChange={() => setCommitMode('pull-request')}
+                  className="w-4 h-4 mt-1"
+                />
+                <div className="flex-1">
+                  <span className="text-white">Open pull request</span>
+                  {commitMode === 'pull-request' && (
+                    <div className="space-y-2 mt-2">
+                      <input
+                        type="text"
+                        value={newBranchName}
+                        onChange={(e) => setNewBranchName(e.target.value)}
+                        placeholder="Branch name, e.g. feature/update-postgres"
+                        className="input-field w-full"
+                      />
+                      <input
+                        type="text"
+                        value={prTitle}
+                        onChange={(e) => setPrTitle(e.target.value)}
+                        placeholder="Pull request title"
+                        className="input-field w-full"
+                      />
+                      <textarea
+                        value={prBody}
+                        onChange={(e) => setPrBody(e.target.value)}
+                        rows={6}
+                        className="input-field w-full font-mono text-sm"
+                      />
+                      <div className="flex gap-2">
+                        <input
+                          type="text"
+                          value={prReviewers}
+                          onChange={(e) => setPrReviewers(e.target.value)}
+                          placeholder="Reviewers (comma separated)"
+                          className="input-field flex-1"
+                        />
+                        <input
+                          type="text"
+                          value={prLabels}
+                          onChange={(e) => setPrLabels(e.target.value)}
+                          placeholder="Labels (comma separated)"
+                          className="input-field flex-1"
+                        />
+                      </div>
+                      <label className="flex items-center gap-2 text-sm text-gray-300">
+                        <input
+                          type="checkbox"
+                          checked={prDraft}
+                          onChange={(e) => setPrDraft(e.target.checked)}
+                          className="w-4 h-4"
+                        />
+                        Open as draft
+                      </label>
+                    </div>
+                  )}
+                </div>
+              </label>
             </div>
           </div>
 
+          {secrets.length > 0 && (
+            <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/60 space-y-2">
+              <div className="flex items-center justify-between gap-3">
+                <p className="text-sm text-red-300">
+                  {secrets.length === 1 ? 'A possible secret' : `${secrets.length} possible secrets`} would be committed.
+                  Replace {secrets.length === 1 ? 'it' : 'them'} before committing.
+                </p>
+                <div className="flex gap-2 shrink-0">
+                  <button
+                    onClick={() => handleReplaceSecrets(secrets, 'env')}
+                    className="px-2 py-1 rounded text-xs bg-white/10 text-gray-200 hover:bg-white/20"
+                  >
+                    All → env references
+                  </button>
+                  <button
+                    onClick={() => handleReplaceSecrets(secrets, 'secret-manager')}
+                    className="px-2 py-1 rounded text-xs bg-white/10 text-gray-200 hover:bg-white/20"
+                  >
+                    All → secret manager
+                  </button>
+                </div>
+              </div>
+              <ul className="space-y-1">
+                {secrets.map((match) => {
+                  const content = files.find((file) => file.path === match.path)?.newContent ?? '';
+                  return (
+                    <li key={match.id} className="flex items-center gap-2 text-xs">
+                      <button
+                        onClick={() => setActivePath(match.path)}
+                        className="font-mono text-gray-300 hover:text-white truncate"
+                        title="Show in diff"
+                      >
+                        {match.path}:{match.line}
+                      </button>
+                      <span className="text-red-300">{match.label}</span>
+                      <span className="font-mono text-gray-400 truncate">{maskSecret(content.slice(match.start, match.end))}</span>
+                      <span className="flex-1" />
+                      <button
+                        onClick={() => handleReplaceSecrets([match], 'env')}
+                        className="px-2 py-0.5 rounded bg-white/10 text-gray-200 hover:bg-white/20"
+                      >
+                        Env reference
+                      </button>
+                      <button
+                        onClick={() => handleReplaceSecrets([match], 'secret-manager')}
+                        className="px-2 py-0.5 rounded bg-white/10 text-gray-200 hover:bg-white/20"
+                      >
+                        Secret manager
+                      </button>
+                      {match.heuristic && (
+                        <button
+                          onClick={() => setDismissedSecrets((prev) => new Set(prev).add(secretKey(match, content)))}
+                          className="px-2 py-0.5 rounded text-gray-400 hover:text-white"
+                        >
+                          Not a secret
+                        </button>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          )}
+
           {error && (
             <div className="p-3 rounded-lg bg-red-500/20 border border-red-500 text-red-400">
               {error}
@@ -196,13 +491,16 @@ export default function FileModificationDialog({
             </button>
             <button
               onClick={handleConfirm}
-              disabled={committing}
+              disabled={committing || includedFiles.length === 0 || secrets.length > 0}
               className="btn-primary px-6 py-2 disabled:opacity-50"
             >
-              {committing ? 'Committing...' : 'Commit & Push'}
+              {committing
+                ? 'Committing...'
+                : commitMode === 'pull-request' ? 'Commit & Open PR' : 'Commit & Push'}
             </button>
           </div>
         </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,69 @@
+'use client';
+
+import { GraphPatch, PatchStatus, describeOperation, operationStatus } from '@/lib/graphPatch';
+
+interface GraphPatchPanelProps {
+  patch: GraphPatch;
+  onAccept: (index: number) => void;
+  onReject: (index: number) => void;
+  onAcceptAll: () => void;
+  onRejectAll: () => void;
+}
+
+const STATUS_STYLES: Record<PatchStatus, { label: string; className: string }> = {
+  add: { label: '+', className: 'bg-green-500/20 text-green-300' },
+  update: { label: '~', className: 'bg-yellow-500/20 text-yellow-300' },
+  remove: { label: '−', className: 'bg-red-500/20 text-red-300' },
+};
+
+// Review list for a graph patch proposed in chat. The patch itself is previewed
+// on the graph behind the panel.
+export default function GraphPatchPanel({ patch, onAccept, onReject, onAcceptAll, onRejectAll }: GraphPatchPanelProps) {
+  return (
+    <div className="absolute top-4 left-4 z-10 w-96 max-h-[70%] flex flex-col bg-slate-800/90 backdrop-blur-sm rounded-lg border border-white/10 shadow-xl">
+      <div className="p-4 border-b border-white/10">
+        <h3 className="font-semibold text-white">Proposed graph changes</h3>
+        {patch.description && <p className="text-sm text-gray-300 mt-1">{patch.description}</p>}
+      </div>
+
+      <ul className="flex-1 overflow-y-auto p-2 space-y-1">
+        {patch.operations.map((op, index) => {
+          const status = STATUS_STYLES[operationStatus(op)];
+          return (
+            <li key={index} className="flex items-center gap-2 px-2 py-1.5 rounded hover:bg-white/5">
+              <span className={`w-5 h-5 flex items-center justify-center rounded text-xs font-bold ${status.className}`}>
+                {status.label}
+              </span>
+              <span className="flex-1 text-sm text-gray-200 truncate" title={describeOperation(op)}>
+                {describeOperation(op)}
+              </span>
+              <button
+                onClick={() => onAccept(index)}
+                className="px-2 py-0.5 rounded text-xs bg-green-500/20 text-green-300 hover:bg-green-500/30"
+                title="Accept"
+              >
+                ✓
+              </button>
+              <button
+                onClick={() => onReject(index)}
+                className="px-2 py-0.5 rounded text-xs bg-red-500/20 text-red-300 hover:bg-red-500/30"
+                title="Reject"
+              >
+                ✕
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="p-4 border-t border-white/10 flex gap-2">
+        <button onClick={onRejectAll} className="btn-secondary flex-1 px-4 py-2">
+          Reject all
+        </button>
+        <button onClick={onAcceptAll} className="btn-primary flex-1 px-4 py-2">
+          Accept all
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+'use client';
+
+import { GraphHistory, HistoryKind, canRedo, canUndo } from '@/lib/history';
+
+interface HistoryPanelProps {
+  history: GraphHistory;
+  onUndo: () => void;
+  onRedo: () => void;
+  // Jump so that the first `position` entries are applied
+  onJump: (position: number) => void;
+  onClose: () => void;
+}
+
+const KIND_ICONS: Record<HistoryKind, string> = {
+  move: '↔',
+  add: '➕',
+  connect: '🔗',
+  delete: '🗑',
+  patch: '✨',
+  checkpoint: '💬',
+};
+
+export default function HistoryPanel({ history, onUndo, onRedo, onJump, onClose }: HistoryPanelProps) {
+  return (
+    <div className="absolute top-16 right-4 z-10 w-72 max-h-[70%] flex flex-col bg-slate-800/90 backdrop-blur-sm rounded-lg border border-white/10 shadow-xl">
+      <div className="p-3 border-b border-white/10 flex items-center justify-between">
+        <h3 className="font-semibold text-white">History</h3>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={onUndo}
+            disabled={!canUndo(history)}
+            className="px-2 py-1 rounded text-sm bg-white/10 text-gray-200 hover:bg-white/20 disabled:opacity-40"
+            title="Undo (Ctrl+Z)"
+          >
+            ↶
+          </button>
+          <button
+            onClick={onRedo}
+            disabled={!canRedo(history)}
+            className="px-2 py-1 rounded text-sm bg-white/10 text-gray-200 hover:bg-white/20 disabled:opacity-40"
+            title="Redo (Ctrl+Shift+Z)"
+          >
+            ↷
+          </button>
+          <button onClick={onClose} className="px-2 py-1 text-gray-400 hover:text-white" title="Close">
+            ✕
+          </button>
+        </div>
+      </div>
+
+      <ul className="flex-1 overflow-y-auto p-2 space-y-1">
+        <li>
+          <button
+            onClick={() => onJump(0)}
+            className={`w-full text-left px-2 py-1.5 rounded text-sm ${
+              history.position === 0 ? 'bg-blue-500/30 text-white' : 'text-gray-400 hover:bg-white/5'
+            }`}
+          >
+            Initial graph
+          </button>
+        </li>
+        {history.entries.map((entry, index) => {
+          const applied = index < history.position;
+          const current = index === history.position - 1;
+          return (
+            <li key={entry.id}>
+              <button
+                onClick={() => onJump(index + 1)}
+                className={`w-full flex items-center gap-2 text-left px-2 py-1.5 rounded text-sm ${
+                  current ? 'bg-blue-500/30 text-white' : applied ? 'text-gray-200 hover:bg-white/5' : 'text-gray-500 line-through hover:bg-white/5'
+                } ${entry.kind === 'checkpoint' ? 'italic' : ''}`}
+                title={entry.kind === 'checkpoint' ? 'Restore the graph to before this chat message' : entry.label}
+              >
+                <span className="w-5 text-center">{KIND_ICONS[entry.kind]}</span>
+                <span className="flex-1 truncate">{entry.label}</span>
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
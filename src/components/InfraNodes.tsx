@@ -0,0 +1,93 @@
+'use client';
+
+import { createContext, useContext } from 'react';
+import { Handle, NodeProps, Position } from '@xyflow/react';
+import type { InfraNode, NodeData } from '@/lib/graph';
+import { NODE_CATALOG, nodeKindInfo } from '@/lib/nodeCatalog';
+import { CloudTarget, MANAGED_SERVICES, managedModule } from '@/lib/providers';
+import { estimateNodeCost, formatCost } from '@/lib/costEstimate';
+import { Finding, worstSeverity } from '@/lib/securityScan';
+import { SEVERITY_STYLES } from '@/components/SecurityFindings';
+
+// Provider and region whose managed services and prices the cards show
+export const CloudTargetContext = createContext<CloudTarget | null>(null);
+
+// Security findings of each node, by node ID
+export const NodeFindingsContext = createContext<Record<string, Finding[]>>({});
+
+// Card for every node kind in the catalog. Both handles are always rendered so
+// edges from the analysis keep their anchors; the catalog decides which ones a
+// new connection can start or end at.
+function InfraNodeCard({ id, type, data }: NodeProps<InfraNode>) {
+  const info = nodeKindInfo(type);
+  const target = useContext(CloudTargetContext);
+  const deployment = target ? managedModule({ id, type, data }) : null;
+  const cost = target ? estimateNodeCost({ id, type, data }, target.provider, target.region) : null;
+  const findings = useContext(NodeFindingsContext)[id] ?? [];
+  const severity = worstSeverity(findings);
+
+  return (
+    <div className={`node-card ${info.borderClass} min-w-[200px]`}>
+      <Handle
+        type="target"
+        position={Position.Top}
+        isConnectableEnd={info.handles.target}
+        className={info.handles.target ? '' : '!opacity-0'}
+      />
+      <div className="flex items-center gap-2 mb-2">
+        <div className={`w-3 h-3 rounded-full ${info.accentClass}`}></div>
+        <h3 className="font-semibold text-white flex-1">{data.label}</h3>
+        {severity && (
+          <span
+            className={`px-1.5 rounded text-xs ${SEVERITY_STYLES[severity].className}`}
+            title={findings.map((finding) => `${SEVERITY_STYLES[finding.severity].label}: ${finding.title}`).join('\n')}
+          >
+            ⚠ {findings.length}
+          </span>
+        )}
+        <span title={info.label}>{info.icon}</span>
+      </div>
+      <p className="text-sm text-gray-300">{info.label}</p>
+      {data.details && (
+        <p className="text-xs text-gray-400 mt-1">{data.details}</p>
+      )}
+      {(deployment && 'type' in deployment) || (cost && 'monthly' in cost) ? (
+        <div className="flex items-center justify-between gap-2 mt-2 text-xs">
+          {target && deployment && 'type' in deployment && (
+            <span className="text-sky-300">→ {MANAGED_SERVICES[target.provider][deployment.type]}</span>
+          )}
+          {cost && 'monthly' in cost && (
+            <span className="ml-auto px-1.5 rounded bg-emerald-500/20 text-emerald-300 font-mono" title={`${cost.service}, ${cost.tier}`}>
+              {formatCost(cost.monthly)}/mo
+            </span>
+          )}
+        </div>
+      ) : null}
+      {data.template && (
+        <p className="text-xs text-amber-300 mt-2">Not in {data.sourcePath} yet</p>
+      )}
+      <Handle
+        type="source"
+        position={Position.Bottom}
+        isConnectableStart={info.handles.source}
+        className={info.handles.source ? '' : '!opacity-0'}
+      />
+    </div>
+  );
+}
+
+// Container for Kubernetes objects that share a namespace
+function NamespaceNode({ data }: { data: NodeData }) {
+  return (
+    <div className="w-full h-full rounded-xl border border-dashed border-white/30 bg-white/5">
+      <p className="px-4 py-2 text-xs font-mono uppercase tracking-wide text-gray-400">
+        namespace: {data.label}
+      </p>
+    </div>
+  );
+}
+
+export const nodeTypes = {
+  ...Object.fromEntries(Object.keys(NODE_CATALOG).map((kind) => [kind, InfraNodeCard])),
+  namespace: NamespaceNode,
+};
@@ -0,0 +1,48 @@
+'use client';
+
+import { NODE_KINDS, NodeKind } from '@/lib/graph';
+import { NODE_CATALOG } from '@/lib/nodeCatalog';
+
+// Drag data type for palette items dropped on the canvas
+export const PALETTE_DRAG_TYPE = 'application/x-terra-node-kind';
+
+interface NodePaletteProps {
+  onClose: () => void;
+}
+
+export default function NodePalette({ onClose }: NodePaletteProps) {
+  const handleDragStart = (event: React.DragEvent, kind: NodeKind) => {
+    event.dataTransfer.setData(PALETTE_DRAG_TYPE, kind);
+    event.dataTransfer.effectAllowed = 'move';
+  };
+
+  return (
+    <div className="absolute bottom-4 left-4 z-10 w-56 max-h-[60%] flex flex-col bg-slate-800/90 backdrop-blur-sm rounded-lg border border-white/10 shadow-xl">
+      <div className="p-3 border-b border-white/10 flex items-center justify-between">
+        <h3 className="font-semibold text-white">Add resource</h3>
+        <button onClick={onClose} className="px-2 py-1 text-gray-400 hover:text-white" title="Close">
+          ✕
+        </button>
+      </div>
+      <p className="px-3 pt-2 text-xs text-gray-400">Drag onto the canvas</p>
+      <ul className="flex-1 overflow-y-auto p-2 space-y-1">
+        {NODE_KINDS.map((kind) => {
+          const info = NODE_CATALOG[kind];
+          return (
+            <li
+              key={kind}
+              draggable
+              onDragStart={(event) => handleDragStart(event, kind)}
+              className="flex items-center gap-2 px-2 py-1.5 rounded text-sm text-gray-200 cursor-grab hover:bg-white/5"
+              title={info.template ? info.description : `${info.description} (canvas only)`}
+            >
+              <span className="w-5 text-center">{info.icon}</span>
+              <span className="flex-1 truncate">{info.label}</span>
+              <span className={`w-2 h-2 rounded-full ${info.accentClass}`}></span>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+'use client';
+
+import { CloudProvider, PROVIDERS } from '@/lib/providers';
+
+interface ProviderPickerProps {
+  provider: CloudProvider;
+  region: string;
+  onChange: (provider: CloudProvider, region: string) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+// Cloud provider and region selects. Picking another provider moves to its default region.
+export default function ProviderPicker({ provider, region, onChange, disabled, className = '' }: ProviderPickerProps) {
+  return (
+    <div className={`flex items-center gap-2 ${className}`}>
+      <select
+        value={provider}
+        onChange={(e) => {
+          const next = e.target.value as CloudProvider;
+          onChange(next, PROVIDERS[next].defaultRegion);
+        }}
+        disabled={disabled}
+        className="input-field py-1"
+        title="Cloud provider"
+      >
+        {(Object.keys(PROVIDERS) as CloudProvider[]).map((key) => (
+          <option key={key} value={key}>
+            {PROVIDERS[key].label}
+          </option>
+        ))}
+      </select>
+      <select
+        value={region}
+        onChange={(e) => onChange(provider, e.target.value)}
+        disabled={disabled}
+        className="input-field py-1"
+        title="Region"
+      >
+        {PROVIDERS[provider].regions.map((name) => (
+          <option key={name} value={name}>
+            {name}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { getCommitChecks, CheckState, CheckSummary, PullRequest } from '@/lib/github';
+
+interface PullRequestChecksProps {
+  repoFullName: string;
+  pullRequest: PullRequest;
+}
+
+const STATE_STYLES: Record<CheckState, { dot: string; label: string }> = {
+  pending: { dot: 'bg-yellow-400 animate-pulse', label: 'Checks running' },
+  success: { dot: 'bg-green-500', label: 'All checks passed' },
+  failure: { dot: 'bg-red-500', label: 'Some checks failed' },
+  none: { dot: 'bg-gray-500', label: 'No checks reported yet' },
+};
+
+const POLL_INTERVAL_MS = 10000;
+
+export default function PullRequestChecks({ repoFullName, pullRequest }: PullRequestChecksProps) {
+  const [summary, setSummary] = useState<CheckSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const [owner, repo] = repoFullName.split('/');
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const poll = async () => {
+      try {
+        const checks = await getCommitChecks(owner, repo, pullRequest.head.sha);
+        if (cancelled) return;
+        setSummary(checks);
+        setError(null);
+
+        // Checks can take a while to be registered, so keep polling while nothing has reported
+        if (checks.state === 'pending' || checks.state === 'none') {
+          timer = setTimeout(poll, POLL_INTERVAL_MS);
+        }
+      } catch (err) {
+        if (cancelled) return;
+        setError(err instanceof Error ? err.message : 'Failed to load checks');
+        timer = setTimeout(poll, POLL_INTERVAL_MS);
+      }
+    };
+
+    poll();
+
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+    };
+  }, [repoFullName, pullRequest.head.sha]);
+
+  const state = STATE_STYLES[summary?.state ?? 'none'];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <a
+          href={pullRequest.html_url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-blue-400 hover:underline font-semibold"
+        >
+          #{pullRequest.number} {pullRequest.title}
+        </a>
+        {pullRequest.draft && (
+          <span className="px-2 py-0.5 rounded-full bg-gray-500/30 text-gray-300 text-xs">Draft</span>
+        )}
+      </div>
+
+      <div className="flex items-center gap-2 text-sm text-gray-300">
+        <div className={`w-2.5 h-2.5 rounded-full ${state.dot}`}></div>
+        {summary ? state.label : 'Loading checks...'}
+      </div>
+
+      {summary && summary.runs.length > 0 && (
+        <ul className="space-y-1 max-h-40 overflow-y-auto">
+          {summary.runs.map((run) => (
+            <li key={run.name} className="flex items-center gap-2 text-sm">
+              <div className={`w-2 h-2 rounded-full ${STATE_STYLES[run.state].dot}`}></div>
+              {run.url ? (
+                <a href={run.url} target="_blank" rel="noopener noreferrer" className="text-gray-200 hover:underline">
+                  {run.name}
+                </a>
+              ) : (
+                <span className="text-gray-200">{run.name}</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+    </div>
+  );
+}
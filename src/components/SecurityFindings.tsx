@@ -0,0 +1,65 @@
+'use client';
+
+import { useState } from 'react';
+import type { Finding, Severity } from '@/lib/securityScan';
+
+export const SEVERITY_STYLES: Record<Severity, { label: string; className: string }> = {
+  critical: { label: 'Critical', className: 'bg-red-500/30 text-red-300' },
+  high: { label: 'High', className: 'bg-orange-500/20 text-orange-300' },
+  medium: { label: 'Medium', className: 'bg-yellow-500/20 text-yellow-300' },
+  low: { label: 'Low', className: 'bg-slate-500/30 text-gray-300' },
+};
+
+interface SecurityFindingsProps {
+  findings: Finding[];
+  // Open the fix for review
+  onFix: (finding: Finding) => Promise<void>;
+}
+
+export default function SecurityFindings({ findings, onFix }: SecurityFindingsProps) {
+  const [fixing, setFixing] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFix = async (finding: Finding) => {
+    setFixing(finding.id);
+    setError(null);
+    try {
+      await onFix(finding);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to prepare the fix');
+    } finally {
+      setFixing(null);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {findings.map((finding) => {
+        const severity = SEVERITY_STYLES[finding.severity];
+        return (
+          <div key={finding.id} className="rounded border border-white/10 bg-white/5 p-2">
+            <div className="flex items-center gap-2">
+              <span className={`px-1.5 rounded text-xs ${severity.className}`}>{severity.label}</span>
+              <span className="text-sm text-white">{finding.title}</span>
+            </div>
+            <p className="text-xs text-gray-300 mt-1">{finding.message}</p>
+            <p className="text-xs text-gray-500 font-mono mt-1">
+              {finding.path}
+              {finding.line ? `:${finding.line}` : ''}
+            </p>
+            {finding.fix && (
+              <button
+                onClick={() => handleFix(finding)}
+                disabled={fixing !== null}
+                className="mt-2 px-2 py-1 rounded text-xs bg-blue-500/20 text-blue-300 hover:bg-blue-500/30 disabled:opacity-50"
+              >
+                {fixing === finding.id ? 'Preparing...' : `Fix: ${finding.fix}`}
+              </button>
+            )}
+          </div>
+        );
+      })}
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,279 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import type { ComposeService } from '@/lib/compose';
+import {
+  EMPTY_HEALTHCHECK,
+  HealthcheckForm,
+  RESTART_POLICIES,
+  ServiceForm,
+  ServiceFormErrors,
+  changedFields,
+  serviceForm,
+  validateServiceForm,
+} from '@/lib/composeForm';
+
+interface ServiceConfigEditorProps {
+  service: ComposeService;
+  // Build the file change for the edited form and open it for review
+  onReview: (before: ServiceForm, after: ServiceForm) => Promise<void>;
+}
+
+function FieldError({ errors, field }: { errors: ServiceFormErrors; field: string }) {
+  return errors[field] ? <p className="text-xs text-red-400 mt-1">{errors[field]}</p> : null;
+}
+
+interface ListFieldProps {
+  label: string;
+  name: string;
+  values: string[];
+  placeholder: string;
+  errors: ServiceFormErrors;
+  onChange: (values: string[]) => void;
+}
+
+function ListField({ label, name, values, placeholder, errors, onChange }: ListFieldProps) {
+  return (
+    <div>
+      <div className="flex items-center justify-between">
+        <label className="text-sm text-gray-400">{label}</label>
+        <button onClick={() => onChange([...values, ''])} className="text-xs text-blue-400 hover:text-blue-300">
+          + Add
+        </button>
+      </div>
+      {values.map((value, index) => (
+        <div key={index} className="mt-1">
+          <div className="flex gap-1">
+            <input
+              value={value}
+              onChange={(e) => onChange(values.map((other, i) => (i === index ? e.target.value : other)))}
+              placeholder={placeholder}
+              className="input-field flex-1 min-w-0 text-sm font-mono"
+            />
+            <button
+              onClick={() => onChange(values.filter((_, i) => i !== index))}
+              className="px-2 text-gray-400 hover:text-red-400"
+              title="Remove"
+            >
+              ✕
+            </button>
+          </div>
+          <FieldError errors={errors} field={`${name}.${index}`} />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function ServiceConfigEditor({ service, onReview }: ServiceConfigEditorProps) {
+  const initial = useMemo(() => serviceForm(service), [service]);
+  const [form, setForm] = useState<ServiceForm>(initial);
+  const [reviewing, setReviewing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const errors = useMemo(() => validateServiceForm(form), [form]);
+  const dirty = changedFields(initial, form).length > 0;
+  const valid = Object.keys(errors).length === 0;
+
+  const update = (changes: Partial<ServiceForm>) => setForm((prev) => ({ ...prev, ...changes }));
+  const updateHealthcheck = (changes: Partial<HealthcheckForm>) =>
+    setForm((prev) => ({ ...prev, healthcheck: prev.healthcheck && { ...prev.healthcheck, ...changes } }));
+
+  const handleReview = async () => {
+    setReviewing(true);
+    setError(null);
+    try {
+      await onReview(initial, form);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to prepare the file change');
+    } finally {
+      setReviewing(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="text-sm text-gray-400">Image</label>
+        <div className="flex gap-1 mt-1">
+          <input
+            value={form.image}
+            onChange={(e) => update({ image: e.target.value })}
+            placeholder={form.hasBuild ? 'Built from source' : 'nginx'}
+            className="input-field flex-1 min-w-0 text-sm font-mono"
+          />
+          <input
+            value={form.tag}
+            onChange={(e) => update({ tag: e.target.value })}
+            placeholder="latest"
+            className="input-field w-24 text-sm font-mono"
+          />
+        </div>
+        <FieldError errors={errors} field="image" />
+        <FieldError errors={errors} field="tag" />
+      </div>
+
+      <ListField
+        label="Ports"
+        name="ports"
+        values={form.ports}
+        placeholder="8080:80"
+        errors={errors}
+        onChange={(ports) => update({ ports })}
+      />
+
+      <div>
+        <div className="flex items-center justify-between">
+          <label className="text-sm text-gray-400">Environment</label>
+          <button
+            onClick={() => update({ environment: [...form.environment, { name: '', value: '' }] })}
+            className="text-xs text-blue-400 hover:text-blue-300"
+          >
+            + Add
+          </button>
+        </div>
+        {form.environment.map((entry, index) => (
+          <div key={index} className="mt-1">
+            <div className="flex gap-1">
+              <input
+                value={entry.name}
+                onChange={(e) =>
+                  update({
+                    environment: form.environment.map((other, i) => (i === index ? { ...other, name: e.target.value } : other)),
+                  })
+                }
+                placeholder="NAME"
+                className="input-field w-28 text-sm font-mono"
+              />
+              <input
+                value={entry.value}
+                onChange={(e) =>
+                  update({
+                    environment: form.environment.map((other, i) => (i === index ? { ...other, value: e.target.value } : other)),
+                  })
+                }
+                placeholder="value"
+                className="input-field flex-1 min-w-0 text-sm font-mono"
+              />
+              <button
+                onClick={() => update({ environment: form.environment.filter((_, i) => i !== index) })}
+                className="px-2 text-gray-400 hover:text-red-400"
+                title="Remove"
+              >
+                ✕
+              </button>
+            </div>
+            <FieldError errors={errors} field={`environment.${index}`} />
+          </div>
+        ))}
+      </div>
+
+      <ListField
+        label="Volumes"
+        name="volumes"
+        values={form.volumes}
+        placeholder="data:/var/lib/data"
+        errors={errors}
+        onChange={(volumes) => update({ volumes })}
+      />
+
+      <div>
+        <label className="flex items-center gap-2 text-sm text-gray-400">
+          <input
+            type="checkbox"
+            checked={form.healthcheck !== null}
+            onChange={(e) => update({ healthcheck: e.target.checked ? initial.healthcheck ?? EMPTY_HEALTHCHECK : null })}
+          />
+          Healthcheck
+        </label>
+        {form.healthcheck && (
+          <div className="mt-2 space-y-2">
+            <input
+              value={form.healthcheck.test}
+              onChange={(e) => updateHealthcheck({ test: e.target.value })}
+              placeholder="curl -f http://localhost/health"
+              className="input-field w-full text-sm font-mono"
+            />
+            <FieldError errors={errors} field="healthcheck.test" />
+            <div className="grid grid-cols-2 gap-2">
+              {(['interval', 'timeout', 'start_period', 'retries'] as const).map((key) => (
+                <div key={key}>
+                  <label className="text-xs text-gray-500">{key.replace('_', ' ')}</label>
+                  <input
+                    value={form.healthcheck?.[key] ?? ''}
+                    onChange={(e) => updateHealthcheck({ [key]: e.target.value })}
+                    className="input-field w-full text-sm font-mono"
+                  />
+                  <FieldError errors={errors} field={`healthcheck.${key}`} />
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div>
+        <label className="text-sm text-gray-400">Resource limits</label>
+        <div className="grid grid-cols-2 gap-2 mt-1">
+          <div>
+            <input
+              value={form.cpus}
+              onChange={(e) => update({ cpus: e.target.value })}
+              placeholder="CPUs, e.g. 0.5"
+              className="input-field w-full text-sm font-mono"
+            />
+            <FieldError errors={errors} field="cpus" />
+          </div>
+          <div>
+            <input
+              value={form.memory}
+              onChange={(e) => update({ memory: e.target.value })}
+              placeholder="Memory, e.g. 512m"
+              className="input-field w-full text-sm font-mono"
+            />
+            <FieldError errors={errors} field="memory" />
+          </div>
+        </div>
+      </div>
+
+      <div>
+        <label className="text-sm text-gray-400">Restart policy</label>
+        <select
+          value={form.restart}
+          onChange={(e) => update({ restart: e.target.value })}
+          className="input-field w-full text-sm mt-1"
+        >
+          <option value="">Not set</option>
+          {/* Keep values such as `on-failure:3` that are not in the list */}
+          {[...RESTART_POLICIES, ...(form.restart && !RESTART_POLICIES.includes(form.restart) ? [form.restart] : [])].map(
+            (policy) => (
+              <option key={policy} value={policy}>
+                {policy}
+              </option>
+            )
+          )}
+        </select>
+        <FieldError errors={errors} field="restart" />
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => setForm(initial)}
+          disabled={!dirty || reviewing}
+          className="btn-secondary flex-1 px-4 py-2 disabled:opacity-50"
+        >
+          Reset
+        </button>
+        <button
+          onClick={handleReview}
+          disabled={!dirty || !valid || reviewing}
+          className="btn-primary flex-1 px-4 py-2 disabled:opacity-50"
+        >
+          {reviewing ? 'Preparing...' : 'Review changes'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+// Build an infrastructure graph client-side from a repository analysis
+
+import type { RepoAnalysis } from './github';
+import { parseComposeGraph } from './compose';
+import { parseTerraform, terraformToGraph } from './terraform';
+import { parseKubernetesGraph } from './kubernetes';
+import { mergeGraphs, InfraGraph } from './graph';
+
+export function buildGraphFromAnalysis(analysis: RepoAnalysis): InfraGraph {
+  let graph: InfraGraph = { nodes: [], edges: [] };
+
+  // Primary compose file first. Its nodes keep bare IDs; the other files' IDs are
+  // prefixed with their path, so same-named services in subprojects stay apart.
+  const composeFiles = analysis.dockerComposeFile
+    ? [analysis.dockerComposeFile, ...analysis.dockerComposeFiles.filter((file) => file.path !== analysis.dockerComposeFile?.path)]
+    : analysis.dockerComposeFiles;
+
+  for (const [index, file] of composeFiles.entries()) {
+    if (!file.content) continue;
+    try {
+      const idPrefix = index > 0 ? `${file.path}:` : '';
+      graph = mergeGraphs(graph, parseComposeGraph(file.content, { sourcePath: file.path, idPrefix }));
+    } catch (error) {
+      console.error(`Failed to parse ${file.path}:`, error);
+    }
+  }
+
+  // Each directory of .tf files is its own Terraform module
+  const terraformDirs = new Map<string, Array<{ path: string; content: string }>>();
+  for (const file of analysis.terraformFiles) {
+    if (file.content === undefined) continue;
+    const dir = file.path.includes('/') ? file.path.slice(0, file.path.lastIndexOf('/')) : '';
+    terraformDirs.set(dir, [...(terraformDirs.get(dir) ?? []), { path: file.path, content: file.content }]);
+  }
+
+  // A file that fails to parse only leaves out its own blocks
+  for (const [dir, files] of terraformDirs) {
+    const config = parseTerraform(files);
+    for (const error of config.errors) {
+      console.error(`Failed to parse ${error.file}:`, error.message);
+    }
+    const idPrefix = terraformDirs.size > 1 && dir ? `${dir}:` : '';
+    graph = mergeGraphs(graph, terraformToGraph(config, { idPrefix }));
+  }
+
+  const manifests = analysis.kubernetesFiles
+    .filter((file) => file.content !== undefined)
+    .map((file) => ({ path: file.path, content: file.content as string }));
+  if (manifests.length > 0) {
+    try {
+      graph = mergeGraphs(graph, parseKubernetesGraph(manifests));
+    } catch (error) {
+      console.error('Failed to parse Kubernetes manifests:', error);
+    }
+  }
+
+  return graph;
+}
@@ -0,0 +1,93 @@
+// Proposed file changes and change sets
+
+import type { PullRequestOptions } from './github';
+
+export type FileChangeStatus = 'added' | 'modified' | 'deleted';
+
+export interface FileChange {
+  path: string;
+  oldContent: string;
+  newContent: string;
+  description: string;
+  status?: FileChangeStatus;
+}
+
+// A group of file changes that is reviewed and committed together
+export interface ChangeSet {
+  description: string;
+  files: FileChange[];
+}
+
+// Where and how the reviewed files should be committed
+export interface CommitOptions {
+  // Branch to commit to, or the base of the new branch / pull request
+  branch: string;
+  newBranchName?: string;
+  files: FileChange[];
+  pullRequest?: PullRequestOptions;
+}
+
+export function getChangeStatus(change: FileChange): FileChangeStatus {
+  if (change.status) return change.status;
+  if (!change.oldContent && change.newContent) return 'added';
+  return 'modified';
+}
+
+// Accept both the `file_changes` list and the older single `file_change` field of
+// a chat response
+export function changeSetFromResponse(data: {
+  file_changes?: FileChange[];
+  file_change?: FileChange;
+  change_description?: string;
+}): ChangeSet | null {
+  const files = data.file_changes ?? (data.file_change ? [data.file_change] : []);
+  if (files.length === 0) return null;
+
+  const normalized = files.map((file) => ({
+    ...file,
+    oldContent: file.oldContent ?? '',
+    newContent: file.newContent ?? '',
+    description: file.description ?? '',
+  }));
+
+  return {
+    description: data.change_description ?? (normalized.length === 1 ? normalized[0].description : `Update ${normalized.length} files`),
+    files: normalized,
+  };
+}
+
+export function changeSetFromFile(change: FileChange): ChangeSet {
+  return { description: change.description, files: [change] };
+}
+
+// Commit message with the change set summary on the first line and one line per file
+// `coAuthor` is a Co-authored-by trailer, for commits made as the GitHub App
+// on the user's behalf; trailers have to be the last paragraph
+export function buildCommitMessage(changeSet: ChangeSet, files: FileChange[] = changeSet.files, coAuthor?: string | null): string {
+  const summary = files.length === 1 ? `Update ${files[0].path}: ${changeSet.description}` : changeSet.description;
+  const details = files.length > 1
+    ? `\n\n${files.map((file) => `- ${getChangeStatus(file)} ${file.path}${file.description ? `: ${file.description}` : ''}`).join('\n')}`
+    : '';
+
+  return `${summary}${details}
+
+🤖 Generated with Terra
+https://github.com/terraform-on-cloud/terra${coAuthor ? `\n\n${coAuthor}` : ''}`;
+}
+
+// Default pull request description: the change set summary, its files and the
+// chat request that produced it
+export function buildPullRequestBody(changeSet: ChangeSet, chatContext?: string): string {
+  const files = changeSet.files
+    .map((file) => `- \`${file.path}\` (${getChangeStatus(file)})${file.description ? `: ${file.description}` : ''}`)
+    .join('\n');
+  const context = chatContext ? `\n\n### Requested in chat\n\n> ${chatContext.split('\n').join('\n> ')}` : '';
+
+  return `${changeSet.description}
+
+### Files
+
+${files}${context}
+
+🤖 Generated with Terra`;
+}
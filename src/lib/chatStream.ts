@@ -0,0 +1,387 @@
+// Streaming chat transport
+//
+// Replies are streamed over the configured WebSocket (NEXT_PUBLIC_WS_URL). When
+// no WebSocket connection can be made we fall back to Server-Sent Events over a
+// POST request, and finally to the blocking /api/chat endpoint. All transports
+// emit the same typed events.
+
+import type { Edge } from '@xyflow/react';
+import type { FileChange } from './changes';
+import type { InfraNode } from './graph';
+import type { GraphPatchOperation } from './graphPatch';
+
+export interface ChatRequest {
+  project_id: string;
+  message: string;
+  context: unknown;
+}
+
+// Proposed graph changes. `nodes` and `edges` are additions from older backends;
+// see graphPatch.ts for the operation format.
+export interface GraphChanges {
+  description?: string;
+  operations?: GraphPatchOperation[];
+  nodes?: InfraNode[];
+  edges?: Edge[];
+}
+
+export type ChatStreamEvent =
+  | { type: 'token'; text: string }
+  | { type: 'changes'; changes: GraphChanges }
+  | { type: 'file_changes'; files: FileChange[]; description?: string }
+  | { type: 'done' }
+  | { type: 'cancelled' }
+  | { type: 'error'; message: string };
+
+export interface ChatStream {
+  cancel: () => void;
+  // Settles once the reply is complete, cancelled or failed
+  done: Promise<void>;
+}
+
+type Emit = (event: ChatStreamEvent) => void;
+
+// Raw event as sent by the backend, on any transport
+interface WireEvent {
+  type: string;
+  request_id?: string;
+  seq?: number;
+  text?: string;
+  response?: string;
+  changes?: GraphChanges;
+  file_change?: FileChange;
+  file_changes?: FileChange[];
+  change_description?: string;
+  message?: string;
+}
+
+// Decode an event payload; anything but a JSON object is ignored
+function parseWireEvent(data: string): Partial<WireEvent> | null {
+  try {
+    const value: unknown = JSON.parse(data);
+    return typeof value === 'object' && value !== null && !Array.isArray(value) ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+const MAX_RECONNECT_ATTEMPTS = 5;
+
+function reconnectDelay(attempt: number): number {
+  return Math.min(500 * 2 ** attempt, 8000);
+}
+
+// Translate a wire event into a typed event. Returns true when the stream is finished.
+function dispatch(event: WireEvent, emit: Emit): boolean {
+  switch (event.type) {
+    case 'token':
+      if (event.text) emit({ type: 'token', text: event.text });
+      return false;
+    case 'changes':
+      if (event.changes) emit({ type: 'changes', changes: event.changes });
+      return false;
+    case 'file_change':
+    case 'file_changes': {
+      const files = event.file_changes ?? (event.file_change ? [event.file_change] : []);
+      if (files.length > 0) emit({ type: 'file_changes', files, description: event.change_description });
+      return false;
+    }
+    case 'done':
+      emit({ type: 'done' });
+      return true;
+    case 'cancelled':
+      emit({ type: 'cancelled' });
+      return true;
+    case 'error':
+      emit({ type: 'error', message: event.message || 'Chat request failed' });
+      return true;
+    default:
+      return false;
+  }
+}
+
+function createRequestId(): string {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+}
+
+// Stream a chat reply, picking the best available transport
+export function streamChat(request: ChatRequest, emit: Emit): ChatStream {
+  const requestId = createRequestId();
+  const wsUrl = process.env.NEXT_PUBLIC_WS_URL;
+
+  let current: ChatStream | null = null;
+  let cancelled = false;
+  let finish: () => void = () => {};
+  const done = new Promise<void>((resolve) => {
+    finish = resolve;
+  });
+
+  // A transport that hands over to a fallback settles early; only the
+  // transport that is still current settles the outer stream
+  const run = (stream: ChatStream) => {
+    current = stream;
+    stream.done.finally(() => {
+      if (current === stream) finish();
+    });
+  };
+
+  const fallbackToSse = () => {
+    if (cancelled) return finish();
+    run(streamOverSse(requestId, request, emit, () => run(requestBlocking(request, emit))));
+  };
+
+  if (wsUrl && typeof WebSocket !== 'undefined') {
+    run(streamOverWebSocket(`${wsUrl}/api/chat/ws`, requestId, request, emit, fallbackToSse));
+  } else {
+    fallbackToSse();
+  }
+
+  return {
+    cancel: () => {
+      cancelled = true;
+      current?.cancel();
+    },
+    done,
+  };
+}
+
+function streamOverWebSocket(
+  url: string,
+  requestId: string,
+  request: ChatRequest,
+  emit: Emit,
+  onUnavailable: () => void
+): ChatStream {
+  let socket: WebSocket | null = null;
+  let everOpened = false;
+  let finished = false;
+  let lastSeq = 0;
+  let attempts = 0;
+  let finish: () => void = () => {};
+  const done = new Promise<void>((resolve) => {
+    finish = resolve;
+  });
+
+  const end = () => {
+    finished = true;
+    socket?.close();
+    finish();
+  };
+
+  const connect = (resume: boolean) => {
+    socket = new WebSocket(url);
+
+    socket.onopen = () => {
+      everOpened = true;
+      attempts = 0;
+      socket?.send(JSON.stringify(
+        resume
+          ? { type: 'resume', request_id: requestId, last_seq: lastSeq }
+          : { type: 'chat', request_id: requestId, ...request }
+      ));
+    };
+
+    socket.onmessage = (message) => {
+      const payload = typeof message.data === 'string' ? parseWireEvent(message.data) : null;
+      if (!payload || typeof payload.type !== 'string') return;
+      const event = payload as WireEvent;
+      if (event.request_id && event.request_id !== requestId) return;
+
+      // Events replayed after a resume that we already handled
+      if (event.seq !== undefined) {
+        if (event.seq <= lastSeq) return;
+        lastSeq = event.seq;
+      }
+
+      if (dispatch(event, emit)) end();
+    };
+
+    socket.onclose = () => {
+      if (finished) return;
+
+      if (!everOpened) {
+        // The WebSocket endpoint is not reachable at all; let the caller try another transport
+        finished = true;
+        finish();
+        onUnavailable();
+        return;
+      }
+
+      if (attempts >= MAX_RECONNECT_ATTEMPTS) {
+        emit({ type: 'error', message: 'Lost connection to the chat server' });
+        end();
+        return;
+      }
+
+      setTimeout(() => {
+        if (!finished) connect(true);
+      }, reconnectDelay(attempts++));
+    };
+  };
+
+  connect(false);
+
+  return {
+    cancel: () => {
+      if (finished) return;
+      if (socket?.readyState === WebSocket.OPEN) {
+        socket.send(JSON.stringify({ type: 'cancel', request_id: requestId }));
+      }
+      emit({ type: 'cancelled' });
+      end();
+    },
+    done,
+  };
+}
+
+// Parse one `text/event-stream` frame into its id and data
+function parseSseFrame(frame: string): { id?: string; event?: string; data: string } {
+  let id: string | undefined;
+  let event: string | undefined;
+  const data: string[] = [];
+
+  for (const line of frame.split('\n')) {
+    if (line.startsWith(':')) continue;
+    const separator = line.indexOf(':');
+    const field = separator === -1 ? line : line.slice(0, separator);
+    const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+
+    if (field === 'id') id = value;
+    else if (field === 'event') event = value;
+    else if (field === 'data') data.push(value);
+  }
+
+  return { id, event, data: data.join('\n') };
+}
+
+// EventSource cannot POST, so read the event stream from fetch directly. Any
+// failure before the first frame (no endpoint, network or CORS error, server
+// error) means streaming is unavailable and hands over to `onUnavailable`.
+function streamOverSse(requestId: string, request: ChatRequest, emit: Emit, onUnavailable: () => void): ChatStream {
+  const controller = new AbortController();
+  let finished = false;
+  let lastEventId: string | undefined;
+  let attempts = 0;
+  let streaming = false;
+
+  const read = async (): Promise<void> => {
+    const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/chat/stream`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'text/event-stream',
+        ...(lastEventId ? { 'Last-Event-ID': lastEventId } : {}),
+      },
+      body: JSON.stringify({ request_id: requestId, ...request }),
+      signal: controller.signal,
+    });
+
+    if (!response.ok || !response.body) throw new Error('Chat request failed');
+
+    attempts = 0;
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+      let boundary: number;
+      while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+        const frame = parseSseFrame(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        streaming = true;
+        if (frame.id) lastEventId = frame.id;
+        if (!frame.data) continue;
+
+        const payload = parseWireEvent(frame.data);
+        if (!payload) continue;
+        const event: WireEvent = { type: frame.event ?? 'token', ...payload };
+        if (dispatch(event, emit)) {
+          finished = true;
+          controller.abort();
+          return;
+        }
+      }
+    }
+
+    if (!finished) throw new Error('Stream ended unexpectedly');
+  };
+
+  const run = async () => {
+    while (!finished) {
+      try {
+        await read();
+        return;
+      } catch (err) {
+        if (finished || controller.signal.aborted) return;
+        if (!streaming) {
+          finished = true;
+          onUnavailable();
+          return;
+        }
+        if (attempts >= MAX_RECONNECT_ATTEMPTS) {
+          emit({ type: 'error', message: err instanceof Error ? err.message : 'Chat request failed' });
+          return;
+        }
+        // Resume from the last event we saw
+        await new Promise((resolve) => setTimeout(resolve, reconnectDelay(attempts++)));
+      }
+    }
+  };
+
+  return {
+    cancel: () => {
+      if (finished) return;
+      finished = true;
+      controller.abort();
+      emit({ type: 'cancelled' });
+    },
+    done: run(),
+  };
+}
+
+// Last resort for backends without a streaming endpoint
+function requestBlocking(request: ChatRequest, emit: Emit): ChatStream {
+  const controller = new AbortController();
+  let finished = false;
+
+  const run = async () => {
+    try {
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/chat`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) throw new Error('Chat request failed');
+      const data = await response.json();
+
+      dispatch({ type: 'token', text: data.response }, emit);
+      dispatch({ type: 'changes', changes: data.changes }, emit);
+      dispatch({ ...data, type: 'file_changes' }, emit);
+      dispatch({ type: 'done' }, emit);
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        emit({ type: 'error', message: err instanceof Error ? err.message : 'Chat request failed' });
+      }
+    } finally {
+      finished = true;
+    }
+  };
+
+  return {
+    cancel: () => {
+      if (finished) return;
+      finished = true;
+      controller.abort();
+      emit({ type: 'cancelled' });
+    },
+    done: run(),
+  };
+}
@@ -0,0 +1,97 @@
+// Persistent chat threads, stored per project by the backend
+
+import type { ChangeSet } from './changes';
+
+export interface ChatThread {
+  id: string;
+  project_id: string;
+  title: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// Commit produced from a change set proposed in the thread
+export interface ChatCommitRef {
+  sha: string;
+  url: string;
+  branch: string;
+}
+
+export interface ChatPullRequestRef {
+  number: number;
+  url: string;
+}
+
+export interface ChatMessage {
+  id?: string;
+  role: string;
+  content: string;
+  created_at?: string;
+  change_set?: ChangeSet;
+  commit?: ChatCommitRef;
+  pull_request?: ChatPullRequestRef;
+  // Set while the reply is still being streamed; never persisted
+  streaming?: boolean;
+}
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL;
+
+async function threadsApi(path: string, options: RequestInit = {}) {
+  const response = await fetch(`${API_URL}${path}`, {
+    ...options,
+    headers: { 'Content-Type': 'application/json', ...options.headers },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Chat history request failed: ${response.statusText}`);
+  }
+
+  return response.status === 204 ? null : response.json();
+}
+
+// Most recently updated first. `query` matches thread titles and message content.
+export async function listThreads(projectId: string, query?: string): Promise<ChatThread[]> {
+  const search = query ? `?q=${encodeURIComponent(query)}` : '';
+  return threadsApi(`/api/projects/${projectId}/threads${search}`);
+}
+
+export async function createThread(projectId: string, title: string): Promise<ChatThread> {
+  return threadsApi(`/api/projects/${projectId}/threads`, {
+    method: 'POST',
+    body: JSON.stringify({ title }),
+  });
+}
+
+export async function renameThread(projectId: string, threadId: string, title: string): Promise<ChatThread> {
+  return threadsApi(`/api/projects/${projectId}/threads/${threadId}`, {
+    method: 'PATCH',
+    body: JSON.stringify({ title }),
+  });
+}
+
+export async function deleteThread(projectId: string, threadId: string): Promise<void> {
+  await threadsApi(`/api/projects/${projectId}/threads/${threadId}`, { method: 'DELETE' });
+}
+
+export async function getThreadMessages(projectId: string, threadId: string): Promise<ChatMessage[]> {
+  return threadsApi(`/api/projects/${projectId}/threads/${threadId}/messages`);
+}
+
+export async function appendThreadMessages(
+  projectId: string,
+  threadId: string,
+  messages: ChatMessage[]
+): Promise<ChatMessage[]> {
+  return threadsApi(`/api/projects/${projectId}/threads/${threadId}/messages`, {
+    method: 'POST',
+    body: JSON.stringify({
+      messages: messages.map((message) => ({ ...message, streaming: undefined })),
+    }),
+  });
+}
+
+// Thread title from the first message of a conversation
+export function threadTitleFrom(message: string): string {
+  const title = message.trim().replace(/\s+/g, ' ');
+  return title.length > 60 ? `${title.slice(0, 57)}...` : title;
+}
@@ -0,0 +1,336 @@
+// docker-compose model, parser and graph builder
+
+import { parse } from 'yaml';
+import { createGraphBuilder, InfraGraph, NodeKind } from './graph';
+
+export interface ComposePortConfig {
+  target: number | string;
+  published?: number | string;
+  protocol?: string;
+  host_ip?: string;
+}
+
+export interface ComposeVolumeConfig {
+  type?: 'volume' | 'bind' | 'tmpfs' | 'npipe';
+  source?: string;
+  target: string;
+  read_only?: boolean;
+}
+
+export interface ComposeHealthcheck {
+  test?: string | string[];
+  interval?: string;
+  timeout?: string;
+  retries?: number;
+  start_period?: string;
+  disable?: boolean;
+}
+
+export interface ComposeBuildConfig {
+  context?: string;
+  dockerfile?: string;
+  args?: Record<string, string> | string[];
+  target?: string;
+}
+
+export interface ComposeService {
+  image?: string;
+  build?: string | ComposeBuildConfig;
+  container_name?: string;
+  command?: string | string[];
+  entrypoint?: string | string[];
+  ports?: Array<string | number | ComposePortConfig>;
+  expose?: Array<string | number>;
+  environment?: Record<string, string | number | boolean | null> | string[];
+  env_file?: string | string[];
+  depends_on?: string[] | Record<string, { condition?: string; restart?: boolean }>;
+  links?: string[];
+  networks?: string[] | Record<string, { aliases?: string[] } | null>;
+  volumes?: Array<string | ComposeVolumeConfig>;
+  healthcheck?: ComposeHealthcheck;
+  restart?: string;
+  user?: string;
+  deploy?: {
+    replicas?: number;
+    resources?: {
+      limits?: { cpus?: string | number; memory?: string };
+      reservations?: { cpus?: string | number; memory?: string };
+    };
+    restart_policy?: { condition?: string };
+  };
+  [key: string]: unknown;
+}
+
+export interface ComposeNetwork {
+  driver?: string;
+  external?: boolean;
+  name?: string;
+  [key: string]: unknown;
+}
+
+export interface ComposeVolume {
+  driver?: string;
+  external?: boolean;
+  name?: string;
+  [key: string]: unknown;
+}
+
+export interface ComposeFile {
+  version?: string;
+  name?: string;
+  services: Record<string, ComposeService>;
+  networks?: Record<string, ComposeNetwork | null>;
+  volumes?: Record<string, ComposeVolume | null>;
+}
+
+export interface ComposePort {
+  target: string;
+  published?: string;
+  protocol?: string;
+}
+
+export interface ComposeMount {
+  type: 'volume' | 'bind' | 'tmpfs' | 'npipe';
+  source?: string;
+  target: string;
+  readOnly: boolean;
+}
+
+// Parse a docker-compose file into a typed model
+export function parseCompose(content: string): ComposeFile {
+  let data: unknown;
+  try {
+    data = parse(content);
+  } catch (error) {
+    throw new Error(`Invalid docker-compose file: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error('Invalid docker-compose file: expected a mapping at the top level');
+  }
+
+  const compose = data as Partial<ComposeFile>;
+  const services: Record<string, ComposeService> = {};
+  for (const [name, service] of Object.entries(compose.services ?? {})) {
+    services[name] = service ?? {};
+  }
+
+  return { ...compose, services };
+}
+
+export function getDependsOn(service: ComposeService): string[] {
+  if (!service.depends_on) return [];
+  return Array.isArray(service.depends_on) ? service.depends_on : Object.keys(service.depends_on);
+}
+
+// `links` entries are `service` or `service:alias`
+export function getLinks(service: ComposeService): string[] {
+  return (service.links ?? []).map((link) => link.split(':')[0]);
+}
+
+export function getNetworks(service: ComposeService): string[] {
+  if (!service.networks) return [];
+  return Array.isArray(service.networks) ? service.networks : Object.keys(service.networks);
+}
+
+// Environment as a map, from either the map or the `KEY=value` list syntax.
+// Variables listed without a value map to an empty string.
+export function getEnvironment(service: ComposeService): Record<string, string> {
+  if (!service.environment) return {};
+  if (!Array.isArray(service.environment)) {
+    return Object.fromEntries(
+      Object.entries(service.environment).map(([key, value]) => [key, value === null ? '' : String(value)])
+    );
+  }
+  return Object.fromEntries(
+    service.environment.map((entry) => {
+      const separator = entry.indexOf('=');
+      return separator === -1 ? [entry, ''] : [entry.slice(0, separator), entry.slice(separator + 1)];
+    })
+  );
+}
+
+// Short syntax: `[HOST_IP:][PUBLISHED:]TARGET[/PROTOCOL]`
+export function getPorts(service: ComposeService): ComposePort[] {
+  return (service.ports ?? []).map((port) => {
+    if (typeof port === 'object') {
+      return {
+        target: String(port.target),
+        published: port.published !== undefined ? String(port.published) : undefined,
+        protocol: port.protocol,
+      };
+    }
+
+    const [mapping, protocol] = String(port).split('/');
+    const parts = mapping.split(':');
+    const target = parts[parts.length - 1];
+    const published = parts.length > 1 ? parts[parts.length - 2] : undefined;
+    return { target, published, protocol };
+  });
+}
+
+// Short syntax: `[SOURCE:]TARGET[:MODE]`. Sources that look like paths are bind mounts.
+export function getMounts(service: ComposeService): ComposeMount[] {
+  return (service.volumes ?? []).map((volume) => {
+    if (typeof volume === 'object') {
+      return {
+        type: volume.type ?? 'volume',
+        source: volume.source,
+        target: volume.target,
+        readOnly: Boolean(volume.read_only),
+      };
+    }
+
+    const parts = volume.split(':');
+    if (parts.length === 1) {
+      return { type: 'volume', target: parts[0], readOnly: false };
+    }
+
+    const [source, target, mode] = parts;
+    const isPath = /^[./~]/.test(source) || source.includes('/');
+    return {
+      type: isPath ? 'bind' : 'volume',
+      source,
+      target,
+      readOnly: mode?.split(',').includes('ro') ?? false,
+    };
+  });
+}
+
+const DATABASE_IMAGES = [
+  'postgres', 'postgis', 'postgresql', 'timescaledb', 'mysql', 'mariadb', 'mongo', 'mongodb',
+  'cassandra', 'scylla', 'couchdb', 'cockroach', 'elasticsearch', 'opensearch', 'clickhouse',
+  'neo4j', 'influxdb', 'mssql', 'oracle', 'dynamodb-local',
+];
+
+const STORAGE_IMAGES = ['minio', 'localstack', 'azurite', 'fake-gcs-server', 'seaweedfs', 'ceph', 's3mock'];
+
+const CACHE_IMAGES = ['redis', 'valkey', 'keydb', 'memcached', 'dragonfly', 'varnish'];
+
+const QUEUE_IMAGES = ['rabbitmq', 'kafka', 'cp-kafka', 'redpanda', 'nats', 'activemq', 'artemis', 'pulsar', 'elasticmq'];
+
+const PROXY_IMAGES = ['nginx', 'traefik', 'haproxy', 'caddy', 'envoy', 'kong'];
+
+// `registry.example.com:5000/bitnami/postgresql:15@sha256:...` -> `postgresql`
+export function getImageName(image: string): string {
+  const withoutDigest = image.split('@')[0];
+  const lastSegment = withoutDigest.split('/').pop() || withoutDigest;
+  return lastSegment.split(':')[0].toLowerCase();
+}
+
+export function inferNodeKind(image?: string): NodeKind {
+  if (!image) return 'service';
+
+  const name = getImageName(image);
+  // Admin UIs and exporters (mongo-express, redis-commander, ...) are plain services
+  if (/-(express|commander|exporter|admin|ui)$/.test(name)) return 'service';
+
+  const matches = (candidates: string[]) =>
+    candidates.some((candidate) => name === candidate || name.startsWith(`${candidate}-`));
+
+  if (matches(STORAGE_IMAGES)) return 'storage';
+  if (matches(CACHE_IMAGES)) return 'cache';
+  if (matches(QUEUE_IMAGES)) return 'queue';
+  if (matches(DATABASE_IMAGES)) return 'database';
+  if (matches(PROXY_IMAGES)) return 'loadbalancer';
+  return 'service';
+}
+
+function describeService(service: ComposeService): string | undefined {
+  const parts: string[] = [];
+
+  if (service.image) {
+    parts.push(service.image);
+  } else if (service.build) {
+    const context = typeof service.build === 'string' ? service.build : service.build.context ?? '.';
+    parts.push(`build: ${context}`);
+  }
+
+  const ports = getPorts(service)
+    .map((port) => (port.published ? `${port.published}:${port.target}` : port.target))
+    .join(', ');
+  if (ports) parts.push(`ports ${ports}`);
+
+  return parts.length > 0 ? parts.join(' • ') : undefined;
+}
+
+export interface ComposeGraphOptions {
+  // Repository path of the compose file, recorded on each node
+  sourcePath?: string;
+  // Prepended to node IDs, so services of several compose files don't collide
+  idPrefix?: string;
+}
+
+// Turn a compose model into graph nodes and edges. Services become nodes typed by
+// their image, named volumes become storage nodes, networks become network nodes,
+// and depends_on, links, volume mounts and network membership become edges
+// pointing from the consumer to the thing it uses.
+export function composeToGraph(compose: ComposeFile, options: ComposeGraphOptions = {}): InfraGraph {
+  const builder = createGraphBuilder();
+  const prefix = options.idPrefix ?? '';
+  const serviceId = (name: string) => `${prefix}${name}`;
+  const volumeId = (name: string) => `${prefix}volume:${name}`;
+  const networkId = (name: string) => `${prefix}network:${name}`;
+
+  for (const [name, service] of Object.entries(compose.services)) {
+    builder.addNode(serviceId(name), inferNodeKind(service.image), {
+      label: service.container_name ?? name,
+      details: describeService(service),
+      serviceName: name,
+      dockerComposeConfig: service,
+      sourcePath: options.sourcePath,
+    });
+  }
+
+  for (const [name, config] of Object.entries(compose.volumes ?? {})) {
+    builder.addNode(volumeId(name), 'storage', {
+      label: name,
+      details: config?.external ? 'external volume' : `volume${config?.driver ? ` (${config.driver})` : ''}`,
+      volumeName: name,
+      sourcePath: options.sourcePath,
+    });
+  }
+
+  // Declared networks, and ones services join without declaring them. The
+  // implicit `default` network only shows up when it is configured.
+  const networks = new Set(Object.keys(compose.networks ?? {}));
+  for (const service of Object.values(compose.services)) {
+    for (const network of getNetworks(service)) if (network !== 'default') networks.add(network);
+  }
+  for (const name of networks) {
+    const config = compose.networks?.[name];
+    builder.addNode(networkId(name), 'network', {
+      label: name,
+      details: config?.external ? 'external network' : `network${config?.driver ? ` (${config.driver})` : ''}`,
+      networkName: name,
+      sourcePath: options.sourcePath,
+    });
+  }
+
+  for (const [name, service] of Object.entries(compose.services)) {
+    for (const dependency of getDependsOn(service)) {
+      if (compose.services[dependency]) builder.addEdge(serviceId(name), serviceId(dependency), 'depends_on', true);
+    }
+
+    for (const link of getLinks(service)) {
+      if (compose.services[link]) builder.addEdge(serviceId(name), serviceId(link), 'link');
+    }
+
+    for (const mount of getMounts(service)) {
+      if (mount.type === 'volume' && mount.source && compose.volumes && mount.source in compose.volumes) {
+        builder.addEdge(serviceId(name), volumeId(mount.source), mount.target);
+      }
+    }
+
+    for (const network of getNetworks(service)) {
+      if (networks.has(network)) builder.addEdge(serviceId(name), networkId(network), 'network');
+    }
+  }
+
+  return builder.build();
+}
+
+// Parse compose file content straight into a graph
+export function parseComposeGraph(content: string, options: ComposeGraphOptions = {}): InfraGraph {
+  return composeToGraph(parseCompose(content), options);
+}
@@ -0,0 +1,180 @@
+// In-place edits of docker-compose files
+//
+// Edits go through the yaml Document API so comments, key order and the
+// formatting of untouched parts of the file are kept. Each helper changes one
+// thing in a parsed document; `editCompose` parses, applies them and prints the
+// result.
+
+import { Document, isMap, isScalar, isSeq, parseDocument, YAMLMap } from 'yaml';
+import { ComposeService, getEnvironment, getImageName, getPorts } from './compose';
+
+export function editCompose(content: string, edit: (doc: Document) => void): string {
+  const doc = parseDocument(content);
+  if (doc.errors.length > 0) {
+    throw new Error(`Invalid docker-compose file: ${doc.errors[0].message}`);
+  }
+
+  edit(doc);
+  return doc.toString({ lineWidth: 0 });
+}
+
+function scalarValue(item: unknown): unknown {
+  return isScalar(item) ? item.value : item;
+}
+
+// Remove sequence items matching `predicate`, dropping the key when nothing is left
+function removeSeqItems(doc: Document, path: string[], predicate: (item: unknown) => boolean) {
+  const seq = doc.getIn(path, true);
+  if (!isSeq(seq)) return;
+
+  seq.items = seq.items.filter((item) => !predicate(item));
+  if (seq.items.length === 0) doc.deleteIn(path);
+}
+
+export function hasService(doc: Document, service: string): boolean {
+  return isMap(doc.getIn(['services', service], true));
+}
+
+// Add `dependency` to the service's depends_on, in whichever syntax the file uses
+export function addDependency(doc: Document, service: string, dependency: string, condition?: string) {
+  const path = ['services', service, 'depends_on'];
+  const dependsOn = doc.getIn(path, true);
+
+  if (isSeq(dependsOn)) {
+    if (!dependsOn.items.some((item) => scalarValue(item) === dependency)) dependsOn.add(doc.createNode(dependency));
+  } else if (isMap(dependsOn)) {
+    if (!dependsOn.has(dependency)) dependsOn.set(dependency, doc.createNode({ condition: condition ?? 'service_started' }));
+  } else if (condition) {
+    doc.setIn(path, doc.createNode({ [dependency]: { condition } }));
+  } else {
+    doc.setIn(path, doc.createNode([dependency]));
+  }
+}
+
+// Set an environment variable unless the service already defines it
+export function addEnvironmentVariable(doc: Document, service: string, name: string, value: string) {
+  const path = ['services', service, 'environment'];
+  const environment = doc.getIn(path, true);
+
+  if (isSeq(environment)) {
+    const defined = environment.items.some((item) => {
+      const entry = String(scalarValue(item));
+      return entry === name || entry.startsWith(`${name}=`);
+    });
+    if (!defined) environment.add(doc.createNode(`${name}=${value}`));
+  } else if (isMap(environment)) {
+    if (!environment.has(name)) environment.set(name, value);
+  } else {
+    doc.setIn(path, doc.createNode({ [name]: value }));
+  }
+}
+
+// Delete a service and every depends_on and links reference to it
+export function removeService(doc: Document, service: string) {
+  doc.deleteIn(['services', service]);
+
+  const services = doc.get('services', true);
+  if (!isMap(services)) return;
+
+  for (const pair of services.items) {
+    const name = String(scalarValue(pair.key));
+    const dependsOn = doc.getIn(['services', name, 'depends_on'], true);
+
+    if (isMap(dependsOn)) {
+      dependsOn.delete(service);
+      if (dependsOn.items.length === 0) doc.deleteIn(['services', name, 'depends_on']);
+    } else {
+      removeSeqItems(doc, ['services', name, 'depends_on'], (item) => scalarValue(item) === service);
+    }
+
+    removeSeqItems(doc, ['services', name, 'links'], (item) => String(scalarValue(item)).split(':')[0] === service);
+  }
+}
+
+// Delete a named volume and every service mount of it
+export function removeVolume(doc: Document, volume: string) {
+  doc.deleteIn(['volumes', volume]);
+  const volumes = doc.get('volumes', true);
+  if (isMap(volumes) && volumes.items.length === 0) doc.delete('volumes');
+
+  const services = doc.get('services', true);
+  if (!isMap(services)) return;
+
+  for (const pair of services.items) {
+    const name = String(scalarValue(pair.key));
+    removeSeqItems(doc, ['services', name, 'volumes'], (item) => {
+      if (item instanceof YAMLMap) return item.get('source') === volume;
+      const parts = String(scalarValue(item)).split(':');
+      return parts.length > 1 && parts[0] === volume;
+    });
+  }
+}
+
+export function hasEntry(doc: Document, section: string, name: string): boolean {
+  const entries = doc.get(section, true);
+  return isMap(entries) && entries.has(name);
+}
+
+// Add a top-level entry such as a service, network or secret. Does nothing if
+// one with that name exists.
+export function addEntry(doc: Document, section: string, name: string, config: unknown) {
+  if (!hasEntry(doc, section, name)) doc.setIn([section, name], doc.createNode(config));
+}
+
+export function hasVolume(doc: Document, volume: string): boolean {
+  const volumes = doc.get('volumes', true);
+  return isMap(volumes) && volumes.has(volume);
+}
+
+interface ConnectionTemplate {
+  images: string[];
+  variable: string;
+  url: (host: string, env: Record<string, string>) => string;
+}
+
+// How a client reaches each kind of backing service. Passwords are left as
+// compose interpolations rather than copied into the consumer.
+const CONNECTION_TEMPLATES: ConnectionTemplate[] = [
+  {
+    images: ['postgres', 'postgis', 'postgresql', 'timescaledb'],
+    variable: 'DATABASE_URL',
+    url: (host, env) => {
+      const user = env.POSTGRES_USER || 'postgres';
+      return `postgresql://${user}:\${POSTGRES_PASSWORD}@${host}:5432/${env.POSTGRES_DB || user}`;
+    },
+  },
+  {
+    images: ['mysql', 'mariadb'],
+    variable: 'DATABASE_URL',
+    url: (host, env) =>
+      env.MYSQL_USER
+        ? `mysql://${env.MYSQL_USER}:\${MYSQL_PASSWORD}@${host}:3306/${env.MYSQL_DATABASE ?? ''}`
+        : `mysql://root:\${MYSQL_ROOT_PASSWORD}@${host}:3306/${env.MYSQL_DATABASE ?? ''}`,
+  },
+  { images: ['mongo', 'mongodb'], variable: 'MONGODB_URL', url: (host) => `mongodb://${host}:27017` },
+  { images: ['redis', 'valkey', 'keydb'], variable: 'REDIS_URL', url: (host) => `redis://${host}:6379` },
+  { images: ['memcached'], variable: 'MEMCACHED_URL', url: (host) => `${host}:11211` },
+  { images: ['rabbitmq'], variable: 'AMQP_URL', url: (host) => `amqp://${host}:5672` },
+  { images: ['elasticsearch', 'opensearch'], variable: 'ELASTICSEARCH_URL', url: (host) => `http://${host}:9200` },
+  { images: ['minio'], variable: 'S3_ENDPOINT', url: (host) => `http://${host}:9000` },
+];
+
+export function envVarName(name: string): string {
+  return name.toUpperCase().replace(/[^A-Z0-9]+/g, '_').replace(/^_|_$/g, '');
+}
+
+// Environment variable a service needs to talk to `target`
+export function connectionEnv(targetName: string, target: ComposeService): { name: string; value: string } {
+  const image = target.image ? getImageName(target.image) : '';
+  const template = CONNECTION_TEMPLATES.find((candidate) =>
+    candidate.images.some((name) => image === name || image.startsWith(`${name}-`))
+  );
+  if (template) {
+    return { name: template.variable, value: template.url(targetName, getEnvironment(target)) };
+  }
+
+  const port = getPorts(target)[0]?.target ?? target.expose?.[0];
+  return port !== undefined
+    ? { name: `${envVarName(targetName)}_URL`, value: `http://${targetName}:${port}` }
+    : { name: `${envVarName(targetName)}_HOST`, value: targetName };
+}
@@ -0,0 +1,365 @@
+// Form model for editing a docker-compose service from the Node Inspector
+//
+// The form holds the settings people change most as plain strings. Applying it
+// to a compose file only touches the settings that differ from the form it
+// started from, so everything else in the file keeps its formatting.
+
+import { Document, isMap, isScalar, isSeq, Scalar, YAMLMap, YAMLSeq } from 'yaml';
+import { ComposeService, getEnvironment } from './compose';
+
+export interface EnvironmentEntry {
+  name: string;
+  value: string;
+}
+
+export interface HealthcheckForm {
+  test: string;
+  interval: string;
+  timeout: string;
+  retries: string;
+  start_period: string;
+}
+
+export interface ServiceForm {
+  image: string;
+  tag: string;
+  // The service is built from source, so an image is optional
+  hasBuild: boolean;
+  // Short syntax entries: `[HOST:]CONTAINER[/PROTOCOL]` and `[SOURCE:]TARGET[:MODE]`
+  ports: string[];
+  environment: EnvironmentEntry[];
+  volumes: string[];
+  // null when the service has no healthcheck
+  healthcheck: HealthcheckForm | null;
+  cpus: string;
+  memory: string;
+  restart: string;
+}
+
+export type ServiceFormField = Exclude<keyof ServiceForm, 'hasBuild'>;
+
+// Field errors keyed by field, or `field.index` for list entries
+export type ServiceFormErrors = Record<string, string>;
+
+export const RESTART_POLICIES = ['no', 'always', 'on-failure', 'unless-stopped'];
+
+export const EMPTY_HEALTHCHECK: HealthcheckForm = {
+  test: '',
+  interval: '30s',
+  timeout: '10s',
+  retries: '3',
+  start_period: '',
+};
+
+const FIELD_LABELS: Record<ServiceFormField, string> = {
+  image: 'image',
+  tag: 'tag',
+  ports: 'ports',
+  environment: 'environment',
+  volumes: 'volumes',
+  healthcheck: 'healthcheck',
+  cpus: 'CPU limit',
+  memory: 'memory limit',
+  restart: 'restart policy',
+};
+
+// `ghcr.io/org/app:1.2@sha256:...` -> `ghcr.io/org/app` and `1.2@sha256:...`
+export function splitImage(image: string): { image: string; tag: string } {
+  const [reference, digest] = image.split('@');
+  const slash = reference.lastIndexOf('/');
+  const colon = reference.lastIndexOf(':');
+  const hasTag = colon > slash;
+  const tag = (hasTag ? reference.slice(colon + 1) : '') + (digest ? `@${digest}` : '');
+  return { image: hasTag ? reference.slice(0, colon) : reference, tag };
+}
+
+export function joinImage(image: string, tag: string): string {
+  if (!tag) return image;
+  return tag.startsWith('@') ? `${image}${tag}` : `${image}:${tag}`;
+}
+
+function portEntry(port: NonNullable<ComposeService['ports']>[number]): string {
+  if (typeof port !== 'object') return String(port);
+  const mapping = port.published !== undefined ? `${port.published}:${port.target}` : String(port.target);
+  return port.protocol && port.protocol !== 'tcp' ? `${mapping}/${port.protocol}` : mapping;
+}
+
+function volumeEntry(volume: NonNullable<ComposeService['volumes']>[number]): string {
+  if (typeof volume !== 'object') return volume;
+  const mapping = volume.source ? `${volume.source}:${volume.target}` : volume.target;
+  return volume.read_only ? `${mapping}:ro` : mapping;
+}
+
+// `["CMD", "pg_isready"]` and `["CMD-SHELL", "pg_isready"]` both read as `pg_isready`
+function healthcheckTest(test: string | string[] | undefined): string {
+  if (!test) return '';
+  if (!Array.isArray(test)) return test;
+  const [kind, ...command] = test;
+  return kind === 'CMD' || kind === 'CMD-SHELL' ? command.join(' ') : test.join(' ');
+}
+
+function text(value: unknown): string {
+  return value === undefined || value === null ? '' : String(value);
+}
+
+export function serviceForm(service: ComposeService): ServiceForm {
+  const { image, tag } = splitImage(service.image ?? '');
+  const healthcheck = service.healthcheck && !service.healthcheck.disable ? service.healthcheck : null;
+  const limits = service.deploy?.resources?.limits;
+
+  return {
+    image,
+    tag,
+    hasBuild: Boolean(service.build),
+    ports: (service.ports ?? []).map(portEntry),
+    environment: Object.entries(getEnvironment(service)).map(([name, value]) => ({ name, value })),
+    volumes: (service.volumes ?? []).map(volumeEntry),
+    healthcheck: healthcheck && {
+      test: healthcheckTest(healthcheck.test),
+      interval: text(healthcheck.interval),
+      timeout: text(healthcheck.timeout),
+      retries: text(healthcheck.retries),
+      start_period: text(healthcheck.start_period),
+    },
+    cpus: text(limits?.cpus),
+    memory: text(limits?.memory),
+    restart: service.restart ?? '',
+  };
+}
+
+const IMAGE_PATTERN = /^[a-zA-Z0-9][a-zA-Z0-9.-]*(:\d+)?(\/[a-z0-9]+([._-]+[a-z0-9]+)*)*$/;
+const TAG_PATTERN = /^([\w][\w.-]{0,127})?(@sha256:[a-f0-9]{64})?$/;
+const PORT_PATTERN = /^(?:(\d{1,3}(?:\.\d{1,3}){3}):)?(?:(\d+(?:-\d+)?):)?(\d+(?:-\d+)?)(?:\/(tcp|udp|sctp))?$/;
+const ENV_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_.]*$/;
+const VOLUME_MODES = ['ro', 'rw', 'z', 'Z', 'cached', 'delegated', 'consistent', 'nocopy'];
+const DURATION_PATTERN = /^(\d+(\.\d+)?(us|ms|s|m|h))+$/;
+const MEMORY_PATTERN = /^\d+(\.\d+)?([bkmg]b?)?$/i;
+
+function validPortRange(range: string): boolean {
+  return range.split('-').every((port) => Number(port) >= 1 && Number(port) <= 65535);
+}
+
+function validatePort(entry: string): string | undefined {
+  const match = PORT_PATTERN.exec(entry.trim());
+  if (!match) return 'Use [HOST:]CONTAINER[/PROTOCOL], e.g. 8080:80';
+  const [, , published, target] = match;
+  if (!validPortRange(target) || (published && !validPortRange(published))) return 'Ports must be between 1 and 65535';
+  return undefined;
+}
+
+function validateVolume(entry: string): string | undefined {
+  const parts = entry.trim().split(':');
+  if (!parts[0]) return 'Volume cannot be empty';
+  if (parts.length > 3) return 'Use [SOURCE:]TARGET[:MODE]';
+
+  const target = parts.length === 1 ? parts[0] : parts[1];
+  if (!target.startsWith('/')) return 'Container path must be absolute';
+  const mode = parts[2];
+  if (mode && !mode.split(',').every((option) => VOLUME_MODES.includes(option))) return `Unknown mode "${mode}"`;
+  return undefined;
+}
+
+export function validateServiceForm(form: ServiceForm): ServiceFormErrors {
+  const errors: ServiceFormErrors = {};
+
+  if (!form.image.trim()) {
+    if (!form.hasBuild) errors.image = 'Image is required';
+    else if (form.tag.trim()) errors.tag = 'A tag needs an image';
+  } else if (!IMAGE_PATTERN.test(form.image.trim())) {
+    errors.image = 'Not a valid image name';
+  }
+  if (form.tag && !TAG_PATTERN.test(form.tag.trim())) errors.tag = 'Not a valid tag or digest';
+
+  form.ports.forEach((entry, index) => {
+    const error = validatePort(entry);
+    if (error) errors[`ports.${index}`] = error;
+  });
+
+  const names = new Set<string>();
+  form.environment.forEach(({ name }, index) => {
+    if (!ENV_NAME_PATTERN.test(name.trim())) errors[`environment.${index}`] = 'Not a valid variable name';
+    else if (names.has(name.trim())) errors[`environment.${index}`] = `${name} is already set`;
+    names.add(name.trim());
+  });
+
+  form.volumes.forEach((entry, index) => {
+    const error = validateVolume(entry);
+    if (error) errors[`volumes.${index}`] = error;
+  });
+
+  if (form.healthcheck) {
+    const { test, interval, timeout, retries, start_period: startPeriod } = form.healthcheck;
+    if (!test.trim()) errors['healthcheck.test'] = 'Test command is required';
+    if (interval && !DURATION_PATTERN.test(interval)) errors['healthcheck.interval'] = 'Use a duration such as 30s or 1m30s';
+    if (timeout && !DURATION_PATTERN.test(timeout)) errors['healthcheck.timeout'] = 'Use a duration such as 10s';
+    if (startPeriod && !DURATION_PATTERN.test(startPeriod)) errors['healthcheck.start_period'] = 'Use a duration such as 40s';
+    if (retries && !/^[1-9]\d*$/.test(retries)) errors['healthcheck.retries'] = 'Must be a positive whole number';
+  }
+
+  if (form.cpus && !(Number(form.cpus) > 0)) errors.cpus = 'Must be a positive number, e.g. 0.5';
+  if (form.memory && !MEMORY_PATTERN.test(form.memory)) errors.memory = 'Use a size such as 512m or 1g';
+
+  if (form.restart && !RESTART_POLICIES.includes(form.restart) && !/^on-failure:[1-9]\d*$/.test(form.restart)) {
+    errors.restart = 'Not a valid restart policy';
+  }
+
+  return errors;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+export function changedFields(before: ServiceForm, after: ServiceForm): ServiceFormField[] {
+  return (Object.keys(FIELD_LABELS) as ServiceFormField[]).filter((field) => !sameValue(before[field], after[field]));
+}
+
+export function describeFormChanges(service: string, before: ServiceForm, after: ServiceForm): string {
+  const fields = changedFields(before, after);
+  // Image and tag are one setting in the file
+  const labels = [...new Set(fields.map((field) => (field === 'tag' ? FIELD_LABELS.image : FIELD_LABELS[field])))];
+  return `Update ${service} ${labels.join(', ')}`;
+}
+
+// Set `path` to `value`, or delete it (and any parent mappings it leaves empty)
+// when the value is blank
+function setOrDelete(doc: Document, path: string[], value: unknown) {
+  if (value !== '' && value !== undefined) {
+    doc.setIn(path, value);
+    return;
+  }
+
+  doc.deleteIn(path);
+  for (let depth = path.length - 1; depth > 2; depth--) {
+    const parent = doc.getIn(path.slice(0, depth), true);
+    if (isMap(parent) && parent.items.length === 0) doc.deleteIn(path.slice(0, depth));
+  }
+}
+
+// Rewrite a list of short-syntax entries, reusing the original node for every
+// entry that did not change so long-syntax entries and comments survive
+function updateList(
+  doc: Document,
+  path: string[],
+  before: string[],
+  after: string[],
+  createItem: (entry: string) => unknown = (entry) => doc.createNode(entry)
+) {
+  if (after.length === 0) {
+    doc.deleteIn(path);
+    return;
+  }
+
+  const seq = doc.getIn(path, true);
+  const original = isSeq(seq) ? seq.items : [];
+  const items = after.map((entry) => {
+    const index = before.indexOf(entry);
+    return index !== -1 && original[index] ? original[index] : createItem(entry.trim());
+  });
+
+  if (isSeq(seq)) {
+    seq.items = items;
+  } else {
+    const created = new YAMLSeq();
+    created.items = items;
+    doc.setIn(path, created);
+  }
+}
+
+function updateEnvironment(doc: Document, path: string[], before: EnvironmentEntry[], after: EnvironmentEntry[]) {
+  if (after.length === 0) {
+    doc.deleteIn(path);
+    return;
+  }
+
+  const environment = doc.getIn(path, true);
+  const previous = new Map(before.map(({ name, value }) => [name, value]));
+  const next = new Map(after.map(({ name, value }) => [name.trim(), value]));
+
+  if (isSeq(environment)) {
+    // Keep existing entries in place and append new ones
+    environment.items = environment.items.filter((item) => {
+      const name = String(isScalar(item) ? item.value : item).split('=')[0];
+      return next.has(name) || !previous.has(name);
+    });
+    for (const [name, value] of next) {
+      const index = environment.items.findIndex(
+        (item) => String(isScalar(item) ? item.value : item).split('=')[0] === name
+      );
+      if (index === -1) environment.add(doc.createNode(`${name}=${value}`));
+      else if (previous.get(name) !== value) environment.items[index] = doc.createNode(`${name}=${value}`);
+    }
+  } else if (isMap(environment)) {
+    for (const name of previous.keys()) {
+      if (!next.has(name)) environment.delete(name);
+    }
+    for (const [name, value] of next) {
+      if (previous.get(name) !== value) environment.set(name, value);
+    }
+  } else {
+    doc.setIn(path, doc.createNode(Object.fromEntries(next)));
+  }
+}
+
+function updateHealthcheck(doc: Document, path: string[], before: HealthcheckForm | null, after: HealthcheckForm | null) {
+  if (!after) {
+    doc.deleteIn(path);
+    return;
+  }
+  if (!isMap(doc.getIn(path, true))) doc.setIn(path, new YAMLMap());
+  doc.deleteIn([...path, 'disable']);
+
+  if (before?.test !== after.test) {
+    // Keep the list syntax if the file used it
+    const test = doc.getIn([...path, 'test']);
+    doc.setIn([...path, 'test'], isSeq(test) ? doc.createNode(['CMD-SHELL', after.test.trim()]) : after.test.trim());
+  }
+  for (const key of ['interval', 'timeout', 'start_period'] as const) {
+    if (before?.[key] !== after[key]) setOrDelete(doc, [...path, key], after[key].trim());
+  }
+  if (before?.retries !== after.retries) setOrDelete(doc, [...path, 'retries'], after.retries ? Number(after.retries) : '');
+}
+
+// Apply the difference between two forms to a service in a parsed compose file
+export function applyServiceForm(doc: Document, service: string, before: ServiceForm, after: ServiceForm) {
+  if (!isMap(doc.getIn(['services', service], true))) {
+    throw new Error(`Service "${service}" was not found in the compose file`);
+  }
+
+  const path = (...keys: string[]) => ['services', service, ...keys];
+
+  for (const field of changedFields(before, after)) {
+    switch (field) {
+      case 'image':
+      case 'tag':
+        setOrDelete(doc, path('image'), after.image.trim() ? joinImage(after.image.trim(), after.tag.trim()) : '');
+        break;
+      case 'ports':
+        updateList(doc, path('ports'), before.ports, after.ports, (entry) => {
+          // Quoted so YAML 1.1 parsers do not read `22:22` as a number
+          const node = doc.createNode(entry) as Scalar;
+          node.type = Scalar.QUOTE_DOUBLE;
+          return node;
+        });
+        break;
+      case 'environment':
+        updateEnvironment(doc, path('environment'), before.environment, after.environment);
+        break;
+      case 'volumes':
+        updateList(doc, path('volumes'), before.volumes, after.volumes);
+        break;
+      case 'healthcheck':
+        updateHealthcheck(doc, path('healthcheck'), before.healthcheck, after.healthcheck);
+        break;
+      case 'cpus':
+        setOrDelete(doc, path('deploy', 'resources', 'limits', 'cpus'), after.cpus.trim());
+        break;
+      case 'memory':
+        setOrDelete(doc, path('deploy', 'resources', 'limits', 'memory'), after.memory.trim());
+        break;
+      case 'restart':
+        setOrDelete(doc, path('restart'), after.restart);
+        break;
+    }
+  }
+}
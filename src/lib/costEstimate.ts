@@ -0,0 +1,307 @@
+// Monthly cost estimates for the graph, priced offline from the bundled tables
+//
+// Each node is priced as the managed service it deploys to on the chosen
+// provider (see `managedModule`). Terraform resources are priced as the service
+// they already are, on their own provider and at the tier they declare. Usage-based services are priced at
+// light usage, so estimates are a floor for busy workloads.
+
+import type { ChangeSet } from './changes';
+import { parseComposeGraph } from './compose';
+import { parseTerraform, terraformToGraph } from './terraform';
+import { classifyInfraFile } from './github';
+import type { InfraGraph, InfraNode } from './graph';
+import { CURRENT_PRICING, PricingTable, ProviderPricing } from './pricing';
+import { CloudProvider, MANAGED_SERVICES, ModuleType, PROVIDERS, managedModule } from './providers';
+
+export interface CostItem {
+  label: string;
+  monthly: number;
+}
+
+export interface NodeCost {
+  nodeId: string;
+  label: string;
+  provider: CloudProvider;
+  // Managed service and size the node is priced as
+  service: string;
+  tier: string;
+  monthly: number;
+  items: CostItem[];
+}
+
+export interface CostEstimate {
+  provider: CloudProvider;
+  region: string;
+  pricingVersion: string;
+  currency: string;
+  nodes: NodeCost[];
+  unpriced: Array<{ nodeId: string; label: string; reason: string }>;
+  total: number;
+}
+
+// Estimated monthly totals before and after a change set
+export interface CostDelta {
+  before: number;
+  after: number;
+}
+
+// What pricing needs of a node; React Flow passes cards no more than this
+type PricedNode = Pick<InfraNode, 'id' | 'type' | 'data'>;
+
+const HOURS_PER_MONTH = 730;
+// Hours a month a job is assumed to run
+const JOB_HOURS_PER_MONTH = 30;
+// Data assumed to be kept in a bucket
+const BUCKET_STORAGE_GB = 10;
+
+// Terraform resource types that are priced as a managed building block
+const TERRAFORM_MODULE_TYPES: Record<string, ModuleType> = {
+  google_cloud_run_service: 'service',
+  google_cloud_run_v2_service: 'service',
+  google_cloud_run_v2_job: 'job',
+  google_sql_database_instance: 'postgres',
+  google_redis_instance: 'redis',
+  google_pubsub_topic: 'queue',
+  google_storage_bucket: 'bucket',
+  google_secret_manager_secret: 'secret',
+  aws_ecs_service: 'service',
+  aws_db_instance: 'postgres',
+  aws_elasticache_cluster: 'redis',
+  aws_elasticache_replication_group: 'redis',
+  aws_sqs_queue: 'queue',
+  aws_s3_bucket: 'bucket',
+  aws_secretsmanager_secret: 'secret',
+  azurerm_container_app: 'service',
+  azurerm_container_app_job: 'job',
+  azurerm_postgresql_flexible_server: 'postgres',
+  azurerm_mysql_flexible_server: 'mysql',
+  azurerm_redis_cache: 'redis',
+  azurerm_servicebus_queue: 'queue',
+  azurerm_storage_account: 'bucket',
+  azurerm_key_vault_secret: 'secret',
+};
+
+const TERRAFORM_PROVIDERS: Array<[string, CloudProvider]> = [
+  ['google_', 'gcp'],
+  ['aws_', 'aws'],
+  ['azurerm_', 'azure'],
+];
+
+function parseCpus(value: string | number | undefined): number | undefined {
+  const cpus = typeof value === 'number' ? value : parseFloat(value ?? '');
+  return cpus > 0 ? cpus : undefined;
+}
+
+// Compose memory sizes such as `512M`, `1g` or `1.5GiB`, in GiB
+function parseMemoryGib(value: string | undefined): number | undefined {
+  const match = value?.trim().match(/^(\d+(?:\.\d+)?)\s*([bkmg])?(?:i?b)?$/i);
+  if (!match) return undefined;
+  const exponent = { b: 3, k: 2, m: 1, g: 0 }[(match[2] ?? 'b').toLowerCase() as 'b' | 'k' | 'm' | 'g'];
+  const gib = parseFloat(match[1]) / 1024 ** exponent;
+  return gib > 0 ? gib : undefined;
+}
+
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function containerCost(node: PricedNode, pricing: ProviderPricing, hours: number) {
+  const deploy = node.data.dockerComposeConfig?.deploy;
+  const limits = deploy?.resources?.limits;
+  const cpus = parseCpus(limits?.cpus) ?? pricing.defaultContainer.cpus;
+  const memory = parseMemoryGib(limits?.memory) ?? pricing.defaultContainer.memoryGib;
+  const replicas = Math.max(1, deploy?.replicas ?? 1);
+  const count = replicas > 1 ? `${replicas} × ` : '';
+
+  return {
+    tier: `${count}${cpus} vCPU, ${round(memory)} GiB`,
+    items: [
+      { label: `${count}${cpus} vCPU for ${hours} h`, monthly: replicas * cpus * pricing.container.vcpuHour * hours },
+      { label: `${count}${round(memory)} GiB memory for ${hours} h`, monthly: replicas * memory * pricing.container.gibHour * hours },
+    ],
+  };
+}
+
+// Tier a Terraform resource declares, named as in the pricing tables
+function declaredTier(node: PricedNode): string | undefined {
+  const size = node.data.resourceSize;
+  if (!size) return undefined;
+
+  switch (node.data.resourceType) {
+    case 'google_redis_instance':
+      if (!size.tier && !size.memory_size_gb) return undefined;
+      return `${size.tier === 'STANDARD_HA' ? 'Standard' : 'Basic'}, ${size.memory_size_gb ?? 1} GB`;
+    case 'azurerm_redis_cache':
+      return size.sku_name && `${size.sku_name} ${size.family ?? 'C'}${size.capacity ?? 0}`;
+    case 'aws_elasticache_cluster':
+    case 'aws_elasticache_replication_group':
+      return size.node_type;
+    default:
+      return size.tier ?? size.instance_class ?? size.sku_name;
+  }
+}
+
+function moduleCost(
+  node: PricedNode,
+  type: ModuleType,
+  pricing: ProviderPricing
+): { tier: string; items: CostItem[] } | { reason: string } {
+  switch (type) {
+    case 'service':
+      return containerCost(node, pricing, HOURS_PER_MONTH);
+    case 'job':
+      return containerCost(node, pricing, JOB_HOURS_PER_MONTH);
+    case 'postgres':
+    case 'mysql': {
+      const tier = declaredTier(node) ?? pricing.defaultDatabaseTier;
+      if (!(tier in pricing.databaseTiers)) return { reason: `No pricing for the ${tier} tier` };
+      const storage = pricing.minDatabaseStorageGb;
+      return {
+        tier: `${tier}, ${storage} GB`,
+        items: [
+          { label: `${tier} instance`, monthly: pricing.databaseTiers[tier] },
+          { label: `${storage} GB storage`, monthly: storage * pricing.databaseStorageGb },
+        ],
+      };
+    }
+    case 'redis': {
+      const tier = declaredTier(node) ?? pricing.defaultCacheTier;
+      if (!(tier in pricing.cacheTiers)) return { reason: `No pricing for the ${tier} tier` };
+      return { tier, items: [{ label: `${tier} instance`, monthly: pricing.cacheTiers[tier] }] };
+    }
+    case 'queue':
+      return { tier: 'Light usage', items: [{ label: 'About 1M operations', monthly: pricing.queueMonthly }] };
+    case 'bucket':
+      return {
+        tier: `${BUCKET_STORAGE_GB} GB`,
+        items: [{ label: `${BUCKET_STORAGE_GB} GB stored`, monthly: BUCKET_STORAGE_GB * pricing.bucketStorageGb }],
+      };
+    case 'secret':
+      return { tier: 'One secret', items: [{ label: 'Secret storage and access', monthly: pricing.secretMonthly }] };
+  }
+}
+
+// Provider, region and building block a node is priced as
+function pricedAs(
+  node: PricedNode,
+  provider: CloudProvider,
+  region: string
+): { provider: CloudProvider; region: string; type: ModuleType } | { reason: string } {
+  const { resourceType } = node.data;
+  if (resourceType) {
+    const type = TERRAFORM_MODULE_TYPES[resourceType];
+    const owner = TERRAFORM_PROVIDERS.find(([prefix]) => resourceType.startsWith(prefix))?.[1];
+    if (!type || !owner) return { reason: `No pricing for ${resourceType}` };
+    return { provider: owner, region: owner === provider ? region : PROVIDERS[owner].defaultRegion, type };
+  }
+
+  const mapping = managedModule(node);
+  return 'type' in mapping ? { provider, region, type: mapping.type } : mapping;
+}
+
+export function estimateNodeCost(
+  node: PricedNode,
+  provider: CloudProvider,
+  region: string,
+  table: PricingTable = CURRENT_PRICING
+): NodeCost | { reason: string } {
+  const target = pricedAs(node, provider, region);
+  if ('reason' in target) return target;
+
+  const pricing = table.providers[target.provider];
+  const multiplier = pricing.regions[target.region] ?? 1;
+  const cost = moduleCost(node, target.type, pricing);
+  if ('reason' in cost) return cost;
+
+  const { tier, items } = cost;
+  const regional = items.map((item) => ({ label: item.label, monthly: round(item.monthly * multiplier) }));
+
+  return {
+    nodeId: node.id,
+    label: node.data.label,
+    provider: target.provider,
+    service: MANAGED_SERVICES[target.provider][target.type],
+    tier,
+    monthly: round(regional.reduce((sum, item) => sum + item.monthly, 0)),
+    items: regional,
+  };
+}
+
+export function estimateCost(
+  graph: InfraGraph,
+  provider: CloudProvider,
+  region: string,
+  table: PricingTable = CURRENT_PRICING
+): CostEstimate {
+  const nodes: NodeCost[] = [];
+  const unpriced: CostEstimate['unpriced'] = [];
+
+  for (const node of graph.nodes) {
+    if (node.type === 'namespace') continue;
+    const cost = estimateNodeCost(node, provider, region, table);
+    if ('reason' in cost) {
+      unpriced.push({ nodeId: node.id, label: node.data.label, reason: cost.reason });
+    } else {
+      nodes.push(cost);
+    }
+  }
+
+  return {
+    provider,
+    region,
+    pricingVersion: table.version,
+    currency: table.currency,
+    nodes,
+    unpriced,
+    total: round(nodes.reduce((sum, node) => sum + node.monthly, 0)),
+  };
+}
+
+// Throws if the file cannot be parsed, so a broken file never reads as free
+function terraformFileGraph(content: string, path: string): InfraGraph {
+  const config = parseTerraform([{ path, content }]);
+  if (config.errors.length > 0) throw new Error(config.errors[0].message);
+  return terraformToGraph(config);
+}
+
+// Estimate for one compose or Terraform file on its own
+function fileCost(content: string, path: string, provider: CloudProvider, region: string): number {
+  if (!content.trim()) return 0;
+  const graph =
+    classifyInfraFile(path) === 'terraform'
+      ? terraformFileGraph(content, path)
+      : parseComposeGraph(content, { sourcePath: path });
+  return estimateCost(graph, provider, region).total;
+}
+
+// How the compose and Terraform files in a change set change the estimate.
+// Null when the change set touches neither or one of them cannot be parsed.
+export function estimateChangeSetCost(changeSet: ChangeSet, provider: CloudProvider, region: string): CostDelta | null {
+  const files = changeSet.files.filter((file) => {
+    const kind = classifyInfraFile(file.path);
+    return kind === 'compose' || kind === 'terraform';
+  });
+  if (files.length === 0) return null;
+
+  try {
+    return files.reduce(
+      (delta, file) => ({
+        before: round(delta.before + fileCost(file.oldContent, file.path, provider, region)),
+        after: round(delta.after + fileCost(file.newContent, file.path, provider, region)),
+      }),
+      { before: 0, after: 0 }
+    );
+  } catch {
+    return null;
+  }
+}
+
+export function formatCost(amount: number, currency = CURRENT_PRICING.currency): string {
+  const digits = Math.abs(amount) >= 100 ? 0 : 2;
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
+  }).format(amount);
+}
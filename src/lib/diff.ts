@@ -0,0 +1,257 @@
+// Line and word diffs (Myers' O(ND) algorithm)
+
+export type DiffOpType = 'equal' | 'insert' | 'delete';
+
+export interface DiffOp<T> {
+  type: DiffOpType;
+  value: T;
+}
+
+// Shortest edit script between two sequences. Common prefix and suffix are
+// trimmed first, which keeps the trace small for typical small edits.
+export function diffSequences<T>(a: T[], b: T[], equals: (x: T, y: T) => boolean = (x, y) => x === y): DiffOp<T>[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && equals(a[prefix], b[prefix])) prefix++;
+
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    equals(a[a.length - 1 - suffix], b[b.length - 1 - suffix])
+  ) {
+    suffix++;
+  }
+
+  const head: DiffOp<T>[] = a.slice(0, prefix).map((value) => ({ type: 'equal', value }));
+  const tail: DiffOp<T>[] = a.slice(a.length - suffix).map((value) => ({ type: 'equal', value }));
+  const middleA = a.slice(prefix, a.length - suffix);
+  const middleB = b.slice(prefix, b.length - suffix);
+
+  return [...head, ...myers(middleA, middleB, equals), ...tail];
+}
+
+// Past this many edits the trace gets too large to keep (it grows with the
+// square of the edit distance), so the sequences are shown as a plain replace
+const MAX_EDIT_DISTANCE = 2000;
+
+function myers<T>(a: T[], b: T[], equals: (x: T, y: T) => boolean): DiffOp<T>[] {
+  const n = a.length;
+  const m = b.length;
+  if (n === 0) return b.map((value) => ({ type: 'insert', value }));
+  if (m === 0) return a.map((value) => ({ type: 'delete', value }));
+
+  const max = n + m;
+  const offset = max;
+  const v = new Int32Array(2 * max + 2);
+  // Before each step d, the diagonals -d..d of V; the other entries aren't read back
+  const trace: Int32Array[] = [];
+  let reached = false;
+
+  outer: for (let d = 0; d <= Math.min(max, MAX_EDIT_DISTANCE); d++) {
+    trace.push(v.slice(offset - d, offset + d + 1));
+    for (let k = -d; k <= d; k += 2) {
+      let x: number;
+      if (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])) {
+        x = v[offset + k + 1];
+      } else {
+        x = v[offset + k - 1] + 1;
+      }
+      let y = x - k;
+      while (x < n && y < m && equals(a[x], b[y])) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        reached = true;
+        break outer;
+      }
+    }
+  }
+
+  if (!reached) {
+    return [
+      ...a.map((value): DiffOp<T> => ({ type: 'delete', value })),
+      ...b.map((value): DiffOp<T> => ({ type: 'insert', value })),
+    ];
+  }
+
+  // Walk the trace backwards to recover the edit script
+  const ops: DiffOp<T>[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d > 0; d--) {
+    const previous = trace[d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && previous[d + k - 1] < previous[d + k + 1]) ? k + 1 : k - 1;
+    const prevX = previous[d + prevK];
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push({ type: 'equal', value: a[x - 1] });
+      x--;
+      y--;
+    }
+    if (x === prevX) {
+      ops.push({ type: 'insert', value: b[y - 1] });
+      y--;
+    } else {
+      ops.push({ type: 'delete', value: a[x - 1] });
+      x--;
+    }
+  }
+  while (x > 0 && y > 0) {
+    ops.push({ type: 'equal', value: a[x - 1] });
+    x--;
+    y--;
+  }
+
+  return ops.reverse();
+}
+
+export interface DiffLine {
+  type: DiffOpType;
+  text: string;
+  oldNumber?: number;
+  newNumber?: number;
+}
+
+function splitLines(content: string): string[] {
+  if (content === '') return [];
+  const lines = content.split('\n');
+  // A trailing newline does not start another line
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+export function diffLines(oldContent: string, newContent: string): DiffLine[] {
+  let oldNumber = 1;
+  let newNumber = 1;
+
+  return diffSequences(splitLines(oldContent), splitLines(newContent)).map((op) => {
+    if (op.type === 'equal') return { type: op.type, text: op.value, oldNumber: oldNumber++, newNumber: newNumber++ };
+    if (op.type === 'delete') return { type: op.type, text: op.value, oldNumber: oldNumber++ };
+    return { type: op.type, text: op.value, newNumber: newNumber++ };
+  });
+}
+
+export type DiffBlock =
+  | { kind: 'lines'; lines: DiffLine[] }
+  | { kind: 'collapsed'; id: number; lines: DiffLine[] };
+
+// Group a line diff into visible hunks with `context` unchanged lines around each
+// change. Longer unchanged runs become collapsed blocks that can be expanded.
+export function buildHunks(lines: DiffLine[], context: number = 3): DiffBlock[] {
+  const blocks: DiffBlock[] = [];
+  let visible: DiffLine[] = [];
+  let collapsedId = 0;
+  let i = 0;
+
+  while (i < lines.length) {
+    if (lines[i].type !== 'equal') {
+      visible.push(lines[i++]);
+      continue;
+    }
+
+    let end = i;
+    while (end < lines.length && lines[end].type === 'equal') end++;
+
+    const run = lines.slice(i, end);
+    const keepBefore = i === 0 ? 0 : context;
+    const keepAfter = end === lines.length ? 0 : context;
+
+    if (run.length > keepBefore + keepAfter + 1) {
+      visible.push(...run.slice(0, keepBefore));
+      if (visible.length > 0) blocks.push({ kind: 'lines', lines: visible });
+      blocks.push({ kind: 'collapsed', id: collapsedId++, lines: run.slice(keepBefore, run.length - keepAfter) });
+      visible = run.slice(run.length - keepAfter);
+    } else {
+      visible.push(...run);
+    }
+    i = end;
+  }
+
+  if (visible.length > 0) blocks.push({ kind: 'lines', lines: visible });
+  return blocks;
+}
+
+// Character range [start, end) within a line
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+function tokenizeWords(line: string): string[] {
+  return line.match(/\s+|\w+|[^\w\s]/g) ?? [];
+}
+
+// Character ranges that differ between a removed line and the line that replaced it
+export function diffWords(oldLine: string, newLine: string): { oldRanges: TextRange[]; newRanges: TextRange[] } {
+  const oldRanges: TextRange[] = [];
+  const newRanges: TextRange[] = [];
+  let oldPos = 0;
+  let newPos = 0;
+
+  const push = (ranges: TextRange[], start: number, end: number) => {
+    const last = ranges[ranges.length - 1];
+    if (last && last.end === start) {
+      last.end = end;
+    } else {
+      ranges.push({ start, end });
+    }
+  };
+
+  for (const op of diffSequences(tokenizeWords(oldLine), tokenizeWords(newLine))) {
+    const length = op.value.length;
+    if (op.type === 'equal') {
+      oldPos += length;
+      newPos += length;
+    } else if (op.type === 'delete') {
+      push(oldRanges, oldPos, oldPos + length);
+      oldPos += length;
+    } else {
+      push(newRanges, newPos, newPos + length);
+      newPos += length;
+    }
+  }
+
+  return { oldRanges, newRanges };
+}
+
+export interface SplitRow {
+  left?: DiffLine;
+  right?: DiffLine;
+}
+
+// Pair deletions with the insertions that follow them for side-by-side display
+export function toSplitRows(lines: DiffLine[]): SplitRow[] {
+  const rows: SplitRow[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (line.type === 'equal') {
+      rows.push({ left: line, right: line });
+      i++;
+      continue;
+    }
+
+    const deleted: DiffLine[] = [];
+    const inserted: DiffLine[] = [];
+    while (i < lines.length && lines[i].type === 'delete') deleted.push(lines[i++]);
+    while (i < lines.length && lines[i].type === 'insert') inserted.push(lines[i++]);
+
+    for (let j = 0; j < Math.max(deleted.length, inserted.length); j++) {
+      rows.push({ left: deleted[j], right: inserted[j] });
+    }
+  }
+
+  return rows;
+}
+
+export function countChanges(lines: DiffLine[]): { additions: number; deletions: number } {
+  return {
+    additions: lines.filter((line) => line.type === 'insert').length,
+    deletions: lines.filter((line) => line.type === 'delete').length,
+  };
+}
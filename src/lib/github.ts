@@ -1,5 +1,8 @@
 // GitHub OAuth and API utilities
 
+import { matchesAnyGlob } from './glob';
+import { looksLikeKubernetesManifest } from './kubernetes';
+
 export interface GitHubUser {
   login: string;
   id: number;
@@ -23,6 +26,7 @@ export interface GitHubFile {
   sha: string;
   type?: string;
   encoding?: string;
+  subproject?: string;
 }
 
 export interface GitHubBranch {
@@ -32,59 +36,181 @@ export interface GitHubBranch {
   };
 }
 
-// Store GitHub token (in production, use httpOnly cookies or secure storage)
-export function setGitHubToken(token: string) {
-  localStorage.setItem('github_token', token);
+export class GitHubApiError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'GitHubApiError';
+  }
 }
 
-export function getGitHubToken(): string | null {
-  return localStorage.getItem('github_token');
+// How the user signed in: a user OAuth token, or a GitHub App installed on
+// chosen repositories
+export type AuthMode = 'oauth' | 'app';
+
+export interface GitHubSession {
+  authenticated: boolean;
+  mode?: AuthMode;
+  login?: string;
+  userId?: number;
+  name?: string | null;
+  // Selected GitHub App installation, in app mode
+  installationId?: number;
 }
 
-export function clearGitHubToken() {
-  localStorage.removeItem('github_token');
+export interface GitHubInstallation {
+  id: number;
+  account: {
+    login: string;
+    type: string;
+    avatar_url: string;
+  };
+  repository_selection: 'all' | 'selected';
+  html_url: string;
 }
 
-// Initiate GitHub OAuth flow
-export function initiateGitHubOAuth() {
-  const clientId = process.env.NEXT_PUBLIC_GITHUB_CLIENT_ID;
-  const redirectUri = process.env.NEXT_PUBLIC_GITHUB_REDIRECT_URI || `${window.location.origin}/auth/callback`;
-  const scope = 'repo,user';
+// The token lives in an httpOnly session cookie, so the browser can only ask
+// whether there is a session
+export async function getGitHubSession(): Promise<GitHubSession> {
+  const response = await fetch('/api/auth/session', { cache: 'no-store' });
+  if (!response.ok) return { authenticated: false };
+  return response.json();
+}
 
-  const authUrl = `https://github.com/login/oauth/authorize?client_id=${clientId}&redirect_uri=${redirectUri}&scope=${scope}`;
-  window.location.href = authUrl;
+export async function hasGitHubSession(): Promise<boolean> {
+  return (await getGitHubSession()).authenticated;
 }
 
-// GitHub API helper
-async function githubApi(endpoint: string, options: RequestInit = {}) {
-  const token = getGitHubToken();
-  if (!token) {
-    throw new Error('No GitHub token found');
+// Revoke the token and end the session
+export async function signOutOfGitHub() {
+  await fetch('/api/auth/session', { method: 'DELETE' });
+}
+
+// Only paths on this site, so a crafted link can't send the user elsewhere
+// after login. The value is resolved the way the browser would (which drops
+// tabs and newlines and reads backslashes as slashes) and has to stay on the
+// placeholder origin.
+export function safeReturnTo(value: string | null | undefined): string {
+  const fallback = '/auth/github';
+  if (!value || !value.startsWith('/') || /[\u0000-\u001f\u007f\\]/.test(value)) return fallback;
+
+  const origin = 'https://terra.invalid';
+  try {
+    const url = new URL(value, origin);
+    return url.origin === origin ? `${url.pathname}${url.search}${url.hash}` : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+// Send the user back to the landing page when GitHub stops accepting the
+// session, remembering where they were so signing in again returns there
+function handleSessionExpired() {
+  if (typeof window !== 'undefined' && window.location.pathname !== '/') {
+    const returnTo = encodeURIComponent(window.location.pathname + window.location.search);
+    window.location.href = `/?session=expired&returnTo=${returnTo}`;
   }
+}
+
+const LOGIN_STORAGE_KEY = 'terra_login';
+
+// Initiate GitHub OAuth flow. The server picks the state and PKCE verifier
+// and redirects to GitHub.
+export function initiateGitHubOAuth(returnTo?: string, mode: AuthMode = 'oauth') {
+  // Kept for retrying from the callback page, which can't read the flow cookie
+  sessionStorage.setItem(LOGIN_STORAGE_KEY, JSON.stringify({ returnTo, mode }));
 
-  const response = await fetch(`https://api.github.com${endpoint}`, {
+  const params = new URLSearchParams();
+  if (returnTo) params.set('returnTo', safeReturnTo(returnTo));
+  if (mode === 'app') params.set('mode', 'app');
+  const query = params.toString();
+  window.location.href = `/api/auth/login${query ? `?${query}` : ''}`;
+}
+
+// Start the last login again, with its return path and auth mode
+export function retryGitHubOAuth() {
+  let last: { returnTo?: string; mode?: AuthMode } = {};
+  try {
+    last = JSON.parse(sessionStorage.getItem(LOGIN_STORAGE_KEY) ?? '{}');
+  } catch {
+    // Start a plain login
+  }
+  initiateGitHubOAuth(last.returnTo, last.mode === 'app' ? 'app' : 'oauth');
+}
+
+// Page where the GitHub App is installed on another account, if an app is configured
+export function getGitHubAppInstallUrl(): string | null {
+  const slug = process.env.NEXT_PUBLIC_GITHUB_APP_SLUG;
+  return slug ? `https://github.com/apps/${slug}/installations/new` : null;
+}
+
+// Co-author trailer crediting the signed-in user on commits the app makes
+export function coAuthorTrailer(session: GitHubSession): string | null {
+  if (session.mode !== 'app' || !session.login || !session.userId) return null;
+  return `Co-authored-by: ${session.name || session.login} <${session.userId}+${session.login}@users.noreply.github.com>`;
+}
+
+// GitHub API helper. Calls go through the session proxy, which adds the token.
+async function githubApi(endpoint: string, options: RequestInit = {}) {
+  const response = await fetch(`/api/github${endpoint}`, {
     ...options,
     headers: {
-      'Authorization': `Bearer ${token}`,
       'Accept': 'application/vnd.github.v3+json',
       ...options.headers,
     },
   });
 
+  if (response.status === 401) {
+    handleSessionExpired();
+    throw new GitHubApiError('GitHub session expired', 401);
+  }
+
   if (!response.ok) {
-    throw new Error(`GitHub API error: ${response.statusText}`);
+    throw new GitHubApiError(`GitHub API error: ${response.statusText}`, response.status);
   }
 
   return response.json();
 }
 
+// Every item of a list endpoint that wraps its items in `key`. The proxy
+// doesn't pass the Link header on, so pages are read until one comes back short.
+async function githubApiAllPages<T>(endpoint: string, key: string): Promise<T[]> {
+  const perPage = 100;
+  const items: T[] = [];
+  for (let page = 1; ; page++) {
+    const data = await githubApi(`${endpoint}?per_page=${perPage}&page=${page}`);
+    items.push(...data[key]);
+    if (data[key].length < perPage) return items;
+  }
+}
+
 // Get authenticated user
 export async function getGitHubUser(): Promise<GitHubUser> {
   return githubApi('/user');
 }
 
-// Get user repositories
-export async function getGitHubRepos(): Promise<GitHubRepo[]> {
+// GitHub App installations the user can access
+export async function getGitHubInstallations(): Promise<GitHubInstallation[]> {
+  return githubApiAllPages('/user/installations', 'installations');
+}
+
+// Make repository calls go through this installation
+export async function selectGitHubInstallation(installationId: number) {
+  const response = await fetch('/api/auth/installation', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ installationId }),
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new GitHubApiError(data.error || `Failed to select installation: ${response.statusText}`, response.status);
+  }
+}
+
+// Get user repositories, or the ones an installation can access
+export async function getGitHubRepos(installationId?: number): Promise<GitHubRepo[]> {
+  if (installationId) {
+    return githubApiAllPages(`/user/installations/${installationId}/repositories`, 'repositories');
+  }
   return githubApi('/user/repos?sort=updated&per_page=100');
 }
 
@@ -100,7 +226,7 @@ export async function getRepoFile(owner: string, repo: string, path: string, bra
 
   // Decode base64 content
   if (data.content && data.encoding === 'base64') {
-    data.content = atob(data.content);
+    data.content = decodeBase64(data.content);
   }
 
   return data;
@@ -112,6 +238,14 @@ export async function getRepoContents(owner: string, repo: string, path: string
   return githubApi(`/repos/${owner}/${repo}/contents/${path}${ref}`);
 }
 
+async function githubPost(endpoint: string, body: unknown, method: string = 'POST') {
+  return githubApi(endpoint, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
 // Update file in repository
 export async function updateRepoFile(
   owner: string,
@@ -122,31 +256,12 @@ export async function updateRepoFile(
   sha: string,
   branch: string
 ): Promise<any> {
-  const token = getGitHubToken();
-  if (!token) {
-    throw new Error('No GitHub token found');
-  }
-
-  const response = await fetch(`https://api.github.com/repos/${owner}/${repo}/contents/${path}`, {
-    method: 'PUT',
-    headers: {
-      'Authorization': `Bearer ${token}`,
-      'Accept': 'application/vnd.github.v3+json',
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      message,
-      content: btoa(content), // Base64 encode content
-      sha,
-      branch,
-    }),
-  });
-
-  if (!response.ok) {
-    throw new Error(`Failed to update file: ${response.statusText}`);
-  }
-
-  return response.json();
+  return githubPost(`/repos/${owner}/${repo}/contents/${path}`, {
+    message,
+    content: btoa(content), // Base64 encode content
+    sha,
+    branch,
+  }, 'PUT');
 }
 
 // Create a new branch
@@ -156,40 +271,276 @@ export async function createBranch(
   newBranchName: string,
   fromBranch: string
 ): Promise<GitHubBranch> {
-  const token = getGitHubToken();
-  if (!token) {
-    throw new Error('No GitHub token found');
-  }
-
   // First, get the SHA of the from branch
   const fromBranchData = await githubApi(`/repos/${owner}/${repo}/git/refs/heads/${fromBranch}`);
   const sha = fromBranchData.object.sha;
 
   // Create the new branch
-  const response = await fetch(`https://api.github.com/repos/${owner}/${repo}/git/refs`, {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${token}`,
-      'Accept': 'application/vnd.github.v3+json',
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      ref: `refs/heads/${newBranchName}`,
-      sha,
-    }),
+  const data = await githubPost(`/repos/${owner}/${repo}/git/refs`, {
+    ref: `refs/heads/${newBranchName}`,
+    sha,
   });
 
-  if (!response.ok) {
-    throw new Error(`Failed to create branch: ${response.statusText}`);
-  }
-
-  const data = await response.json();
   return {
     name: newBranchName,
     commit: { sha: data.object.sha },
   };
 }
 
+export interface GitTreeEntry {
+  path: string;
+  mode: string;
+  type: 'blob' | 'tree' | 'commit';
+  sha: string;
+  size?: number;
+}
+
+export interface GitTree {
+  sha: string;
+  tree: GitTreeEntry[];
+  truncated: boolean;
+}
+
+// Get the full file tree of a ref in a single request
+export async function getRepoTree(owner: string, repo: string, ref: string): Promise<GitTree> {
+  return githubApi(`/repos/${owner}/${repo}/git/trees/${encodeURIComponent(ref)}?recursive=1`);
+}
+
+// Decode base64 content as UTF-8 (atob alone mangles multi-byte characters)
+function decodeBase64(content: string): string {
+  const binary = atob(content.replace(/\n/g, ''));
+  const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+}
+
+// Read a blob by SHA and return it as a file
+export async function getRepoBlob(owner: string, repo: string, entry: GitTreeEntry): Promise<GitHubFile> {
+  const data = await githubApi(`/repos/${owner}/${repo}/git/blobs/${entry.sha}`);
+
+  return {
+    name: entry.path.split('/').pop() || entry.path,
+    path: entry.path,
+    sha: entry.sha,
+    type: 'file',
+    encoding: 'utf-8',
+    content: data.encoding === 'base64' ? decodeBase64(data.content) : data.content,
+  };
+}
+
+export interface CommitFile {
+  path: string;
+  // null deletes the file
+  content: string | null;
+}
+
+export interface GitCommit {
+  sha: string;
+  html_url: string;
+  message: string;
+}
+
+// Entries of one directory of a tree by name, or null if the directory doesn't
+// exist. Directories are read one level at a time, never recursively, so a
+// large repository can't truncate the listing; `directories` caches them by path.
+async function readDirectory(
+  owner: string,
+  repo: string,
+  rootSha: string,
+  dir: string,
+  directories: Map<string, Map<string, GitTreeEntry> | null>
+): Promise<Map<string, GitTreeEntry> | null> {
+  const cached = directories.get(dir);
+  if (cached !== undefined) return cached;
+
+  let sha: string | null = rootSha;
+  if (dir) {
+    const slash = dir.lastIndexOf('/');
+    const parent = await readDirectory(owner, repo, rootSha, slash === -1 ? '' : dir.slice(0, slash), directories);
+    const entry = parent?.get(dir.slice(slash + 1));
+    sha = entry?.type === 'tree' ? entry.sha : null;
+  }
+
+  let entries: Map<string, GitTreeEntry> | null = null;
+  if (sha) {
+    const tree: GitTree = await githubApi(`/repos/${owner}/${repo}/git/trees/${sha}`);
+    entries = new Map(tree.tree.map((entry) => [entry.path, entry]));
+  }
+  directories.set(dir, entries);
+  return entries;
+}
+
+// Commit several file changes atomically through the Git Data API:
+// blobs -> tree -> commit -> ref update
+export async function commitFiles(
+  owner: string,
+  repo: string,
+  branch: string,
+  message: string,
+  files: CommitFile[]
+): Promise<GitCommit> {
+  const ref = await githubApi(`/repos/${owner}/${repo}/git/ref/heads/${branch}`);
+  const parentSha: string = ref.object.sha;
+  const parent = await githubApi(`/repos/${owner}/${repo}/git/commits/${parentSha}`);
+  const baseTreeSha: string = parent.tree.sha;
+
+  // Look up the files we change in the base tree, to keep the mode of modified
+  // files (so executable scripts stay executable) and to find the ones we delete
+  const directories = new Map<string, Map<string, GitTreeEntry> | null>();
+  const baseEntry = async (path: string) => {
+    const slash = path.lastIndexOf('/');
+    const entries = await readDirectory(owner, repo, baseTreeSha, slash === -1 ? '' : path.slice(0, slash), directories);
+    return entries?.get(path.slice(slash + 1));
+  };
+
+  const tree = [];
+  for (const file of files) {
+    const existing = await baseEntry(file.path);
+
+    if (file.content === null) {
+      // Skipping the delete would commit something other than what was reviewed
+      if (existing?.type !== 'blob') throw new Error(`Cannot delete ${file.path}: it does not exist on ${branch}`);
+      tree.push({ path: file.path, mode: existing.mode, type: 'blob', sha: null });
+      continue;
+    }
+
+    const blob = await githubPost(`/repos/${owner}/${repo}/git/blobs`, {
+      content: file.content,
+      encoding: 'utf-8',
+    });
+    const mode = existing?.type === 'blob' ? existing.mode : '100644';
+    tree.push({ path: file.path, mode, type: 'blob', sha: blob.sha });
+  }
+
+  const newTree = await githubPost(`/repos/${owner}/${repo}/git/trees`, {
+    base_tree: baseTreeSha,
+    tree,
+  });
+
+  const commit: GitCommit = await githubPost(`/repos/${owner}/${repo}/git/commits`, {
+    message,
+    tree: newTree.sha,
+    parents: [parentSha],
+  });
+
+  // Fails if the branch moved since we read it, instead of overwriting someone else's commit
+  await githubPost(`/repos/${owner}/${repo}/git/refs/heads/${branch}`, { sha: commit.sha, force: false }, 'PATCH');
+
+  return commit;
+}
+
+export interface PullRequestOptions {
+  title: string;
+  body: string;
+  reviewers: string[];
+  labels: string[];
+  draft: boolean;
+}
+
+export interface PullRequest {
+  number: number;
+  html_url: string;
+  title: string;
+  draft: boolean;
+  head: { ref: string; sha: string };
+  base: { ref: string };
+}
+
+// A pull request with the follow-up steps that failed after it was opened
+export interface OpenedPullRequest extends PullRequest {
+  warnings: string[];
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+// Open a pull request, then request reviewers and add labels. Once the pull
+// request exists, failing to request reviewers or add labels (an unknown
+// reviewer, no permission to label) is reported as a warning rather than
+// thrown, since the branch and pull request are already there.
+export async function createPullRequest(
+  owner: string,
+  repo: string,
+  head: string,
+  base: string,
+  options: PullRequestOptions
+): Promise<OpenedPullRequest> {
+  const pullRequest: PullRequest = await githubPost(`/repos/${owner}/${repo}/pulls`, {
+    title: options.title,
+    body: options.body,
+    head,
+    base,
+    draft: options.draft,
+  });
+  const warnings: string[] = [];
+
+  if (options.reviewers.length > 0) {
+    try {
+      await githubPost(`/repos/${owner}/${repo}/pulls/${pullRequest.number}/requested_reviewers`, {
+        reviewers: options.reviewers,
+      });
+    } catch (err) {
+      warnings.push(`could not request reviewers: ${errorMessage(err)}`);
+    }
+  }
+
+  // Labels live on the issue that backs every pull request
+  if (options.labels.length > 0) {
+    try {
+      await githubPost(`/repos/${owner}/${repo}/issues/${pullRequest.number}/labels`, {
+        labels: options.labels,
+      });
+    } catch (err) {
+      warnings.push(`could not add labels: ${errorMessage(err)}`);
+    }
+  }
+
+  return { ...pullRequest, warnings };
+}
+
+export type CheckState = 'pending' | 'success' | 'failure' | 'none';
+
+export interface CheckRun {
+  name: string;
+  state: CheckState;
+  url?: string;
+}
+
+export interface CheckSummary {
+  state: CheckState;
+  runs: CheckRun[];
+}
+
+// Combine check runs (GitHub Actions, apps) and commit statuses (older CI integrations) for a ref
+export async function getCommitChecks(owner: string, repo: string, ref: string): Promise<CheckSummary> {
+  const [checkRuns, status] = await Promise.all([
+    githubApi(`/repos/${owner}/${repo}/commits/${ref}/check-runs?per_page=100`),
+    githubApi(`/repos/${owner}/${repo}/commits/${ref}/status`),
+  ]);
+
+  const runs: CheckRun[] = [];
+
+  for (const run of checkRuns.check_runs as Array<{ name: string; status: string; conclusion: string | null; html_url: string }>) {
+    let state: CheckState = 'pending';
+    if (run.status === 'completed') {
+      state = ['success', 'neutral', 'skipped'].includes(run.conclusion ?? '') ? 'success' : 'failure';
+    }
+    runs.push({ name: run.name, state, url: run.html_url });
+  }
+
+  for (const commitStatus of status.statuses as Array<{ context: string; state: string; target_url: string | null }>) {
+    const state: CheckState = commitStatus.state === 'success' ? 'success' : commitStatus.state === 'pending' ? 'pending' : 'failure';
+    runs.push({ name: commitStatus.context, state, url: commitStatus.target_url ?? undefined });
+  }
+
+  let state: CheckState = 'none';
+  if (runs.some((run) => run.state === 'failure')) state = 'failure';
+  else if (runs.some((run) => run.state === 'pending')) state = 'pending';
+  else if (runs.length > 0) state = 'success';
+
+  return { state, runs };
+}
+
 // Analyze repository for infrastructure files
 export interface RepoAnalysis {
   hasDockerCompose: boolean;
@@ -197,59 +548,255 @@ export interface RepoAnalysis {
   hasTerraform: boolean;
   hasKubernetes: boolean;
   dockerComposeFile?: GitHubFile;
+  dockerComposeFiles: GitHubFile[];
   dockerfiles: GitHubFile[];
   terraformFiles: GitHubFile[];
   kubernetesFiles: GitHubFile[];
+  subprojects: Subproject[];
+  // Part of the repository could not be listed, so files may be missing
+  truncated: boolean;
+  // Infra files that were found but could not be read
+  unreadFiles: string[];
+  // Branch the files were read from
+  branch?: string;
+}
+
+// A directory that holds its own build manifest (package.json, go.mod, ...)
+export interface Subproject {
+  path: string;
+  name: string;
+  manifests: string[];
+}
+
+export interface AnalyzeOptions {
+  // Only files matching at least one of these globs are considered
+  include?: string[];
+  // Files matching any of these globs are skipped, even if included
+  exclude?: string[];
 }
 
-export async function analyzeRepository(owner: string, repo: string, branch?: string): Promise<RepoAnalysis> {
+export const DEFAULT_ANALYZE_EXCLUDES = [
+  '**/node_modules/**',
+  '**/vendor/**',
+  '**/.git/**',
+  '**/.terraform/**',
+  '**/dist/**',
+  '**/build/**',
+  '**/.next/**',
+];
+
+// Largest YAML file downloaded just to check whether it is a Kubernetes manifest
+const MAX_MANIFEST_CANDIDATE_BYTES = 256 * 1024;
+
+const SUBPROJECT_MANIFESTS = [
+  'package.json',
+  'go.mod',
+  'pyproject.toml',
+  'requirements.txt',
+  'Cargo.toml',
+  'pom.xml',
+  'build.gradle',
+  'build.gradle.kts',
+  'composer.json',
+  'Gemfile',
+];
+
+// `manifest` marks YAML files that need their content checked before we know
+// whether they are Kubernetes manifests. Only YAML in deployment directories is
+// checked; other YAML (CI configs, translations, API specs) is never downloaded.
+type InfraFileKind = 'compose' | 'dockerfile' | 'terraform' | 'kubernetes' | 'manifest';
+
+export function classifyInfraFile(path: string): InfraFileKind | null {
+  const segments = path.split('/');
+  const name = segments[segments.length - 1];
+
+  if (/^(docker-)?compose(\.[\w-]+)?\.ya?ml$/.test(name)) return 'compose';
+  if (name === 'Dockerfile' || name.startsWith('Dockerfile.') || name.endsWith('.Dockerfile')) return 'dockerfile';
+  if (name.endsWith('.tf')) return 'terraform';
+
+  if (/\.ya?ml$/.test(name)) {
+    const dirs = segments.slice(0, -1);
+    const inManifestDir = dirs.some((segment) => /^(k8s|kubernetes|manifests)$/.test(segment));
+    if (inManifestDir || name.includes('k8s') || name.includes('kubernetes')) return 'kubernetes';
+
+    const inDeployDir = dirs.some((segment) => /^(deploy|deployments?)$/.test(segment));
+    const inChartTemplates = dirs.some((segment, i) => segment === 'templates' && dirs[i - 2] === 'charts');
+    if (inDeployDir || inChartTemplates) return 'manifest';
+  }
+
+  return null;
+}
+
+function dirname(path: string): string {
+  const index = path.lastIndexOf('/');
+  return index === -1 ? '' : path.slice(0, index);
+}
+
+// The subproject a file belongs to is the deepest directory above it with a manifest
+function findSubproject(path: string, subprojects: Subproject[]): Subproject | undefined {
+  let dir = dirname(path);
+  while (true) {
+    const match = subprojects.find((subproject) => subproject.path === dir);
+    if (match || dir === '') return match;
+    dir = dirname(dir);
+  }
+}
+
+function detectSubprojects(entries: GitTreeEntry[], repo: string): Subproject[] {
+  const byPath = new Map<string, Subproject>();
+
+  for (const entry of entries) {
+    const name = entry.path.split('/').pop() || '';
+    if (!SUBPROJECT_MANIFESTS.includes(name)) continue;
+
+    const path = dirname(entry.path);
+    const existing = byPath.get(path);
+    if (existing) {
+      existing.manifests.push(name);
+    } else {
+      byPath.set(path, { path, name: path.split('/').pop() || repo, manifests: [name] });
+    }
+  }
+
+  return Array.from(byPath.values()).sort((a, b) => a.path.localeCompare(b.path));
+}
+
+// Every entry under a tree. When GitHub truncates the recursive listing, each
+// directory is listed on its own instead; the result is only incomplete if a
+// single directory is too big to list. Skipped directories are not listed at all.
+async function listTree(
+  owner: string,
+  repo: string,
+  sha: string,
+  skipDir: (path: string) => boolean,
+  prefix = ''
+): Promise<{ entries: GitTreeEntry[]; truncated: boolean }> {
+  const withPrefix = (entry: GitTreeEntry) => ({ ...entry, path: `${prefix}${entry.path}` });
+
+  const tree = await getRepoTree(owner, repo, sha);
+  if (!tree.truncated) return { entries: tree.tree.map(withPrefix), truncated: false };
+
+  const level: GitTree = await githubApi(`/repos/${owner}/${repo}/git/trees/${encodeURIComponent(sha)}`);
+  const entries = level.tree.map(withPrefix);
+  let truncated = level.truncated;
+
+  for (const dir of entries.filter((entry) => entry.type === 'tree' && !skipDir(entry.path))) {
+    const sub = await listTree(owner, repo, dir.sha, skipDir, `${dir.path}/`);
+    entries.push(...sub.entries);
+    truncated ||= sub.truncated;
+  }
+
+  return { entries, truncated };
+}
+
+// Read blobs a few at a time so large monorepos don't trip secondary rate limits.
+// A blob that fails to read is reported rather than failing the others.
+async function readBlobs(
+  owner: string,
+  repo: string,
+  entries: GitTreeEntry[]
+): Promise<{ files: GitHubFile[]; failed: string[] }> {
+  const files: GitHubFile[] = [];
+  const failed: string[] = [];
+  const batchSize = 8;
+
+  for (let i = 0; i < entries.length; i += batchSize) {
+    const batch = entries.slice(i, i + batchSize);
+    const results = await Promise.allSettled(batch.map((entry) => getRepoBlob(owner, repo, entry)));
+    results.forEach((result, j) => {
+      if (result.status === 'fulfilled') {
+        files.push(result.value);
+      } else {
+        failed.push(batch[j].path);
+      }
+    });
+  }
+
+  return { files, failed };
+}
+
+// Find and read the infrastructure files of a branch. Files that fail to read
+// are listed in `unreadFiles`; failing to list the repository throws.
+export async function analyzeRepository(
+  owner: string,
+  repo: string,
+  branch?: string,
+  options: AnalyzeOptions = {}
+): Promise<RepoAnalysis> {
   const analysis: RepoAnalysis = {
     hasDockerCompose: false,
     hasDockerfile: false,
     hasTerraform: false,
     hasKubernetes: false,
+    dockerComposeFiles: [],
     dockerfiles: [],
     terraformFiles: [],
     kubernetesFiles: [],
+    subprojects: [],
+    truncated: false,
+    unreadFiles: [],
   };
 
-  try {
-    // Get root directory contents
-    const rootContents = await getRepoContents(owner, repo, '', branch);
+  const exclude = options.exclude ?? DEFAULT_ANALYZE_EXCLUDES;
 
-    for (const file of rootContents) {
-      // Check for docker-compose
-      if (file.name.match(/^docker-compose\.(yml|yaml)$/)) {
-        analysis.hasDockerCompose = true;
-        analysis.dockerComposeFile = await getRepoFile(owner, repo, file.path, branch);
-      }
+  let ref = branch;
+  if (!ref) {
+    const repoData: GitHubRepo = await githubApi(`/repos/${owner}/${repo}`);
+    ref = repoData.default_branch;
+  }
+  analysis.branch = ref;
 
-      // Check for Dockerfile
-      if (file.name === 'Dockerfile' || file.name.startsWith('Dockerfile.')) {
-        analysis.hasDockerfile = true;
-        const dockerfileContent = await getRepoFile(owner, repo, file.path, branch);
-        analysis.dockerfiles.push(dockerfileContent);
-      }
+  // Excluded directories such as node_modules are not worth listing when the tree has to be walked
+  const tree = await listTree(owner, repo, ref, (path) => matchesAnyGlob(`${path}/`, exclude));
+  analysis.truncated = tree.truncated;
 
-      // Check for Terraform
-      if (file.name.endsWith('.tf')) {
-        analysis.hasTerraform = true;
-        const tfContent = await getRepoFile(owner, repo, file.path, branch);
-        analysis.terraformFiles.push(tfContent);
-      }
+  const blobs = tree.entries.filter((entry) => {
+    if (entry.type !== 'blob') return false;
+    if (options.include && !matchesAnyGlob(entry.path, options.include)) return false;
+    return !matchesAnyGlob(entry.path, exclude);
+  });
+
+  analysis.subprojects = detectSubprojects(blobs, repo);
+
+  const infraEntries = blobs.filter((entry) => {
+    const kind = classifyInfraFile(entry.path);
+    // Manifests are small; anything bigger is generated output or data, not worth downloading to check
+    if (kind === 'manifest') return (entry.size ?? 0) <= MAX_MANIFEST_CANDIDATE_BYTES;
+    return kind !== null;
+  });
+  const { files, failed } = await readBlobs(owner, repo, infraEntries);
+  analysis.unreadFiles = failed;
 
-      // Check for Kubernetes
-      if (file.name.includes('k8s') || file.name.includes('kubernetes')) {
+  for (const file of files) {
+    file.subproject = findSubproject(file.path, analysis.subprojects)?.path;
+
+    switch (classifyInfraFile(file.path)) {
+      case 'compose':
+        analysis.hasDockerCompose = true;
+        analysis.dockerComposeFiles.push(file);
+        break;
+      case 'dockerfile':
+        analysis.hasDockerfile = true;
+        analysis.dockerfiles.push(file);
+        break;
+      case 'terraform':
+        analysis.hasTerraform = true;
+        analysis.terraformFiles.push(file);
+        break;
+      case 'manifest':
+        if (!file.content || !looksLikeKubernetesManifest(file.content)) break;
+      // falls through
+      case 'kubernetes':
         analysis.hasKubernetes = true;
-        if (file.type === 'file') {
-          const k8sContent = await getRepoFile(owner, repo, file.path, branch);
-          analysis.kubernetesFiles.push(k8sContent);
-        }
-      }
+        analysis.kubernetesFiles.push(file);
+        break;
     }
-  } catch (error) {
-    console.error('Error analyzing repository:', error);
   }
 
+  // Prefer the shallowest compose file as the primary one
+  analysis.dockerComposeFile = [...analysis.dockerComposeFiles].sort(
+    (a, b) => a.path.split('/').length - b.path.split('/').length
+  )[0];
+
   return analysis;
 }
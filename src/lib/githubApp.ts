@@ -0,0 +1,136 @@
+// GitHub App authentication: app JWTs and short-lived installation tokens
+//
+// In app mode repositories are read and written with an installation token,
+// so commits appear as the app. Each token is scoped to the one repository a
+// call is for, and only minted once the user's own token shows they can reach
+// that repository through the installation; an org installation doesn't give
+// everyone who can see one repository access to all of them. Tokens are
+// cached per repository until shortly before they expire.
+
+import { createSign } from 'crypto';
+import type { Session } from './session';
+
+const GITHUB_API = 'https://api.github.com';
+// Mint a new token this long before the cached one expires
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+// How long the repositories a user can reach through an installation are reused
+const ACCESS_CACHE_MS = 5 * 60 * 1000;
+
+interface InstallationToken {
+  token: string;
+  // Unix time in milliseconds
+  expiresAt: number;
+}
+
+// By installation and repository
+const installationTokens = new Map<string, InstallationToken>();
+// Lowercased full names of the repositories a user can reach, by user and installation
+const userRepositories = new Map<string, { repositories: Set<string>; expiresAt: number }>();
+
+// The user can't reach the repository, or hasn't picked an installation
+export class GitHubAppAccessError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GitHubAppAccessError';
+  }
+}
+
+// JWT the app authenticates as itself with, valid for ten minutes
+function appJwt(): string {
+  const appId = process.env.GITHUB_APP_ID;
+  // Env files usually hold the PEM with escaped newlines
+  const privateKey = process.env.GITHUB_APP_PRIVATE_KEY?.replace(/\\n/g, '\n');
+  if (!appId || !privateKey) throw new Error('The GitHub App is not configured');
+
+  const now = Math.floor(Date.now() / 1000);
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  // Backdated to allow for clock drift between us and GitHub
+  const unsigned = `${encode({ alg: 'RS256', typ: 'JWT' })}.${encode({ iat: now - 60, exp: now + 9 * 60, iss: appId })}`;
+  const signature = createSign('RSA-SHA256').update(unsigned).sign(privateKey, 'base64url');
+  return `${unsigned}.${signature}`;
+}
+
+// Every item of a paginated list endpoint, following the Link header
+async function listAll<T>(url: string, token: string, key?: string): Promise<T[]> {
+  const items: T[] = [];
+  let next: string | null = url;
+
+  while (next) {
+    const response: Response = await fetch(next, {
+      headers: { 'Authorization': `Bearer ${token}`, 'Accept': 'application/vnd.github.v3+json' },
+    });
+    if (!response.ok) throw new Error(`GitHub API error: ${response.statusText}`);
+
+    const data = await response.json();
+    items.push(...(key ? data[key] : data));
+    next = response.headers.get('link')?.match(/<([^>]+)>;\s*rel="next"/)?.[1] ?? null;
+  }
+
+  return items;
+}
+
+// Token for one repository of an installation
+export async function getInstallationToken(installationId: number, repo: string): Promise<string> {
+  const key = `${installationId}/${repo}`;
+  const cached = installationTokens.get(key);
+  if (cached && cached.expiresAt - TOKEN_REFRESH_MARGIN_MS > Date.now()) return cached.token;
+
+  const response = await fetch(`${GITHUB_API}/app/installations/${installationId}/access_tokens`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${appJwt()}`,
+      'Accept': 'application/vnd.github.v3+json',
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ repositories: [repo] }),
+  });
+  if (!response.ok) throw new Error(`Failed to create installation token: ${response.statusText}`);
+
+  const data = await response.json();
+  const token: InstallationToken = { token: data.token, expiresAt: Date.parse(data.expires_at) };
+  installationTokens.set(key, token);
+  return token.token;
+}
+
+// Whether the signed-in user can see the installation, so nobody can pick
+// an installation id that isn't theirs
+export async function userCanAccessInstallation(userToken: string, installationId: number): Promise<boolean> {
+  const installations = await listAll<{ id: number }>(
+    `${GITHUB_API}/user/installations?per_page=100`,
+    userToken,
+    'installations'
+  );
+  return installations.some((installation) => installation.id === installationId);
+}
+
+async function userCanAccessRepository(session: Session, installationId: number, owner: string, repo: string): Promise<boolean> {
+  const key = `${session.userId}/${installationId}`;
+  let cached = userRepositories.get(key);
+
+  if (!cached || cached.expiresAt <= Date.now()) {
+    const repositories = await listAll<{ full_name: string }>(
+      `${GITHUB_API}/user/installations/${installationId}/repositories?per_page=100`,
+      session.token,
+      'repositories'
+    );
+    cached = {
+      repositories: new Set(repositories.map((repository) => repository.full_name.toLowerCase())),
+      expiresAt: Date.now() + ACCESS_CACHE_MS,
+    };
+    userRepositories.set(key, cached);
+  }
+
+  return cached.repositories.has(`${owner}/${repo}`.toLowerCase());
+}
+
+// Token for calls on one repository: the user's in OAuth mode; in app mode an
+// installation token scoped to the repository, if the user can reach it
+export async function repositoryToken(session: Session, owner: string, repo: string): Promise<string> {
+  if (session.mode === 'oauth') return session.token;
+  if (!session.installationId) throw new GitHubAppAccessError('Select a GitHub App installation first');
+
+  if (!(await userCanAccessRepository(session, session.installationId, owner, repo))) {
+    throw new GitHubAppAccessError(`You do not have access to ${owner}/${repo} through this installation`);
+  }
+  return getInstallationToken(session.installationId, repo);
+}
@@ -0,0 +1,118 @@
+// Server-side half of the GitHub OAuth flow: authorize URL with state and
+// PKCE, code exchange and token revocation. In app mode the user signs in
+// through the GitHub App's own client instead of the OAuth app.
+
+import { createHash, randomBytes } from 'crypto';
+import type { AuthMode } from './github';
+
+const GITHUB_API = 'https://api.github.com';
+
+// Why a login failed, so the callback can show what the user can do about it
+export type OAuthErrorReason = 'denied' | 'expired' | 'state_mismatch' | 'failed';
+
+export class OAuthError extends Error {
+  constructor(message: string, readonly reason: OAuthErrorReason) {
+    super(message);
+    this.name = 'OAuthError';
+  }
+}
+
+function credentials(mode: AuthMode) {
+  const clientId = mode === 'app' ? process.env.GITHUB_APP_CLIENT_ID : process.env.NEXT_PUBLIC_GITHUB_CLIENT_ID;
+  const clientSecret = mode === 'app' ? process.env.GITHUB_APP_CLIENT_SECRET : process.env.GITHUB_CLIENT_SECRET;
+  if (!clientId || !clientSecret) {
+    throw new Error(mode === 'app' ? 'The GitHub App is not configured' : 'GitHub OAuth is not configured');
+  }
+  return { clientId, clientSecret };
+}
+
+function randomToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+export interface AuthorizeRequest {
+  url: string;
+  state: string;
+  codeVerifier: string;
+}
+
+// Authorize URL with a fresh state and S256 PKCE challenge. The caller keeps
+// the state and verifier to check the callback against.
+export function buildAuthorizeRequest(redirectUri: string, mode: AuthMode): AuthorizeRequest {
+  const { clientId } = credentials(mode);
+  const state = randomToken();
+  const codeVerifier = randomToken();
+  const codeChallenge = createHash('sha256').update(codeVerifier).digest('base64url');
+
+  const params = new URLSearchParams({
+    client_id: clientId,
+    redirect_uri: redirectUri,
+    state,
+    code_challenge: codeChallenge,
+    code_challenge_method: 'S256',
+  });
+  // GitHub Apps get their access from the installation, not from scopes
+  if (mode === 'oauth') params.set('scope', 'repo,user');
+  return { url: `https://github.com/login/oauth/authorize?${params}`, state, codeVerifier };
+}
+
+// Trade the authorization code for an access token
+export async function exchangeCode(code: string, codeVerifier: string, redirectUri: string, mode: AuthMode): Promise<string> {
+  const { clientId, clientSecret } = credentials(mode);
+
+  const response = await fetch('https://github.com/login/oauth/access_token', {
+    method: 'POST',
+    headers: { 'Accept': 'application/json', 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      client_id: clientId,
+      client_secret: clientSecret,
+      code,
+      code_verifier: codeVerifier,
+      redirect_uri: redirectUri,
+    }),
+  });
+  if (!response.ok) throw new OAuthError(`Failed to exchange code for token: ${response.statusText}`, 'failed');
+
+  // GitHub reports a bad or reused code as a 200 with an error field
+  const data = await response.json();
+  if (data.error === 'bad_verification_code') {
+    throw new OAuthError('The authorization code expired or was already used', 'expired');
+  }
+  if (!data.access_token) throw new OAuthError(data.error_description || 'No access token received', 'failed');
+  return data.access_token;
+}
+
+export interface TokenUser {
+  login: string;
+  id: number;
+  name: string | null;
+}
+
+export async function getTokenUser(token: string): Promise<TokenUser> {
+  const response = await fetch(`${GITHUB_API}/user`, {
+    headers: { 'Authorization': `Bearer ${token}`, 'Accept': 'application/vnd.github.v3+json' },
+  });
+  if (!response.ok) throw new Error(`Failed to read the GitHub user: ${response.statusText}`);
+  const user = await response.json();
+  return { login: user.login, id: user.id, name: user.name };
+}
+
+// Revoke the token so it stops working even if it was copied somewhere
+export async function revokeToken(token: string, mode: AuthMode) {
+  const { clientId, clientSecret } = credentials(mode);
+
+  const response = await fetch(`${GITHUB_API}/applications/${clientId}/token`, {
+    method: 'DELETE',
+    headers: {
+      'Authorization': `Basic ${Buffer.from(`${clientId}:${clientSecret}`).toString('base64')}`,
+      'Accept': 'application/vnd.github.v3+json',
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ access_token: token }),
+  });
+
+  // 404 means the token was already revoked or expired
+  if (!response.ok && response.status !== 404) {
+    throw new Error(`Failed to revoke token: ${response.statusText}`);
+  }
+}
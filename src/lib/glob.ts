@@ -0,0 +1,62 @@
+// Minimal glob matching for repository paths
+//
+// Supports `*` (within a path segment), `**` (any number of segments),
+// `?` (single character) and `{a,b}` alternation. Paths are always
+// forward-slash separated and relative to the repository root.
+
+const regexCache = new Map<string, RegExp>();
+
+function escapeRegex(char: string): string {
+  return /[.+^$()|[\]\\]/.test(char) ? `\\${char}` : char;
+}
+
+export function globToRegExp(glob: string): RegExp {
+  const cached = regexCache.get(glob);
+  if (cached) return cached;
+
+  let pattern = '';
+  let inGroup = false;
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        // `**/` matches zero or more directories, a trailing `**` matches everything
+        if (glob[i + 2] === '/') {
+          pattern += '(?:.*/)?';
+          i += 2;
+        } else {
+          pattern += '.*';
+          i += 1;
+        }
+      } else {
+        pattern += '[^/]*';
+      }
+    } else if (char === '?') {
+      pattern += '[^/]';
+    } else if (char === '{') {
+      inGroup = true;
+      pattern += '(?:';
+    } else if (char === '}' && inGroup) {
+      inGroup = false;
+      pattern += ')';
+    } else if (char === ',' && inGroup) {
+      pattern += '|';
+    } else {
+      pattern += escapeRegex(char);
+    }
+  }
+
+  const regex = new RegExp(`^${pattern}$`);
+  regexCache.set(glob, regex);
+  return regex;
+}
+
+export function matchesGlob(path: string, glob: string): boolean {
+  return globToRegExp(glob).test(path);
+}
+
+export function matchesAnyGlob(path: string, globs: string[]): boolean {
+  return globs.some((glob) => matchesGlob(path, glob));
+}
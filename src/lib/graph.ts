@@ -0,0 +1,153 @@
+// Shared infrastructure graph types
+
+import type { Node, Edge } from '@xyflow/react';
+import type { ComposeService } from './compose';
+
+export const NODE_KINDS = [
+  'loadbalancer',
+  'cdn',
+  'service',
+  'job',
+  'queue',
+  'cache',
+  'database',
+  'storage',
+  'secret',
+  'network',
+  'external',
+] as const;
+
+export type NodeKind = (typeof NODE_KINDS)[number];
+
+// Compose entry a node added from the palette would become once it is written
+// to a file
+export interface NodeTemplate {
+  section: 'services' | 'networks' | 'secrets';
+  config: Record<string, unknown>;
+  // Named volumes the entry mounts, added to the top-level `volumes`
+  volumes?: string[];
+}
+
+// Node data types
+export interface NodeData extends Record<string, unknown> {
+  label: string;
+  type: string;
+  details?: string;
+  serviceName?: string;
+  dockerComposeConfig?: ComposeService;
+  // Repository path of the file this node was parsed from
+  sourcePath?: string;
+  // Top-level compose volume or network the node stands for
+  volumeName?: string;
+  networkName?: string;
+  // Terraform address, resource type and sizing attributes, for nodes parsed from .tf files
+  terraformAddress?: string;
+  resourceType?: string;
+  resourceSize?: Record<string, string>;
+  // Kubernetes object kind and namespace, for nodes parsed from manifests
+  kubernetesKind?: string;
+  namespace?: string;
+  // Free-form annotation added by the user
+  note?: string;
+  // Set on nodes added from the palette that are not in any source file yet
+  template?: NodeTemplate;
+}
+
+export type InfraNode = Node<NodeData>;
+
+export interface InfraGraph {
+  nodes: InfraNode[];
+  edges: Edge[];
+}
+
+const COLUMN_WIDTH = 320;
+const ROW_HEIGHT = 160;
+
+// Accumulates parsed nodes and edges. Nodes are stacked in one column per kind
+// and duplicate edges between the same pair of nodes are dropped.
+export function createGraphBuilder() {
+  const nodes: InfraNode[] = [];
+  const edges: Edge[] = [];
+  const edgeIds = new Set<string>();
+  // One column per kind, in the order the kinds first appear
+  const columns = new Map<NodeKind, { x: number; rows: number }>();
+  const column = (kind: NodeKind) => {
+    if (!columns.has(kind)) columns.set(kind, { x: columns.size * COLUMN_WIDTH, rows: 0 });
+    return columns.get(kind)!;
+  };
+
+  return {
+    addNode(id: string, kind: NodeKind, data: Pick<NodeData, 'label'> & Partial<NodeData>) {
+      nodes.push({
+        id,
+        type: kind,
+        position: { x: column(kind).x, y: column(kind).rows++ * ROW_HEIGHT },
+        data: { ...data, type: kind },
+      });
+    },
+
+    addEdge(source: string, target: string, label?: string, animated = false) {
+      const id = `${source}->${target}`;
+      if (edgeIds.has(id) || source === target) return;
+      edgeIds.add(id);
+      edges.push({ id, source, target, label, animated });
+    },
+
+    build(): InfraGraph {
+      return { nodes, edges };
+    },
+  };
+}
+
+// Merge a secondary graph into a primary one, skipping nodes and edges the primary
+// already has. Nodes are matched by ID or by compose file and service name, so a
+// freshly parsed graph can be topped up from a stale backend one. Services with
+// the same name in different compose files stay separate; secondary nodes that
+// don't say which file they came from match a service of that name in any file.
+export function mergeGraphs(primary: InfraGraph, secondary: InfraGraph): InfraGraph {
+  const nodeIds = new Set(primary.nodes.map((node) => node.id));
+  // Secondary node IDs to the primary nodes they matched
+  const idMap = new Map<string, string>();
+  // Primary service nodes by file and name, and by name alone
+  const serviceIds = new Map<string, string>();
+  const serviceNameIds = new Map<string, string>();
+  const serviceKey = (sourcePath: string | undefined, serviceName: string) => `${sourcePath ?? ''}\0${serviceName}`;
+
+  for (const node of primary.nodes) {
+    const { serviceName, sourcePath } = node.data;
+    if (!serviceName) continue;
+    serviceIds.set(serviceKey(sourcePath, serviceName), node.id);
+    if (!serviceNameIds.has(serviceName)) serviceNameIds.set(serviceName, node.id);
+  }
+
+  const nodes = [...primary.nodes];
+  for (const node of secondary.nodes) {
+    const { serviceName, sourcePath } = node.data;
+    let existingId: string | undefined;
+    if (serviceName) {
+      existingId = sourcePath ? serviceIds.get(serviceKey(sourcePath, serviceName)) : serviceNameIds.get(serviceName);
+    }
+    if (existingId) {
+      idMap.set(node.id, existingId);
+      continue;
+    }
+    if (nodeIds.has(node.id)) continue;
+
+    nodes.push(node);
+    nodeIds.add(node.id);
+  }
+
+  const edgeKeys = new Set(primary.edges.map((edge) => `${edge.source}->${edge.target}`));
+  const edges = [...primary.edges];
+  for (const edge of secondary.edges) {
+    const source = idMap.get(edge.source) ?? edge.source;
+    const target = idMap.get(edge.target) ?? edge.target;
+    const key = `${source}->${target}`;
+    if (edgeKeys.has(key) || !nodeIds.has(source) || !nodeIds.has(target)) continue;
+
+    edges.push({ ...edge, id: key, source, target });
+    edgeKeys.add(key);
+  }
+
+  return { nodes, edges };
+}
@@ -0,0 +1,142 @@
+// Translate edits made on the graph into changes to the files behind it
+//
+// Only docker-compose nodes can be edited this way for now: connecting two
+// services adds a depends_on entry and a connection variable to the consumer,
+// deleting a service or named volume removes its block and references to it,
+// and adding a node from the palette writes out its template.
+
+import { Document } from 'yaml';
+import { ChangeSet, FileChange } from './changes';
+import {
+  addDependency,
+  addEntry,
+  addEnvironmentVariable,
+  connectionEnv,
+  editCompose,
+  hasEntry,
+  hasService,
+  hasVolume,
+  removeService,
+  removeVolume,
+} from './composeEdit';
+import type { InfraNode } from './graph';
+
+export type GraphEdit =
+  | { kind: 'add'; node: InfraNode }
+  | { kind: 'connect'; source: InfraNode; target: InfraNode }
+  | { kind: 'remove'; node: InfraNode };
+
+function isComposeService(node: InfraNode): boolean {
+  return Boolean(node.data.serviceName && node.data.dockerComposeConfig && node.data.sourcePath);
+}
+
+function isComposeVolume(node: InfraNode): boolean {
+  return Boolean(node.data.volumeName && node.data.sourcePath);
+}
+
+// Compose file an edit applies to, if it can be expressed in one
+export function editSourcePath(edit: GraphEdit): string | undefined {
+  if (edit.kind === 'add') return edit.node.data.template ? edit.node.data.sourcePath : undefined;
+  if (edit.kind === 'connect') {
+    const { source, target } = edit;
+    return isComposeService(source) && isComposeService(target) && source.data.sourcePath === target.data.sourcePath
+      ? source.data.sourcePath
+      : undefined;
+  }
+  return isComposeService(edit.node) || isComposeVolume(edit.node) ? edit.node.data.sourcePath : undefined;
+}
+
+// Name of the compose entry a palette node becomes, without its ID prefix
+function templateName(node: InfraNode): string {
+  return node.data.serviceName ?? node.data.label;
+}
+
+function describeEdit(edit: GraphEdit): string {
+  if (edit.kind === 'add') {
+    return `Add ${edit.node.data.template?.section.replace(/s$/, '')} ${templateName(edit.node)}`;
+  }
+  if (edit.kind === 'connect') {
+    return `Connect ${edit.source.data.serviceName} to ${edit.target.data.serviceName}`;
+  }
+  return isComposeVolume(edit.node)
+    ? `Remove volume ${edit.node.data.volumeName}`
+    : `Remove service ${edit.node.data.serviceName}`;
+}
+
+// Returns false when the file no longer has what the edit refers to
+function applyEdit(doc: Document, edit: GraphEdit): boolean {
+  if (edit.kind === 'add') {
+    const { section, config, volumes = [] } = edit.node.data.template!;
+    const name = templateName(edit.node);
+    if (hasEntry(doc, section, name)) return false;
+
+    addEntry(doc, section, name, config);
+    for (const volume of volumes) addEntry(doc, 'volumes', volume, {});
+    return true;
+  }
+  if (edit.kind === 'connect') {
+    const source = edit.source.data.serviceName as string;
+    const target = edit.target.data.serviceName as string;
+    if (!hasService(doc, source) || !hasService(doc, target)) return false;
+
+    const targetConfig = edit.target.data.dockerComposeConfig ?? {};
+    // Wait for the dependency to be healthy when it defines a healthcheck
+    addDependency(doc, source, target, targetConfig.healthcheck && !targetConfig.healthcheck.disable ? 'service_healthy' : undefined);
+    const env = connectionEnv(target, targetConfig);
+    addEnvironmentVariable(doc, source, env.name, env.value);
+    return true;
+  }
+
+  if (isComposeVolume(edit.node)) {
+    const volume = edit.node.data.volumeName as string;
+    if (!hasVolume(doc, volume)) return false;
+    removeVolume(doc, volume);
+    return true;
+  }
+
+  const service = edit.node.data.serviceName as string;
+  if (!hasService(doc, service)) return false;
+  removeService(doc, service);
+  return true;
+}
+
+// Build one change set for a batch of graph edits. Each file is read once and
+// all edits to it are applied together. Edits that cannot be expressed in a
+// source file are skipped; returns null when none can.
+export async function changeSetForEdits(
+  edits: GraphEdit[],
+  readFile: (path: string) => Promise<string>
+): Promise<ChangeSet | null> {
+  const byPath = new Map<string, GraphEdit[]>();
+  for (const edit of edits) {
+    const path = editSourcePath(edit);
+    if (path) byPath.set(path, [...(byPath.get(path) ?? []), edit]);
+  }
+
+  const files: FileChange[] = [];
+  for (const [path, fileEdits] of byPath) {
+    const oldContent = await readFile(path);
+    const applied: GraphEdit[] = [];
+    const newContent = editCompose(oldContent, (doc) => {
+      for (const edit of fileEdits) {
+        if (applyEdit(doc, edit)) applied.push(edit);
+      }
+    });
+
+    if (applied.length > 0 && newContent !== oldContent) {
+      files.push({
+        path,
+        oldContent,
+        newContent,
+        description: applied.map(describeEdit).join('; '),
+        status: oldContent ? 'modified' : 'added',
+      });
+    }
+  }
+
+  if (files.length === 0) return null;
+  return {
+    description: files.length === 1 ? files[0].description : `Update ${files.length} compose files from graph edits`,
+    files,
+  };
+}
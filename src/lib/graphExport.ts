@@ -0,0 +1,325 @@
+// Export the infrastructure graph as a diagram
+//
+// Mermaid and DOT are generated from the graph itself, so they stay readable when
+// re-rendered elsewhere. The SVG is drawn from node positions and sizes and is
+// self-contained (no stylesheets or fonts to resolve); the PNG is that SVG
+// rasterized at a higher scale.
+
+import type { Edge } from '@xyflow/react';
+import { nodeSize } from './layout';
+import { NODE_CATALOG, isNodeKind, nodeKindInfo } from './nodeCatalog';
+import type { InfraGraph, InfraNode, NodeKind } from './graph';
+
+export type ExportFormat = 'png' | 'svg' | 'mermaid' | 'dot';
+
+const GROUP_TYPES = ['namespace'];
+
+function isGroup(node: InfraNode): boolean {
+  return GROUP_TYPES.includes(node.type ?? '');
+}
+
+function edgeLabel(edge: Edge): string | undefined {
+  return typeof edge.label === 'string' || typeof edge.label === 'number' ? String(edge.label) : undefined;
+}
+
+// Children of each group, and the nodes that are not in any group
+function groupMembers(graph: InfraGraph) {
+  const ids = new Set(graph.nodes.map((node) => node.id));
+  const members = new Map<string, InfraNode[]>();
+  const topLevel: InfraNode[] = [];
+  for (const node of graph.nodes) {
+    if (node.parentId && ids.has(node.parentId)) {
+      members.set(node.parentId, [...(members.get(node.parentId) ?? []), node]);
+    } else {
+      topLevel.push(node);
+    }
+  }
+  return { members, topLevel };
+}
+
+// Mermaid
+
+// Mermaid IDs may only contain word characters
+function mermaidIds(graph: InfraGraph): Map<string, string> {
+  const ids = new Map<string, string>();
+  const used = new Set<string>();
+  for (const node of graph.nodes) {
+    const base = node.id.replace(/\W+/g, '_').replace(/^_+|_+$/g, '') || 'node';
+    let id = /^\d/.test(base) ? `n_${base}` : base;
+    for (let i = 2; used.has(id); i++) id = `${base}_${i}`;
+    used.add(id);
+    ids.set(node.id, id);
+  }
+  return ids;
+}
+
+function mermaidText(text: string): string {
+  return `"${text.replace(/"/g, '#quot;')}"`;
+}
+
+const MERMAID_SHAPES: Record<NodeKind, [string, string]> = {
+  loadbalancer: ['{{', '}}'],
+  cdn: ['((', '))'],
+  service: ['[', ']'],
+  job: ['[[', ']]'],
+  queue: ['[/', '/]'],
+  cache: ['[(', ')]'],
+  database: ['[(', ')]'],
+  storage: ['[(', ')]'],
+  secret: ['[/', '\\]'],
+  network: ['([', '])'],
+  external: ['>', ']'],
+};
+
+export function toMermaid(graph: InfraGraph, direction: 'TB' | 'LR' = 'TB'): string {
+  const ids = mermaidIds(graph);
+  const { members, topLevel } = groupMembers(graph);
+  const lines = [`flowchart ${direction}`];
+
+  const writeNode = (node: InfraNode, indent: string) => {
+    const id = ids.get(node.id) as string;
+    const children = members.get(node.id);
+    if (children || isGroup(node)) {
+      lines.push(`${indent}subgraph ${id} [${mermaidText(`${node.type}: ${node.data.label}`)}]`);
+      for (const child of children ?? []) writeNode(child, `${indent}  `);
+      lines.push(`${indent}end`);
+      return;
+    }
+    const [open, close] = MERMAID_SHAPES[isNodeKind(node.type) ? node.type : 'service'];
+    lines.push(`${indent}${id}${open}${mermaidText(node.data.label)}${close}`);
+  };
+  for (const node of topLevel) writeNode(node, '  ');
+
+  for (const edge of graph.edges) {
+    const source = ids.get(edge.source);
+    const target = ids.get(edge.target);
+    if (!source || !target) continue;
+    const arrow = edge.animated ? '-.->' : '-->';
+    const label = edgeLabel(edge);
+    lines.push(`  ${source} ${arrow}${label ? `|${mermaidText(label)}|` : ''} ${target}`);
+  }
+
+  // One class per node kind, so the diagram keeps the canvas colours
+  const kinds = new Map<NodeKind, string[]>();
+  for (const node of graph.nodes) {
+    if (isNodeKind(node.type)) kinds.set(node.type, [...(kinds.get(node.type) ?? []), ids.get(node.id) as string]);
+  }
+  for (const [kind, members] of kinds) {
+    lines.push(`  classDef ${kind} stroke:${NODE_CATALOG[kind].color},stroke-width:2px`);
+    lines.push(`  class ${members.join(',')} ${kind}`);
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+// Graphviz DOT
+
+function dotText(text: string): string {
+  return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+}
+
+const DOT_SHAPES: Record<NodeKind, string> = {
+  loadbalancer: 'hexagon',
+  cdn: 'ellipse',
+  service: 'box',
+  job: 'component',
+  queue: 'parallelogram',
+  cache: 'cylinder',
+  database: 'cylinder',
+  storage: 'folder',
+  secret: 'note',
+  network: 'octagon',
+  external: 'box3d',
+};
+
+export function toDot(graph: InfraGraph, direction: 'TB' | 'LR' = 'TB'): string {
+  const { members, topLevel } = groupMembers(graph);
+  const lines = [
+    'digraph infrastructure {',
+    `  rankdir=${direction};`,
+    '  node [shape=box, style="rounded,filled", fillcolor="#1e293b", fontcolor="#ffffff", fontname="Helvetica"];',
+    '  edge [color="#64748b", fontname="Helvetica", fontsize=10];',
+  ];
+
+  const writeNode = (node: InfraNode, indent: string) => {
+    const children = members.get(node.id);
+    if (children || isGroup(node)) {
+      lines.push(`${indent}subgraph ${dotText(`cluster_${node.id}`)} {`);
+      lines.push(`${indent}  label=${dotText(`${node.type}: ${node.data.label}`)};`);
+      lines.push(`${indent}  style=dashed; color="#94a3b8";`);
+      for (const child of children ?? []) writeNode(child, `${indent}  `);
+      lines.push(`${indent}}`);
+      return;
+    }
+    const info = nodeKindInfo(node.type);
+    const shape = DOT_SHAPES[isNodeKind(node.type) ? node.type : 'service'];
+    const label = `${node.data.label}\n${info.label}`;
+    lines.push(`${indent}${dotText(node.id)} [label=${dotText(label)}, shape=${shape}, color="${info.color}"];`);
+  };
+  for (const node of topLevel) writeNode(node, '  ');
+
+  const nodeIds = new Set(graph.nodes.map((node) => node.id));
+  for (const edge of graph.edges) {
+    if (!nodeIds.has(edge.source) || !nodeIds.has(edge.target)) continue;
+    const attributes = [
+      ...(edgeLabel(edge) ? [`label=${dotText(edgeLabel(edge) as string)}`] : []),
+      ...(edge.animated ? ['style=dashed'] : []),
+    ];
+    lines.push(`  ${dotText(edge.source)} -> ${dotText(edge.target)}${attributes.length ? ` [${attributes.join(', ')}]` : ''};`);
+  }
+
+  lines.push('}');
+  return `${lines.join('\n')}\n`;
+}
+
+// SVG
+
+const SVG_PADDING = 40;
+const SVG_FONT = 'ui-sans-serif, system-ui, -apple-system, Helvetica, Arial, sans-serif';
+
+function xml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Absolute canvas box of every node; child positions are relative to their parent
+function absoluteBoxes(graph: InfraGraph): Map<string, Box> {
+  const byId = new Map(graph.nodes.map((node) => [node.id, node]));
+  const boxes = new Map<string, Box>();
+
+  const boxOf = (node: InfraNode): Box => {
+    const known = boxes.get(node.id);
+    if (known) return known;
+    const parent = node.parentId ? byId.get(node.parentId) : undefined;
+    const origin = parent ? boxOf(parent) : { x: 0, y: 0 };
+    const box = { x: origin.x + node.position.x, y: origin.y + node.position.y, ...nodeSize(node) };
+    boxes.set(node.id, box);
+    return box;
+  };
+  graph.nodes.forEach(boxOf);
+  return boxes;
+}
+
+export function toSvg(graph: InfraGraph): string {
+  const boxes = absoluteBoxes(graph);
+  const all = [...boxes.values()];
+  const minX = Math.min(0, ...all.map((box) => box.x)) - SVG_PADDING;
+  const minY = Math.min(0, ...all.map((box) => box.y)) - SVG_PADDING;
+  const width = Math.max(0, ...all.map((box) => box.x + box.width)) - minX + SVG_PADDING;
+  const height = Math.max(0, ...all.map((box) => box.y + box.height)) - minY + SVG_PADDING;
+
+  const parts: string[] = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="${minX} ${minY} ${width} ${height}" font-family="${SVG_FONT}">`,
+    '<defs><marker id="arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse">' +
+      '<path d="M 0 0 L 10 5 L 0 10 z" fill="#94a3b8"/></marker></defs>',
+    `<rect x="${minX}" y="${minY}" width="${width}" height="${height}" fill="#0f172a"/>`,
+  ];
+
+  // Groups behind everything else
+  for (const node of graph.nodes.filter(isGroup)) {
+    const box = boxes.get(node.id) as Box;
+    parts.push(
+      `<g><rect x="${box.x}" y="${box.y}" width="${box.width}" height="${box.height}" rx="12" fill="#ffffff0d" stroke="#ffffff4d" stroke-dasharray="6 4"/>` +
+        `<text x="${box.x + 16}" y="${box.y + 24}" font-size="12" fill="#9ca3af" font-family="monospace">${xml(`${node.type}: ${node.data.label}`.toUpperCase())}</text></g>`
+    );
+  }
+
+  // Edges from the bottom of the source to the top of the target
+  for (const edge of graph.edges) {
+    const source = boxes.get(edge.source);
+    const target = boxes.get(edge.target);
+    if (!source || !target) continue;
+    const x1 = source.x + source.width / 2;
+    const y1 = source.y + source.height;
+    const x2 = target.x + target.width / 2;
+    const y2 = target.y;
+    const bend = Math.max(40, Math.abs(y2 - y1) / 2);
+    parts.push(
+      `<path d="M ${x1} ${y1} C ${x1} ${y1 + bend}, ${x2} ${y2 - bend}, ${x2} ${y2}" fill="none" stroke="#94a3b8" stroke-width="1.5"` +
+        `${edge.animated ? ' stroke-dasharray="5 5"' : ''} marker-end="url(#arrow)"/>`
+    );
+    const label = edgeLabel(edge);
+    if (label) {
+      parts.push(
+        `<text x="${(x1 + x2) / 2}" y="${(y1 + y2) / 2}" font-size="11" fill="#cbd5e1" text-anchor="middle">${xml(label)}</text>`
+      );
+    }
+  }
+
+  for (const node of graph.nodes.filter((node) => !isGroup(node))) {
+    const box = boxes.get(node.id) as Box;
+    const info = nodeKindInfo(node.type);
+    const dashed = node.type === 'external' ? ' stroke-dasharray="6 4"' : '';
+    parts.push(
+      '<g>' +
+        `<rect x="${box.x}" y="${box.y}" width="${box.width}" height="${box.height}" rx="8" fill="#1e293b" stroke="${info.color}" stroke-width="2"${dashed}/>` +
+        `<circle cx="${box.x + 22}" cy="${box.y + 24}" r="6" fill="${info.color}"/>` +
+        `<text x="${box.x + 36}" y="${box.y + 29}" font-size="15" font-weight="600" fill="#ffffff">${xml(node.data.label)}</text>` +
+        `<text x="${box.x + 16}" y="${box.y + 54}" font-size="13" fill="#d1d5db">${xml(info.label)}</text>` +
+        (node.data.details
+          ? `<text x="${box.x + 16}" y="${box.y + 74}" font-size="11" fill="#9ca3af">${xml(node.data.details.slice(0, 48))}</text>`
+          : '') +
+        '</g>'
+    );
+  }
+
+  parts.push('</svg>');
+  return parts.join('\n');
+}
+
+// Rasterize an SVG document, `scale` times its size
+export function svgToPng(svg: string, scale = 2): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = image.width * scale;
+      canvas.height = image.height * scale;
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('Canvas is not supported'));
+        return;
+      }
+      context.scale(scale, scale);
+      context.drawImage(image, 0, 0);
+      canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Failed to render PNG'))), 'image/png');
+    };
+    image.onerror = () => reject(new Error('Failed to load SVG'));
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  });
+}
+
+export function downloadFile(filename: string, content: Blob | string, type = 'text/plain') {
+  const blob = typeof content === 'string' ? new Blob([content], { type }) : content;
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// README
+
+const README_START = '<!-- terra:architecture:start -->';
+const README_END = '<!-- terra:architecture:end -->';
+
+// Put the Mermaid diagram into a README, replacing the one added before or
+// appending an Architecture section
+export function upsertReadmeDiagram(readme: string, mermaid: string): string {
+  const block = `${README_START}\n\`\`\`mermaid\n${mermaid.trimEnd()}\n\`\`\`\n${README_END}`;
+  const start = readme.indexOf(README_START);
+  const end = readme.indexOf(README_END);
+  if (start !== -1 && end > start) {
+    return readme.slice(0, start) + block + readme.slice(end + README_END.length);
+  }
+
+  const section = `## Architecture\n\n${block}\n`;
+  return readme.trim() ? `${readme.trimEnd()}\n\n${section}` : section;
+}
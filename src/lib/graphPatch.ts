@@ -0,0 +1,351 @@
+// Typed graph patches proposed by the chat assistant
+//
+// A patch is a list of operations on nodes and edges. Patches are previewed on
+// top of the current graph and each operation can be accepted or rejected on
+// its own before it touches the graph.
+
+import type { CSSProperties } from 'react';
+import type { Edge, XYPosition } from '@xyflow/react';
+import type { GraphChanges } from './chatStream';
+import type { InfraGraph, InfraNode, NodeData } from './graph';
+
+export type EdgeChanges = Partial<Pick<Edge, 'source' | 'target' | 'label' | 'animated'>>;
+
+export type GraphPatchOperation =
+  | { op: 'add_node'; node: InfraNode }
+  | { op: 'update_node'; id: string; data?: Partial<NodeData>; position?: XYPosition; style?: CSSProperties }
+  | { op: 'remove_node'; id: string }
+  | { op: 'add_edge'; edge: Edge }
+  | { op: 'update_edge'; id: string; changes: EdgeChanges }
+  | { op: 'remove_edge'; id: string };
+
+export interface GraphPatch {
+  description?: string;
+  operations: GraphPatchOperation[];
+}
+
+export type PatchStatus = 'add' | 'update' | 'remove';
+
+// Class names used to render patch previews; styled in globals.css
+export const PATCH_CLASSES: Record<PatchStatus, string> = {
+  add: 'graph-patch-add',
+  update: 'graph-patch-update',
+  remove: 'graph-patch-remove',
+};
+
+const NEW_NODE_OFFSET = 160;
+
+// Accept both the `operations` list and the older `nodes`/`edges` lists of a chat
+// response. The older lists only ever add elements.
+export function patchFromChanges(changes: GraphChanges): GraphPatch {
+  return {
+    description: changes.description,
+    operations: [
+      ...(changes.nodes ?? []).map((node): GraphPatchOperation => ({ op: 'add_node', node })),
+      ...(changes.edges ?? []).map((edge): GraphPatchOperation => ({ op: 'add_edge', edge })),
+      ...(changes.operations ?? []),
+    ],
+  };
+}
+
+export function operationTarget(op: GraphPatchOperation): string {
+  switch (op.op) {
+    case 'add_node':
+      return op.node.id;
+    case 'add_edge':
+      return op.edge.id;
+    default:
+      return op.id;
+  }
+}
+
+function isNodeOperation(op: GraphPatchOperation): boolean {
+  return op.op === 'add_node' || op.op === 'update_node' || op.op === 'remove_node';
+}
+
+// Resolve a patch against the graph it will be applied to. Adds of elements that
+// already exist become updates, operations on missing elements are dropped, and
+// later operations on the same element replace earlier ones.
+export function normalizePatch(graph: InfraGraph, patch: GraphPatch): GraphPatch {
+  const nodeIds = new Set(graph.nodes.map((node) => node.id));
+  const edgesById = new Map(graph.edges.map((edge) => [edge.id, edge]));
+  const edgeIdsByEndpoints = new Map(graph.edges.map((edge) => [`${edge.source}->${edge.target}`, edge.id]));
+
+  const resolved = new Map<string, GraphPatchOperation>();
+  const addedNodeIds = new Set<string>();
+  let nextY = Math.max(0, ...graph.nodes.map((node) => node.position.y)) + NEW_NODE_OFFSET;
+
+  for (const op of patch.operations) {
+    let next: GraphPatchOperation | null = op;
+
+    switch (op.op) {
+      case 'add_node':
+        if (nodeIds.has(op.node.id)) {
+          next = { op: 'update_node', id: op.node.id, data: op.node.data };
+        } else {
+          addedNodeIds.add(op.node.id);
+          // Nodes proposed without a position are stacked below the graph
+          if (!op.node.position) {
+            next = { op: 'add_node', node: { ...op.node, position: { x: 0, y: nextY } } };
+            nextY += NEW_NODE_OFFSET;
+          }
+        }
+        break;
+
+      case 'add_edge': {
+        const key = `${op.edge.source}->${op.edge.target}`;
+        const existingId = edgesById.has(op.edge.id) ? op.edge.id : edgeIdsByEndpoints.get(key);
+        if (existingId) {
+          const { label, animated } = op.edge;
+          const existing = edgesById.get(existingId);
+          next = existing?.label === label && existing?.animated === animated
+            ? null
+            : { op: 'update_edge', id: existingId, changes: { label, animated } };
+        } else {
+          next = { op: 'add_edge', edge: { ...op.edge, id: op.edge.id || key } };
+        }
+        break;
+      }
+
+      case 'update_node':
+      case 'remove_node': {
+        // Follow-up operations on a node added earlier in the same patch fold into its add
+        const added = resolved.get(`node:${op.id}`);
+        if (added?.op === 'add_node' && !nodeIds.has(op.id)) {
+          if (op.op === 'remove_node') {
+            resolved.delete(`node:${op.id}`);
+            addedNodeIds.delete(op.id);
+            next = null;
+          } else {
+            next = {
+              op: 'add_node',
+              node: {
+                ...added.node,
+                position: op.position ?? added.node.position,
+                style: op.style ?? added.node.style,
+                data: { ...added.node.data, ...op.data },
+              },
+            };
+          }
+        } else if (!nodeIds.has(op.id)) {
+          next = null;
+        }
+        break;
+      }
+
+      case 'update_edge':
+      case 'remove_edge':
+        if (!edgesById.has(op.id)) next = null;
+        break;
+    }
+
+    if (!next) continue;
+    const key = `${isNodeOperation(next) ? 'node' : 'edge'}:${operationTarget(next)}`;
+    resolved.delete(key);
+    resolved.set(key, next);
+  }
+
+  // Edges must connect nodes that exist once the patch is applied
+  const finalNodeIds = new Set([...nodeIds, ...addedNodeIds]);
+  const operations = [...resolved.values()].filter(
+    (op) => op.op !== 'add_edge' || (finalNodeIds.has(op.edge.source) && finalNodeIds.has(op.edge.target))
+  );
+
+  return { description: patch.description, operations };
+}
+
+export function applyOperation(graph: InfraGraph, op: GraphPatchOperation): InfraGraph {
+  switch (op.op) {
+    case 'add_node':
+      return { ...graph, nodes: [...graph.nodes, op.node] };
+
+    case 'update_node':
+      return {
+        ...graph,
+        nodes: graph.nodes.map((node) =>
+          node.id === op.id
+            ? {
+                ...node,
+                position: op.position ?? node.position,
+                style: op.style ?? node.style,
+                data: { ...node.data, ...op.data },
+              }
+            : node
+        ),
+      };
+
+    // Removing a node also removes its edges and any nodes grouped inside it
+    case 'remove_node': {
+      const removed = new Set([op.id]);
+      for (const node of graph.nodes) {
+        if (node.parentId && removed.has(node.parentId)) removed.add(node.id);
+      }
+      return {
+        nodes: graph.nodes.filter((node) => !removed.has(node.id)),
+        edges: graph.edges.filter((edge) => !removed.has(edge.source) && !removed.has(edge.target)),
+      };
+    }
+
+    case 'add_edge':
+      return { ...graph, edges: [...graph.edges, op.edge] };
+
+    case 'update_edge':
+      return {
+        ...graph,
+        edges: graph.edges.map((edge) => (edge.id === op.id ? { ...edge, ...op.changes } : edge)),
+      };
+
+    case 'remove_edge':
+      return { ...graph, edges: graph.edges.filter((edge) => edge.id !== op.id) };
+  }
+}
+
+export function applyPatch(graph: InfraGraph, operations: GraphPatchOperation[]): InfraGraph {
+  return operations.reduce(applyOperation, graph);
+}
+
+// Operations that undo `op` when applied to `graph` after it
+function invertOperation(graph: InfraGraph, op: GraphPatchOperation): GraphPatchOperation[] {
+  switch (op.op) {
+    case 'add_node':
+      return [{ op: 'remove_node', id: op.node.id }];
+
+    case 'update_node': {
+      const node = graph.nodes.find((n) => n.id === op.id);
+      if (!node) return [];
+      const data = Object.fromEntries(Object.keys(op.data ?? {}).map((key) => [key, node.data[key]]));
+      return [{ op: 'update_node', id: op.id, data, position: op.position && node.position, style: op.style && node.style }];
+    }
+
+    // Restore the node, its grouped children and every edge that went with them
+    case 'remove_node': {
+      const removed = new Set([op.id]);
+      for (const node of graph.nodes) {
+        if (node.parentId && removed.has(node.parentId)) removed.add(node.id);
+      }
+      return [
+        ...graph.nodes.filter((node) => removed.has(node.id)).map((node): GraphPatchOperation => ({ op: 'add_node', node })),
+        ...graph.edges
+          .filter((edge) => removed.has(edge.source) || removed.has(edge.target))
+          .map((edge): GraphPatchOperation => ({ op: 'add_edge', edge })),
+      ];
+    }
+
+    case 'add_edge':
+      return [{ op: 'remove_edge', id: op.edge.id }];
+
+    case 'update_edge': {
+      const edge = graph.edges.find((e) => e.id === op.id);
+      if (!edge) return [];
+      const changes = Object.fromEntries(Object.keys(op.changes).map((key) => [key, edge[key as keyof EdgeChanges]]));
+      return [{ op: 'update_edge', id: op.id, changes }];
+    }
+
+    case 'remove_edge': {
+      const edge = graph.edges.find((e) => e.id === op.id);
+      return edge ? [{ op: 'add_edge', edge }] : [];
+    }
+  }
+}
+
+// Operations that undo `operations` when applied to the graph they produce
+export function invertOperations(graph: InfraGraph, operations: GraphPatchOperation[]): GraphPatchOperation[] {
+  const inverses: GraphPatchOperation[][] = [];
+  let current = graph;
+  for (const op of operations) {
+    inverses.unshift(invertOperation(current, op));
+    current = applyOperation(current, op);
+  }
+  return inverses.flat();
+}
+
+// Indices of the operations that have to be accepted or rejected together with
+// the one at `index`: an added edge needs its added endpoints, and rejecting an
+// added node rejects the edges that would connect to it.
+export function relatedOperations(patch: GraphPatch, index: number, mode: 'accept' | 'reject'): number[] {
+  const op = patch.operations[index];
+  const related = new Set([index]);
+
+  patch.operations.forEach((other, i) => {
+    if (mode === 'accept' && (op.op === 'add_edge' || op.op === 'update_edge')) {
+      const endpoints = op.op === 'add_edge' ? [op.edge.source, op.edge.target] : [op.changes.source, op.changes.target];
+      if (other.op === 'add_node' && endpoints.includes(other.node.id)) related.add(i);
+    }
+    if (mode === 'reject' && op.op === 'add_node') {
+      if (other.op === 'add_edge' && (other.edge.source === op.node.id || other.edge.target === op.node.id)) related.add(i);
+      if (other.op === 'update_edge' && (other.changes.source === op.node.id || other.changes.target === op.node.id)) related.add(i);
+    }
+  });
+
+  return [...related].sort((a, b) => a - b);
+}
+
+export function describeOperation(op: GraphPatchOperation): string {
+  switch (op.op) {
+    case 'add_node':
+      return `Add ${op.node.data.type} "${op.node.data.label}"`;
+    case 'update_node': {
+      const fields = Object.keys(op.data ?? {});
+      return `Update ${op.id}${fields.length > 0 ? ` (${fields.join(', ')})` : ''}`;
+    }
+    case 'remove_node':
+      return `Remove ${op.id}`;
+    case 'add_edge':
+      return `Connect ${op.edge.source} → ${op.edge.target}`;
+    case 'update_edge':
+      return `Update connection ${op.id}`;
+    case 'remove_edge':
+      return `Remove connection ${op.id}`;
+  }
+}
+
+export function operationStatus(op: GraphPatchOperation): PatchStatus {
+  return op.op.startsWith('add') ? 'add' : op.op.startsWith('update') ? 'update' : 'remove';
+}
+
+// Nodes added by the patch, rendered as ghosts until they are accepted
+export function ghostNodes(patch: GraphPatch): InfraNode[] {
+  return patch.operations.flatMap((op) =>
+    op.op === 'add_node'
+      ? [{ ...op.node, className: PATCH_CLASSES.add, draggable: false, connectable: false, deletable: false }]
+      : []
+  );
+}
+
+// The graph with the patch's updates and removals highlighted and its added edges
+// drawn as ghosts. Added nodes are not included; see `ghostNodes`.
+export function previewPatch(graph: InfraGraph, patch: GraphPatch): InfraGraph {
+  const nodeOps = new Map<string, GraphPatchOperation>();
+  const edgeOps = new Map<string, GraphPatchOperation>();
+  for (const op of patch.operations) {
+    if (op.op === 'update_node' || op.op === 'remove_node') nodeOps.set(op.id, op);
+    if (op.op === 'update_edge' || op.op === 'remove_edge') edgeOps.set(op.id, op);
+  }
+
+  const nodes = graph.nodes.map((node) => {
+    const op = nodeOps.get(node.id);
+    if (op?.op === 'update_node') {
+      return { ...node, className: PATCH_CLASSES.update, data: { ...node.data, ...op.data } };
+    }
+    if (op?.op === 'remove_node') return { ...node, className: PATCH_CLASSES.remove };
+    return node;
+  });
+
+  const removedNodes = new Set(
+    patch.operations.flatMap((op) => (op.op === 'remove_node' ? [op.id] : []))
+  );
+  const edges = graph.edges.map((edge) => {
+    const op = edgeOps.get(edge.id);
+    if (op?.op === 'remove_edge' || removedNodes.has(edge.source) || removedNodes.has(edge.target)) {
+      return { ...edge, className: PATCH_CLASSES.remove };
+    }
+    if (op?.op === 'update_edge') return { ...edge, ...op.changes, className: PATCH_CLASSES.update };
+    return edge;
+  });
+
+  for (const op of patch.operations) {
+    if (op.op === 'add_edge') edges.push({ ...op.edge, className: PATCH_CLASSES.add, animated: true });
+  }
+
+  return { nodes, edges };
+}
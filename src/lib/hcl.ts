@@ -0,0 +1,293 @@
+// Lightweight HCL2 parser
+//
+// Parses the structural part of HCL (blocks, labels and attributes) and keeps
+// attribute expressions as source text. That is enough to build dependency graphs
+// without evaluating Terraform expressions.
+
+export interface HclAttribute {
+  name: string;
+  // Raw expression source, e.g. `"db-${var.env}"` or `google_sql_database_instance.main.name`
+  expression: string;
+  line: number;
+}
+
+export interface HclBlock {
+  type: string;
+  labels: string[];
+  body: HclBody;
+  line: number;
+}
+
+export interface HclBody {
+  attributes: Record<string, HclAttribute>;
+  blocks: HclBlock[];
+}
+
+export type HclLiteral = string | number | boolean | null;
+
+class HclParser {
+  private pos = 0;
+  // Offset each line starts at, so line numbers don't need a scan from the start
+  private readonly lineStarts: number[] = [0];
+
+  constructor(private readonly source: string) {
+    for (let i = source.indexOf('\n'); i !== -1; i = source.indexOf('\n', i + 1)) {
+      this.lineStarts.push(i + 1);
+    }
+  }
+
+  parse(): HclBody {
+    const body = this.parseBody();
+    this.skipTrivia();
+    if (this.pos < this.source.length) {
+      throw this.error(`Unexpected "${this.source[this.pos]}"`);
+    }
+    return body;
+  }
+
+  private error(message: string): Error {
+    return new Error(`HCL parse error on line ${this.lineAt(this.pos)}: ${message}`);
+  }
+
+  // Binary search for the last line starting at or before `pos`
+  private lineAt(pos: number): number {
+    let low = 0;
+    let high = this.lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (this.lineStarts[mid] <= pos) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return low + 1;
+  }
+
+  private peek(offset = 0): string {
+    return this.source[this.pos + offset] ?? '';
+  }
+
+  // Skip whitespace, newlines and comments between body items
+  private skipTrivia() {
+    while (this.pos < this.source.length) {
+      const char = this.peek();
+      if (/\s/.test(char)) {
+        this.pos++;
+      } else if (char === '#' || (char === '/' && this.peek(1) === '/')) {
+        while (this.pos < this.source.length && this.peek() !== '\n') this.pos++;
+      } else if (char === '/' && this.peek(1) === '*') {
+        const end = this.source.indexOf('*/', this.pos + 2);
+        this.pos = end === -1 ? this.source.length : end + 2;
+      } else {
+        return;
+      }
+    }
+  }
+
+  private skipInlineSpace() {
+    while (this.peek() === ' ' || this.peek() === '\t') this.pos++;
+  }
+
+  private readIdentifier(): string {
+    const match = /^[A-Za-z_][\w-]*/.exec(this.source.slice(this.pos, this.pos + 256));
+    if (!match) throw this.error(`Expected identifier, found "${this.peek()}"`);
+    this.pos += match[0].length;
+    return match[0];
+  }
+
+  private parseBody(): HclBody {
+    const body: HclBody = { attributes: {}, blocks: [] };
+
+    while (true) {
+      this.skipTrivia();
+      if (this.pos >= this.source.length || this.peek() === '}') return body;
+
+      const start = this.pos;
+      const name = this.readIdentifier();
+      this.skipInlineSpace();
+
+      if (this.peek() === '=' && this.peek(1) !== '=') {
+        this.pos++;
+        this.skipInlineSpace();
+        body.attributes[name] = { name, expression: this.readExpression(), line: this.lineAt(start) };
+        continue;
+      }
+
+      const labels: string[] = [];
+      while (this.peek() !== '{') {
+        if (this.peek() === '"') {
+          labels.push(this.readQuotedLabel());
+        } else if (/[A-Za-z_]/.test(this.peek())) {
+          labels.push(this.readIdentifier());
+        } else {
+          throw this.error(`Expected block label or "{" after "${name}"`);
+        }
+        this.skipInlineSpace();
+      }
+
+      this.pos++;
+      const blockBody = this.parseBody();
+      if (this.peek() !== '}') throw this.error(`Unclosed block "${name}"`);
+      this.pos++;
+
+      body.blocks.push({ type: name, labels, body: blockBody, line: this.lineAt(start) });
+    }
+  }
+
+  private readQuotedLabel(): string {
+    const start = this.pos;
+    this.skipString();
+    return JSON.parse(this.source.slice(start, this.pos));
+  }
+
+  // Advance past a quoted template string, including nested interpolations
+  private skipString() {
+    this.pos++;
+    while (this.pos < this.source.length) {
+      const char = this.peek();
+      if (char === '\\') {
+        this.pos += 2;
+      } else if (char === '"') {
+        this.pos++;
+        return;
+      } else if ((char === '$' || char === '%') && this.peek(1) === '{') {
+        this.pos += 2;
+        this.skipNested('}');
+      } else if (char === '\n') {
+        throw this.error('Unterminated string');
+      } else {
+        this.pos++;
+      }
+    }
+    throw this.error('Unterminated string');
+  }
+
+  // Advance past `<<EOF ... EOF` or `<<-EOF ... EOF`
+  private skipHeredoc() {
+    const match = /^<<-?([A-Za-z_][\w-]*)[^\n]*\n/.exec(this.source.slice(this.pos));
+    if (!match) throw this.error('Invalid heredoc');
+    const marker = match[1];
+    this.pos += match[0].length;
+
+    const terminator = new RegExp(`^[ \\t]*${marker}[ \\t]*$`, 'm');
+    const rest = this.source.slice(this.pos);
+    const end = terminator.exec(rest);
+    if (!end) throw this.error(`Unterminated heredoc "${marker}"`);
+    this.pos += end.index + end[0].length;
+  }
+
+  // Advance until the matching closing bracket at the current nesting level
+  private skipNested(close: string) {
+    while (this.pos < this.source.length) {
+      const char = this.peek();
+      if (char === close) {
+        this.pos++;
+        return;
+      }
+      this.skipExpressionChar();
+    }
+    throw this.error(`Expected "${close}"`);
+  }
+
+  private skipExpressionChar() {
+    const char = this.peek();
+    if (char === '"') {
+      this.skipString();
+    } else if (char === '<' && this.peek(1) === '<' && /[-A-Za-z_]/.test(this.peek(2))) {
+      this.skipHeredoc();
+    } else if (char === '(' || char === '[' || char === '{') {
+      this.pos++;
+      this.skipNested(char === '(' ? ')' : char === '[' ? ']' : '}');
+    } else if (char === '#' || (char === '/' && this.peek(1) === '/')) {
+      while (this.pos < this.source.length && this.peek() !== '\n') this.pos++;
+    } else if (char === '/' && this.peek(1) === '*') {
+      const end = this.source.indexOf('*/', this.pos + 2);
+      this.pos = end === -1 ? this.source.length : end + 2;
+    } else {
+      this.pos++;
+    }
+  }
+
+  // An attribute expression runs to the end of the line, unless brackets keep it open
+  private readExpression(): string {
+    const start = this.pos;
+    while (this.pos < this.source.length) {
+      const char = this.peek();
+      if (char === '\n' || char === '}') break;
+      if (char === '#' || (char === '/' && (this.peek(1) === '/' || this.peek(1) === '*'))) break;
+      this.skipExpressionChar();
+    }
+    const expression = this.source.slice(start, this.pos).trim();
+    if (!expression) throw this.error('Expected expression');
+    return expression;
+  }
+}
+
+export function parseHcl(source: string): HclBody {
+  return new HclParser(source).parse();
+}
+
+// Return the value of a literal expression, or undefined for anything that needs evaluating
+export function hclLiteral(expression: string): HclLiteral | undefined {
+  if (expression === 'true') return true;
+  if (expression === 'false') return false;
+  if (expression === 'null') return null;
+  if (/^-?\d+(\.\d+)?([eE][+-]?\d+)?$/.test(expression)) return Number(expression);
+  if (/^"([^"\\$%]|\\.|\$(?!\{)|%(?!\{))*"$/.test(expression)) {
+    try {
+      return JSON.parse(expression);
+    } catch {
+      return undefined;
+    }
+  }
+  return undefined;
+}
+
+// Blank out literal string content so only interpolations and bare expressions remain
+export function stripStringLiterals(expression: string): string {
+  let result = '';
+  let inString = false;
+  let interpolationDepth = 0;
+  const stack: number[] = [];
+
+  for (let i = 0; i < expression.length; i++) {
+    const char = expression[i];
+
+    if (inString) {
+      if (char === '\\') {
+        result += '  ';
+        i++;
+      } else if (char === '"') {
+        inString = false;
+        result += char;
+      } else if ((char === '$' || char === '%') && expression[i + 1] === '{') {
+        stack.push(interpolationDepth);
+        interpolationDepth = 1;
+        inString = false;
+        result += '  ';
+        i++;
+      } else {
+        result += ' ';
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (stack.length > 0 && char === '{') {
+      interpolationDepth++;
+    } else if (stack.length > 0 && char === '}') {
+      interpolationDepth--;
+      if (interpolationDepth === 0) {
+        interpolationDepth = stack.pop() ?? 0;
+        inString = true;
+        result += ' ';
+        continue;
+      }
+    }
+    result += char;
+  }
+
+  return result;
+}
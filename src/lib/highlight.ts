@@ -0,0 +1,103 @@
+// Line-based syntax highlighting for the file types Terra edits
+
+export type Language = 'yaml' | 'hcl' | 'dockerfile' | 'plain';
+
+export type TokenType = 'comment' | 'key' | 'string' | 'number' | 'keyword' | 'variable' | 'punctuation' | 'text';
+
+export interface Token {
+  type: TokenType;
+  text: string;
+}
+
+export function detectLanguage(path: string): Language {
+  const name = path.split('/').pop() ?? path;
+  if (/\.ya?ml$/.test(name)) return 'yaml';
+  if (/\.(tf|tfvars|hcl)$/.test(name)) return 'hcl';
+  if (name === 'Dockerfile' || name.startsWith('Dockerfile.') || name.endsWith('.Dockerfile')) return 'dockerfile';
+  return 'plain';
+}
+
+type Rule = [RegExp, TokenType];
+
+// Rules are tried in order at each position; patterns must be sticky-safe (no ^)
+const RULES: Record<Exclude<Language, 'plain'>, Rule[]> = {
+  yaml: [
+    [/#.*/y, 'comment'],
+    [/(?:- )?[\w.-]+(?=\s*:(?:\s|$))/y, 'key'],
+    [/"(?:[^"\\]|\\.)*"|'(?:[^']|'')*'/y, 'string'],
+    [/\b(?:true|false|null|yes|no|on|off)\b/y, 'keyword'],
+    [/-?\b\d+(?:\.\d+)?\b/y, 'number'],
+    [/\$\{[^}]*\}|\$\w+/y, 'variable'],
+    [/[:[\]{},|>-]/y, 'punctuation'],
+  ],
+  hcl: [
+    [/(?:#|\/\/).*/y, 'comment'],
+    [/"(?:[^"\\]|\\.)*"/y, 'string'],
+    [/\b(?:resource|data|module|variable|output|provider|locals|terraform|for_each|count|depends_on|dynamic|true|false|null|for|in|if)\b/y, 'keyword'],
+    [/\b(?:var|local|module|data)\.[\w.-]+/y, 'variable'],
+    [/[\w-]+(?=\s*=[^=])/y, 'key'],
+    [/-?\b\d+(?:\.\d+)?\b/y, 'number'],
+    [/[{}[\]()=,.:?]/y, 'punctuation'],
+  ],
+  dockerfile: [
+    [/#.*/y, 'comment'],
+    [/\b(?:FROM|RUN|CMD|LABEL|EXPOSE|ENV|ADD|COPY|ENTRYPOINT|VOLUME|USER|WORKDIR|ARG|ONBUILD|STOPSIGNAL|HEALTHCHECK|SHELL|AS)\b/iy, 'keyword'],
+    [/"(?:[^"\\]|\\.)*"|'[^']*'/y, 'string'],
+    [/\$\{[^}]*\}|\$\w+/y, 'variable'],
+    [/--[\w-]+/y, 'key'],
+    [/-?\b\d+(?:\.\d+)?\b/y, 'number'],
+    [/[[\]=,\\&|]/y, 'punctuation'],
+  ],
+};
+
+export function highlightLine(line: string, language: Language): Token[] {
+  if (language === 'plain' || line === '') return [{ type: 'text', text: line }];
+
+  const rules = RULES[language];
+  const tokens: Token[] = [];
+  let pos = 0;
+
+  const pushText = (text: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last?.type === 'text') {
+      last.text += text;
+    } else {
+      tokens.push({ type: 'text', text });
+    }
+  };
+
+  while (pos < line.length) {
+    let matched = false;
+    for (const [pattern, type] of rules) {
+      pattern.lastIndex = pos;
+      const match = pattern.exec(line);
+      if (match && match[0].length > 0) {
+        tokens.push({ type, text: match[0] });
+        pos += match[0].length;
+        matched = true;
+        break;
+      }
+    }
+    if (!matched) {
+      // Consume a whole word so rules don't match in the middle of one
+      const word = /\w+|./y;
+      word.lastIndex = pos;
+      const text = word.exec(line)?.[0] ?? line[pos];
+      pushText(text);
+      pos += text.length;
+    }
+  }
+
+  return tokens;
+}
+
+export const TOKEN_CLASSES: Record<TokenType, string> = {
+  comment: 'text-gray-500 italic',
+  key: 'text-sky-300',
+  string: 'text-amber-200',
+  number: 'text-orange-300',
+  keyword: 'text-purple-300',
+  variable: 'text-pink-300',
+  punctuation: 'text-gray-400',
+  text: '',
+};
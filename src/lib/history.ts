@@ -0,0 +1,104 @@
+// Undo/redo history for graph edits
+//
+// Every edit is recorded as a command: the patch operations that made it and
+// the operations that revert it. Checkpoints are markers without operations,
+// taken before each chat turn so the graph can be rolled back to that point.
+
+import { applyPatch, invertOperations, GraphPatchOperation } from './graphPatch';
+import type { InfraGraph } from './graph';
+
+export type HistoryKind = 'move' | 'add' | 'connect' | 'delete' | 'patch' | 'checkpoint';
+
+export interface HistoryEntry {
+  id: number;
+  kind: HistoryKind;
+  label: string;
+  operations: GraphPatchOperation[];
+  inverse: GraphPatchOperation[];
+  createdAt: number;
+}
+
+export interface GraphHistory {
+  entries: HistoryEntry[];
+  // Number of entries currently applied; entries after it can be redone
+  position: number;
+}
+
+export const EMPTY_HISTORY: GraphHistory = { entries: [], position: 0 };
+
+const MAX_ENTRIES = 100;
+
+let nextEntryId = 1;
+
+// A command for operations that are about to be applied to `graph`
+export function createCommand(
+  graph: InfraGraph,
+  kind: Exclude<HistoryKind, 'checkpoint'>,
+  label: string,
+  operations: GraphPatchOperation[]
+): HistoryEntry {
+  return createEntry(kind, label, operations, invertOperations(graph, operations));
+}
+
+export function createEntry(
+  kind: HistoryKind,
+  label: string,
+  operations: GraphPatchOperation[],
+  inverse: GraphPatchOperation[]
+): HistoryEntry {
+  return { id: nextEntryId++, kind, label, operations, inverse, createdAt: Date.now() };
+}
+
+export function createCheckpoint(label: string): HistoryEntry {
+  return createEntry('checkpoint', label, [], []);
+}
+
+// Record an entry, discarding anything that could have been redone
+export function pushEntry(history: GraphHistory, entry: HistoryEntry): GraphHistory {
+  const entries = [...history.entries.slice(0, history.position), entry].slice(-MAX_ENTRIES);
+  return { entries, position: entries.length };
+}
+
+function isCommand(entry: HistoryEntry): boolean {
+  return entry.kind !== 'checkpoint';
+}
+
+export function canUndo(history: GraphHistory): boolean {
+  return history.entries.slice(0, history.position).some(isCommand);
+}
+
+export function canRedo(history: GraphHistory): boolean {
+  return history.entries.slice(history.position).some(isCommand);
+}
+
+// Move the history to `position`, reverting or replaying the commands in between
+export function jumpTo(
+  history: GraphHistory,
+  graph: InfraGraph,
+  position: number
+): { history: GraphHistory; graph: InfraGraph } {
+  let current = graph;
+
+  for (let i = history.position - 1; i >= position; i--) {
+    current = applyPatch(current, history.entries[i].inverse);
+  }
+  for (let i = history.position; i < position; i++) {
+    current = applyPatch(current, history.entries[i].operations);
+  }
+
+  return { history: { ...history, position }, graph: current };
+}
+
+// Revert the most recent command. Checkpoints are stepped over.
+export function undo(history: GraphHistory, graph: InfraGraph) {
+  let position = history.position - 1;
+  while (position > 0 && !isCommand(history.entries[position])) position--;
+  return jumpTo(history, graph, Math.max(0, position));
+}
+
+// Replay the next command, stepping over checkpoints
+export function redo(history: GraphHistory, graph: InfraGraph) {
+  let position = history.position;
+  while (position < history.entries.length && !isCommand(history.entries[position])) position++;
+  return jumpTo(history, graph, Math.min(history.entries.length, position + 1));
+}
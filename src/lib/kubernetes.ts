@@ -0,0 +1,392 @@
+// Kubernetes manifest model and graph builder
+
+import { parseAllDocuments } from 'yaml';
+import { inferNodeKind } from './compose';
+import { createGraphBuilder, InfraGraph, InfraNode, NODE_KINDS, NodeKind } from './graph';
+
+export type KubernetesKind =
+  | 'Deployment'
+  | 'StatefulSet'
+  | 'DaemonSet'
+  | 'Service'
+  | 'Ingress'
+  | 'ConfigMap'
+  | 'Secret'
+  | 'PersistentVolumeClaim';
+
+export const SUPPORTED_KINDS: KubernetesKind[] = [
+  'Deployment',
+  'StatefulSet',
+  'DaemonSet',
+  'Service',
+  'Ingress',
+  'ConfigMap',
+  'Secret',
+  'PersistentVolumeClaim',
+];
+
+const WORKLOAD_KINDS: KubernetesKind[] = ['Deployment', 'StatefulSet', 'DaemonSet'];
+
+export interface KubernetesMetadata {
+  name: string;
+  namespace?: string;
+  labels?: Record<string, string>;
+  annotations?: Record<string, string>;
+}
+
+interface NameRef {
+  name?: string;
+}
+
+export interface KubernetesContainer {
+  name: string;
+  image?: string;
+  ports?: Array<{ containerPort: number; name?: string; protocol?: string }>;
+  env?: Array<{
+    name: string;
+    value?: string;
+    valueFrom?: { configMapKeyRef?: NameRef; secretKeyRef?: NameRef };
+  }>;
+  envFrom?: Array<{ configMapRef?: NameRef; secretRef?: NameRef }>;
+  volumeMounts?: Array<{ name: string; mountPath: string }>;
+}
+
+export interface KubernetesVolume {
+  name: string;
+  persistentVolumeClaim?: { claimName: string };
+  configMap?: NameRef;
+  secret?: { secretName?: string };
+  projected?: { sources?: Array<{ configMap?: NameRef; secret?: NameRef }> };
+}
+
+export interface KubernetesPodSpec {
+  containers?: KubernetesContainer[];
+  initContainers?: KubernetesContainer[];
+  volumes?: KubernetesVolume[];
+}
+
+export interface KubernetesWorkloadSpec {
+  replicas?: number;
+  selector?: { matchLabels?: Record<string, string> };
+  template?: { metadata?: { labels?: Record<string, string> }; spec?: KubernetesPodSpec };
+  volumeClaimTemplates?: Array<{ metadata?: Partial<KubernetesMetadata> } | null>;
+}
+
+export interface KubernetesServiceSpec {
+  type?: string;
+  selector?: Record<string, string>;
+  ports?: Array<{ port: number; targetPort?: number | string; name?: string }>;
+}
+
+interface IngressBackend {
+  // networking.k8s.io/v1
+  service?: { name: string; port?: { number?: number; name?: string } };
+  // extensions/v1beta1
+  serviceName?: string;
+}
+
+export interface KubernetesIngressSpec {
+  defaultBackend?: IngressBackend;
+  backend?: IngressBackend;
+  rules?: Array<{
+    host?: string;
+    http?: { paths?: Array<{ path?: string; backend?: IngressBackend }> };
+  }>;
+}
+
+export interface KubernetesObject {
+  apiVersion: string;
+  kind: KubernetesKind;
+  metadata: KubernetesMetadata;
+  spec?: Record<string, unknown>;
+  data?: Record<string, string>;
+  // Repository path of the manifest file
+  file: string;
+}
+
+// Read every supported object out of a (multi-document) manifest file. Documents
+// that are not valid YAML, such as Helm templates, are skipped.
+export function parseManifests(content: string, file: string): KubernetesObject[] {
+  const objects: KubernetesObject[] = [];
+
+  const collect = (value: unknown) => {
+    if (!value || typeof value !== 'object') return;
+    const object = value as Partial<KubernetesObject> & { items?: unknown[] };
+
+    if (object.kind === ('List' as string) && Array.isArray(object.items)) {
+      object.items.forEach(collect);
+      return;
+    }
+
+    if (!object.apiVersion || !object.metadata?.name) return;
+    if (!SUPPORTED_KINDS.includes(object.kind as KubernetesKind)) return;
+
+    objects.push({ ...(object as KubernetesObject), file });
+  };
+
+  for (const document of parseAllDocuments(content)) {
+    if (document.errors.length > 0) continue;
+    collect(document.toJS());
+  }
+
+  return objects;
+}
+
+// Cheap check used while scanning: does this YAML look like a Kubernetes manifest?
+export function looksLikeKubernetesManifest(content: string): boolean {
+  return /^apiVersion:\s*\S+/m.test(content) && /^kind:\s*\S+/m.test(content);
+}
+
+function namespaceOf(object: KubernetesObject): string {
+  return object.metadata.namespace ?? 'default';
+}
+
+function objectId(namespace: string, kind: string, name: string): string {
+  return `k8s:${namespace}/${kind}/${name}`;
+}
+
+function podSpec(object: KubernetesObject): KubernetesPodSpec | undefined {
+  return (object.spec as KubernetesWorkloadSpec | undefined)?.template?.spec;
+}
+
+// Claims a StatefulSet creates from its volumeClaimTemplates, named
+// `<template>-<statefulset>`; templates without a name are skipped
+function claimTemplateNames(object: KubernetesObject): string[] {
+  const templates = (object.spec as KubernetesWorkloadSpec | undefined)?.volumeClaimTemplates;
+  if (!Array.isArray(templates)) return [];
+  return templates
+    .map((template) => template?.metadata?.name)
+    .filter((name): name is string => typeof name === 'string' && name !== '')
+    .map((name) => `${name}-${object.metadata.name}`);
+}
+
+function podLabels(object: KubernetesObject): Record<string, string> {
+  return (object.spec as KubernetesWorkloadSpec | undefined)?.template?.metadata?.labels ?? {};
+}
+
+function selectorMatches(selector: Record<string, string> | undefined, labels: Record<string, string>): boolean {
+  if (!selector || Object.keys(selector).length === 0) return false;
+  return Object.entries(selector).every(([key, value]) => labels[key] === value);
+}
+
+function ingressBackends(spec: KubernetesIngressSpec): Array<{ service: string; path?: string; host?: string }> {
+  const backends: Array<{ service: string; path?: string; host?: string }> = [];
+  const serviceName = (backend?: IngressBackend) => backend?.service?.name ?? backend?.serviceName;
+
+  const fallback = serviceName(spec.defaultBackend ?? spec.backend);
+  if (fallback) backends.push({ service: fallback });
+
+  for (const rule of spec.rules ?? []) {
+    for (const path of rule.http?.paths ?? []) {
+      const service = serviceName(path.backend);
+      if (service) backends.push({ service, path: path.path, host: rule.host });
+    }
+  }
+
+  return backends;
+}
+
+// ConfigMaps, Secrets and PVCs a pod spec pulls in through volumes and env
+function podReferences(spec: KubernetesPodSpec): Array<{ kind: KubernetesKind; name: string; via: string }> {
+  const references: Array<{ kind: KubernetesKind; name: string; via: string }> = [];
+  const mountPaths = new Map<string, string>();
+
+  for (const container of [...(spec.containers ?? []), ...(spec.initContainers ?? [])]) {
+    for (const mount of container.volumeMounts ?? []) {
+      mountPaths.set(mount.name, mount.mountPath);
+    }
+    for (const source of container.envFrom ?? []) {
+      if (source.configMapRef?.name) references.push({ kind: 'ConfigMap', name: source.configMapRef.name, via: 'envFrom' });
+      if (source.secretRef?.name) references.push({ kind: 'Secret', name: source.secretRef.name, via: 'envFrom' });
+    }
+    for (const variable of container.env ?? []) {
+      const configMap = variable.valueFrom?.configMapKeyRef?.name;
+      const secret = variable.valueFrom?.secretKeyRef?.name;
+      if (configMap) references.push({ kind: 'ConfigMap', name: configMap, via: 'env' });
+      if (secret) references.push({ kind: 'Secret', name: secret, via: 'env' });
+    }
+  }
+
+  for (const volume of spec.volumes ?? []) {
+    const via = mountPaths.get(volume.name) ?? volume.name;
+    if (volume.persistentVolumeClaim) {
+      references.push({ kind: 'PersistentVolumeClaim', name: volume.persistentVolumeClaim.claimName, via });
+    }
+    if (volume.configMap?.name) references.push({ kind: 'ConfigMap', name: volume.configMap.name, via });
+    if (volume.secret?.secretName) references.push({ kind: 'Secret', name: volume.secret.secretName, via });
+    for (const source of volume.projected?.sources ?? []) {
+      if (source.configMap?.name) references.push({ kind: 'ConfigMap', name: source.configMap.name, via });
+      if (source.secret?.name) references.push({ kind: 'Secret', name: source.secret.name, via });
+    }
+  }
+
+  return references;
+}
+
+function objectKind(object: KubernetesObject): NodeKind {
+  if (WORKLOAD_KINDS.includes(object.kind)) {
+    const images = (podSpec(object)?.containers ?? []).map((container) => container.image);
+    const kinds = images.map((image) => inferNodeKind(image));
+    return kinds.find((kind) => kind !== 'service') ?? 'service';
+  }
+  if (object.kind === 'Ingress') return 'loadbalancer';
+  if (object.kind === 'Service') return 'service';
+  if (object.kind === 'Secret') return 'secret';
+  return 'storage';
+}
+
+function describeObject(object: KubernetesObject): string {
+  const parts: string[] = [object.kind];
+
+  if (WORKLOAD_KINDS.includes(object.kind)) {
+    const images = (podSpec(object)?.containers ?? []).map((container) => container.image).filter(Boolean);
+    if (images.length > 0) parts.push(images.join(', '));
+    const replicas = (object.spec as KubernetesWorkloadSpec | undefined)?.replicas;
+    if (replicas !== undefined) parts.push(`${replicas} replicas`);
+  } else if (object.kind === 'Service') {
+    const spec = object.spec as KubernetesServiceSpec | undefined;
+    const ports = (spec?.ports ?? []).map((port) => port.port).join(', ');
+    parts.push(spec?.type ?? 'ClusterIP');
+    if (ports) parts.push(`ports ${ports}`);
+  } else if (object.kind === 'Ingress') {
+    const hosts = ((object.spec as KubernetesIngressSpec | undefined)?.rules ?? []).map((rule) => rule.host).filter(Boolean);
+    if (hosts.length > 0) parts.push(hosts.join(', '));
+  }
+
+  return parts.join(' • ');
+}
+
+const GROUP_PADDING = 40;
+const GROUP_HEADER = 40;
+const GROUP_GAP = 80;
+const CELL_WIDTH = 280;
+const CELL_HEIGHT = 140;
+
+// Wrap nodes in one group node per namespace. Child positions become relative to
+// their namespace, which is laid out as one column per node kind.
+function groupByNamespace(graph: InfraGraph): InfraGraph {
+  const namespaces = new Map<string, InfraNode[]>();
+  for (const node of graph.nodes) {
+    const namespace = node.data.namespace ?? 'default';
+    namespaces.set(namespace, [...(namespaces.get(namespace) ?? []), node]);
+  }
+
+  const columns = NODE_KINDS;
+  const nodes: InfraNode[] = [];
+  let offsetX = 0;
+
+  for (const [namespace, members] of Array.from(namespaces.entries()).sort(([a], [b]) => a.localeCompare(b))) {
+    const usedColumns = columns.filter((kind) => members.some((node) => node.type === kind));
+    const rows = Math.max(...usedColumns.map((kind) => members.filter((node) => node.type === kind).length));
+    const width = usedColumns.length * CELL_WIDTH + GROUP_PADDING * 2;
+    const height = rows * CELL_HEIGHT + GROUP_HEADER + GROUP_PADDING;
+    const groupId = `k8s:${namespace}`;
+
+    nodes.push({
+      id: groupId,
+      type: 'namespace',
+      position: { x: offsetX, y: 0 },
+      style: { width, height },
+      data: { label: namespace, type: 'namespace', namespace },
+    });
+
+    usedColumns.forEach((kind, column) => {
+      members
+        .filter((node) => node.type === kind)
+        .forEach((node, row) => {
+          nodes.push({
+            ...node,
+            parentId: groupId,
+            extent: 'parent',
+            position: { x: GROUP_PADDING + column * CELL_WIDTH, y: GROUP_HEADER + row * CELL_HEIGHT },
+          });
+        });
+    });
+
+    offsetX += width + GROUP_GAP;
+  }
+
+  return { nodes, edges: graph.edges };
+}
+
+// Turn Kubernetes objects into a graph. Services point at the workloads their
+// selector matches, Ingresses at their backend Services, and workloads at the
+// ConfigMaps, Secrets and PVCs they mount or read env from.
+export function kubernetesToGraph(objects: KubernetesObject[]): InfraGraph {
+  const builder = createGraphBuilder();
+  const ids = new Set<string>();
+
+  const addObjectNode = (object: KubernetesObject) => {
+    const namespace = namespaceOf(object);
+    const id = objectId(namespace, object.kind, object.metadata.name);
+    if (ids.has(id)) return;
+    ids.add(id);
+
+    builder.addNode(id, objectKind(object), {
+      label: object.metadata.name,
+      details: describeObject(object),
+      sourcePath: object.file,
+      kubernetesKind: object.kind,
+      namespace,
+    });
+  };
+
+  for (const object of objects) {
+    addObjectNode(object);
+
+    // StatefulSets create their own claims from volumeClaimTemplates
+    for (const name of claimTemplateNames(object)) {
+      addObjectNode({
+        apiVersion: 'v1',
+        kind: 'PersistentVolumeClaim',
+        metadata: { name, namespace: object.metadata.namespace },
+        file: object.file,
+      });
+    }
+  }
+
+  const workloads = objects.filter((object) => WORKLOAD_KINDS.includes(object.kind));
+
+  for (const object of objects) {
+    const namespace = namespaceOf(object);
+    const id = objectId(namespace, object.kind, object.metadata.name);
+    const link = (kind: KubernetesKind, name: string, label?: string) => {
+      const target = objectId(namespace, kind, name);
+      if (ids.has(target)) builder.addEdge(id, target, label);
+    };
+
+    if (object.kind === 'Service') {
+      const selector = (object.spec as KubernetesServiceSpec | undefined)?.selector;
+      for (const workload of workloads) {
+        if (namespaceOf(workload) === namespace && selectorMatches(selector, podLabels(workload))) {
+          link(workload.kind, workload.metadata.name, 'selector');
+        }
+      }
+    }
+
+    if (object.kind === 'Ingress') {
+      for (const backend of ingressBackends((object.spec ?? {}) as KubernetesIngressSpec)) {
+        link('Service', backend.service, backend.path);
+      }
+    }
+
+    if (WORKLOAD_KINDS.includes(object.kind)) {
+      const spec = podSpec(object);
+      if (spec) {
+        for (const reference of podReferences(spec)) {
+          link(reference.kind, reference.name, reference.via);
+        }
+      }
+      for (const name of claimTemplateNames(object)) {
+        link('PersistentVolumeClaim', name, 'volumeClaimTemplate');
+      }
+    }
+  }
+
+  return groupByNamespace(builder.build());
+}
+
+// Parse manifest files straight into a graph
+export function parseKubernetesGraph(files: Array<{ path: string; content: string }>): InfraGraph {
+  return kubernetesToGraph(files.flatMap((file) => parseManifests(file.content, file.path)));
+}
@@ -0,0 +1,292 @@
+// Layered graph layout
+//
+// Nodes are split into tiers (ingress, services, data) and ranked within their
+// tier by the longest dependency path leading to them, so edges point from the
+// top of the graph downwards (or left to right). Nodes within a rank are ordered
+// by the barycenter of their neighbours to keep edge crossings down. Namespace
+// groups are laid out on their own and then placed as a single block.
+
+import type { CSSProperties } from 'react';
+import type { GraphPatchOperation } from './graphPatch';
+import type { InfraGraph, InfraNode, NodeKind } from './graph';
+
+export type LayoutDirection = 'TB' | 'LR';
+
+export interface LayoutOptions {
+  direction: LayoutDirection;
+  // Gap between nodes in the same rank
+  nodeSpacing: number;
+  // Gap between consecutive ranks
+  rankSpacing: number;
+}
+
+export type LayoutSpacing = 'compact' | 'normal' | 'wide';
+
+export const SPACING_PRESETS: Record<LayoutSpacing, Pick<LayoutOptions, 'nodeSpacing' | 'rankSpacing'>> = {
+  compact: { nodeSpacing: 30, rankSpacing: 60 },
+  normal: { nodeSpacing: 60, rankSpacing: 100 },
+  wide: { nodeSpacing: 100, rankSpacing: 160 },
+};
+
+export const DEFAULT_LAYOUT_OPTIONS: LayoutOptions = { direction: 'TB', ...SPACING_PRESETS.normal };
+
+export type Tier = 'ingress' | 'service' | 'data';
+
+const TIERS: Tier[] = ['ingress', 'service', 'data'];
+
+const DEFAULT_WIDTH = 220;
+const DEFAULT_HEIGHT = 100;
+const GROUP_PADDING = 40;
+const GROUP_HEADER = 40;
+const ORDERING_SWEEPS = 4;
+
+const INGRESS_RESOURCES = [
+  /_(lb|alb|elb)(_|$)/,
+  /load_balancer/,
+  /api_?gateway/,
+  /_cdn_|cloudfront|front_door/,
+  /url_map|forwarding_rule|target_https?_proxy/,
+  /route53|dns_record/,
+];
+
+const INGRESS_IMAGES = ['nginx', 'traefik', 'haproxy', 'caddy', 'envoy', 'kong'];
+
+const TIER_OF_KIND: Partial<Record<NodeKind, Tier>> = {
+  loadbalancer: 'ingress',
+  cdn: 'ingress',
+  database: 'data',
+  storage: 'data',
+  cache: 'data',
+  queue: 'data',
+  secret: 'data',
+  network: 'data',
+  external: 'data',
+};
+
+export function nodeTier(node: InfraNode): Tier {
+  const { data } = node;
+  const tier = TIER_OF_KIND[node.type as NodeKind];
+  if (tier) return tier;
+  if (data.kubernetesKind === 'Ingress') return 'ingress';
+  if (data.resourceType && INGRESS_RESOURCES.some((pattern) => pattern.test(data.resourceType as string))) return 'ingress';
+
+  const image = data.dockerComposeConfig?.image?.split('/').pop()?.split(':')[0];
+  if (image && INGRESS_IMAGES.includes(image)) return 'ingress';
+
+  return 'service';
+}
+
+function dimension(value: CSSProperties['width']): number | undefined {
+  return typeof value === 'number' ? value : undefined;
+}
+
+export function nodeSize(node: InfraNode): { width: number; height: number } {
+  return {
+    width: node.measured?.width ?? node.width ?? dimension(node.style?.width) ?? DEFAULT_WIDTH,
+    height: node.measured?.height ?? node.height ?? dimension(node.style?.height) ?? DEFAULT_HEIGHT,
+  };
+}
+
+// Longest-path rank of each node within its tier, with tiers stacked in order.
+// Edges that close a cycle are ignored.
+function assignRanks(nodes: InfraNode[], edges: Array<[string, string]>, tierOf: (node: InfraNode) => Tier) {
+  const tiers = new Map(nodes.map((node) => [node.id, tierOf(node)]));
+  const predecessors = new Map<string, string[]>(nodes.map((node) => [node.id, []]));
+  for (const [source, target] of edges) {
+    if (tiers.get(source) === tiers.get(target)) predecessors.get(target)?.push(source);
+  }
+
+  const local = new Map<string, number>();
+  const visiting = new Set<string>();
+  const rankOf = (id: string): number => {
+    const known = local.get(id);
+    if (known !== undefined) return known;
+    visiting.add(id);
+    let rank = 0;
+    for (const predecessor of predecessors.get(id) ?? []) {
+      if (!visiting.has(predecessor)) rank = Math.max(rank, rankOf(predecessor) + 1);
+    }
+    visiting.delete(id);
+    local.set(id, rank);
+    return rank;
+  };
+
+  const ranks = new Map<string, number>();
+  let offset = 0;
+  for (const tier of TIERS) {
+    const members = nodes.filter((node) => tiers.get(node.id) === tier);
+    if (members.length === 0) continue;
+    let deepest = 0;
+    for (const node of members) {
+      const rank = rankOf(node.id);
+      ranks.set(node.id, offset + rank);
+      deepest = Math.max(deepest, rank);
+    }
+    offset += deepest + 1;
+  }
+
+  return ranks;
+}
+
+// Reorder nodes within each rank by the average position of their neighbours in
+// the previous rank, sweeping down and up a few times
+function orderRanks(layers: string[][], edges: Array<[string, string]>) {
+  const neighbours = new Map<string, string[]>();
+  for (const [source, target] of edges) {
+    neighbours.set(source, [...(neighbours.get(source) ?? []), target]);
+    neighbours.set(target, [...(neighbours.get(target) ?? []), source]);
+  }
+
+  const sweep = (layer: string[], reference: string[]) => {
+    const index = new Map(reference.map((id, i) => [id, i]));
+    const barycenter = new Map<string, number>();
+    layer.forEach((id, i) => {
+      const positions = (neighbours.get(id) ?? []).flatMap((other) => (index.has(other) ? [index.get(other) as number] : []));
+      barycenter.set(id, positions.length > 0 ? positions.reduce((a, b) => a + b, 0) / positions.length : i);
+    });
+    layer.sort((a, b) => (barycenter.get(a) as number) - (barycenter.get(b) as number));
+  };
+
+  for (let i = 0; i < ORDERING_SWEEPS; i++) {
+    for (let r = 1; r < layers.length; r++) sweep(layers[r], layers[r - 1]);
+    for (let r = layers.length - 2; r >= 0; r--) sweep(layers[r], layers[r + 1]);
+  }
+}
+
+// Position `nodes` relative to the origin. Returns their positions and the
+// size of the laid out block.
+function layoutLevel(
+  nodes: InfraNode[],
+  edges: Array<[string, string]>,
+  sizes: Map<string, { width: number; height: number }>,
+  options: LayoutOptions
+) {
+  const horizontal = options.direction === 'LR';
+  const ranks = assignRanks(nodes, edges, (node) => (node.type === 'namespace' ? 'service' : nodeTier(node)));
+
+  const layers: string[][] = [];
+  for (const node of nodes) {
+    const rank = ranks.get(node.id) ?? 0;
+    (layers[rank] ??= []).push(node.id);
+  }
+  const filled = layers.filter((layer) => layer && layer.length > 0);
+  orderRanks(filled, edges);
+
+  // Main axis runs along the ranks, cross axis along the nodes of a rank
+  const main = (id: string) => (horizontal ? sizes.get(id)!.width : sizes.get(id)!.height);
+  const cross = (id: string) => (horizontal ? sizes.get(id)!.height : sizes.get(id)!.width);
+  const crossExtent = (layer: string[]) =>
+    layer.reduce((total, id) => total + cross(id), 0) + options.nodeSpacing * (layer.length - 1);
+  const widest = Math.max(0, ...filled.map(crossExtent));
+
+  const positions = new Map<string, { x: number; y: number }>();
+  let mainOffset = 0;
+  for (const layer of filled) {
+    // Center each rank on the widest one
+    let crossOffset = (widest - crossExtent(layer)) / 2;
+    for (const id of layer) {
+      positions.set(id, horizontal ? { x: mainOffset, y: crossOffset } : { x: crossOffset, y: mainOffset });
+      crossOffset += cross(id) + options.nodeSpacing;
+    }
+    mainOffset += Math.max(...layer.map(main)) + options.rankSpacing;
+  }
+
+  const mainLength = Math.max(0, mainOffset - options.rankSpacing);
+  return {
+    positions,
+    width: horizontal ? mainLength : widest,
+    height: horizontal ? widest : mainLength,
+  };
+}
+
+// Lay out the whole graph. Children of group nodes are laid out inside their
+// group, which is resized to fit; edges between groups are routed through them.
+export function layoutGraph(graph: InfraGraph, options: LayoutOptions = DEFAULT_LAYOUT_OPTIONS): InfraGraph {
+  const sizes = new Map(graph.nodes.map((node) => [node.id, nodeSize(node)]));
+  const parentOf = new Map(graph.nodes.map((node) => [node.id, node.parentId]));
+  const byId = new Map(graph.nodes.map((node) => [node.id, node]));
+  const laidOut = new Map<string, InfraNode>();
+
+  // Groups first, so their size is known when the top level is laid out
+  const groups = new Map<string, InfraNode[]>();
+  for (const node of graph.nodes) {
+    if (node.parentId && byId.has(node.parentId)) {
+      groups.set(node.parentId, [...(groups.get(node.parentId) ?? []), node]);
+    }
+  }
+
+  for (const [groupId, children] of groups) {
+    const childIds = new Set(children.map((node) => node.id));
+    const edges = graph.edges
+      .filter((edge) => childIds.has(edge.source) && childIds.has(edge.target))
+      .map((edge): [string, string] => [edge.source, edge.target]);
+    const level = layoutLevel(children, edges, sizes, options);
+
+    for (const child of children) {
+      const position = level.positions.get(child.id) ?? { x: 0, y: 0 };
+      laidOut.set(child.id, { ...child, position: { x: position.x + GROUP_PADDING, y: position.y + GROUP_HEADER } });
+    }
+
+    const size = { width: level.width + GROUP_PADDING * 2, height: level.height + GROUP_HEADER + GROUP_PADDING };
+    sizes.set(groupId, size);
+    const group = byId.get(groupId) as InfraNode;
+    laidOut.set(groupId, { ...group, style: { ...group.style, ...size } });
+  }
+
+  const topLevelOf = (id: string): string => {
+    const parent = parentOf.get(id);
+    return parent && byId.has(parent) ? topLevelOf(parent) : id;
+  };
+  const topLevel = graph.nodes.filter((node) => !node.parentId || !byId.has(node.parentId));
+  const edgeKeys = new Set<string>();
+  const edges: Array<[string, string]> = [];
+  for (const edge of graph.edges) {
+    const source = topLevelOf(edge.source);
+    const target = topLevelOf(edge.target);
+    const key = `${source}->${target}`;
+    if (source === target || edgeKeys.has(key)) continue;
+    edgeKeys.add(key);
+    edges.push([source, target]);
+  }
+
+  const level = layoutLevel(topLevel, edges, sizes, options);
+  for (const node of topLevel) {
+    laidOut.set(node.id, { ...(laidOut.get(node.id) ?? node), position: level.positions.get(node.id) ?? { x: 0, y: 0 } });
+  }
+
+  return { nodes: graph.nodes.map((node) => laidOut.get(node.id) ?? node), edges: graph.edges };
+}
+
+// Whether the graph has nodes without a position or top-level nodes stacked on
+// top of each other
+export function needsLayout(nodes: InfraNode[]): boolean {
+  if (nodes.some((node) => !node.position)) return true;
+
+  const topLevel = nodes.filter((node) => !node.parentId);
+  return topLevel.some((node, i) =>
+    topLevel.slice(i + 1).some((other) => {
+      const a = nodeSize(node);
+      const b = nodeSize(other);
+      return (
+        node.position.x < other.position.x + b.width &&
+        other.position.x < node.position.x + a.width &&
+        node.position.y < other.position.y + b.height &&
+        other.position.y < node.position.y + a.height
+      );
+    })
+  );
+}
+
+// The node moves (and group resizes) that turn `graph` into its layout, as
+// patch operations so they can be undone
+export function layoutOperations(graph: InfraGraph, options: LayoutOptions = DEFAULT_LAYOUT_OPTIONS): GraphPatchOperation[] {
+  const current = new Map(graph.nodes.map((node) => [node.id, node]));
+
+  return layoutGraph(graph, options).nodes.flatMap((node): GraphPatchOperation[] => {
+    const before = current.get(node.id) as InfraNode;
+    const moved = before.position?.x !== node.position.x || before.position?.y !== node.position.y;
+    const resized = before.style !== node.style;
+    if (!moved && !resized) return [];
+    return [{ op: 'update_node', id: node.id, position: node.position, ...(resized ? { style: node.style } : {}) }];
+  });
+}
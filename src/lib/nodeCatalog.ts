@@ -0,0 +1,231 @@
+// Catalog of infrastructure node kinds
+//
+// Each kind has its card visuals, the connections it accepts and, for kinds
+// that can be expressed in docker-compose, the template a node dragged from the
+// palette starts with. Edges point from the consumer to the thing it uses, so
+// kinds that only get used (databases, secrets, ...) accept incoming
+// connections only.
+
+import type { XYPosition } from '@xyflow/react';
+import type { ComposeService } from './compose';
+import { NODE_KINDS, NodeKind, NodeTemplate, InfraGraph, InfraNode } from './graph';
+
+export interface NodeKindInfo {
+  label: string;
+  description: string;
+  icon: string;
+  // Tailwind classes for the card border and the accent dot
+  borderClass: string;
+  accentClass: string;
+  // The same colour as a hex value, for exported diagrams
+  color: string;
+  // Whether connections can start (source) or end (target) at the node
+  handles: { source: boolean; target: boolean };
+  // Compose entry for a new node named `name`, if the kind has one
+  template?: (name: string) => NodeTemplate;
+}
+
+export const NODE_CATALOG: Record<NodeKind, NodeKindInfo> = {
+  loadbalancer: {
+    label: 'Load balancer',
+    description: 'Reverse proxy or ingress in front of services',
+    icon: '⚖️',
+    borderClass: 'border-orange-500',
+    accentClass: 'bg-orange-500',
+    color: '#f97316',
+    handles: { source: true, target: true },
+    template: () => ({
+      section: 'services',
+      config: { image: 'nginx:1.27-alpine', ports: ['80:80'], restart: 'unless-stopped' },
+    }),
+  },
+  cdn: {
+    label: 'CDN',
+    description: 'Edge cache in front of an origin',
+    icon: '🌐',
+    borderClass: 'border-sky-400',
+    accentClass: 'bg-sky-400',
+    color: '#38bdf8',
+    handles: { source: true, target: false },
+  },
+  service: {
+    label: 'Service',
+    description: 'Application container',
+    icon: '⚙️',
+    borderClass: 'border-blue-500',
+    accentClass: 'bg-blue-500',
+    color: '#3b82f6',
+    handles: { source: true, target: true },
+    template: () => ({
+      section: 'services',
+      config: { build: '.', ports: ['3000:3000'], restart: 'unless-stopped' },
+    }),
+  },
+  job: {
+    label: 'Cron / job',
+    description: 'One-off or scheduled task',
+    icon: '⏱️',
+    borderClass: 'border-teal-500',
+    accentClass: 'bg-teal-500',
+    color: '#14b8a6',
+    handles: { source: true, target: false },
+    template: () => ({
+      section: 'services',
+      config: { build: '.', command: 'echo "replace with the job command"' },
+    }),
+  },
+  queue: {
+    label: 'Queue',
+    description: 'Message broker or event stream',
+    icon: '📨',
+    borderClass: 'border-amber-400',
+    accentClass: 'bg-amber-400',
+    color: '#fbbf24',
+    handles: { source: false, target: true },
+    template: () => ({
+      section: 'services',
+      config: {
+        image: 'rabbitmq:3-management-alpine',
+        ports: ['15672:15672'],
+        healthcheck: { test: 'rabbitmq-diagnostics -q ping', interval: '30s', timeout: '10s', retries: 3 },
+      },
+    }),
+  },
+  cache: {
+    label: 'Cache',
+    description: 'In-memory key-value store',
+    icon: '⚡',
+    borderClass: 'border-red-500',
+    accentClass: 'bg-red-500',
+    color: '#ef4444',
+    handles: { source: false, target: true },
+    template: () => ({
+      section: 'services',
+      config: {
+        image: 'redis:7-alpine',
+        healthcheck: { test: 'redis-cli ping', interval: '10s', timeout: '5s', retries: 5 },
+      },
+    }),
+  },
+  database: {
+    label: 'Database',
+    description: 'Relational or document database',
+    icon: '🗄️',
+    borderClass: 'border-green-500',
+    accentClass: 'bg-green-500',
+    color: '#22c55e',
+    handles: { source: false, target: true },
+    template: (name) => ({
+      section: 'services',
+      config: {
+        image: 'postgres:16-alpine',
+        environment: { POSTGRES_USER: 'app', POSTGRES_PASSWORD: '${POSTGRES_PASSWORD}', POSTGRES_DB: 'app' },
+        volumes: [`${name}-data:/var/lib/postgresql/data`],
+        healthcheck: { test: 'pg_isready -U app', interval: '10s', timeout: '5s', retries: 5 },
+      },
+      volumes: [`${name}-data`],
+    }),
+  },
+  storage: {
+    label: 'Storage',
+    description: 'Object storage or volume',
+    icon: '📦',
+    borderClass: 'border-purple-500',
+    accentClass: 'bg-purple-500',
+    color: '#a855f7',
+    handles: { source: false, target: true },
+    template: (name) => ({
+      section: 'services',
+      config: {
+        image: 'minio/minio:RELEASE.2024-10-13T13-34-11Z',
+        command: 'server /data --console-address :9001',
+        ports: ['9001:9001'],
+        environment: { MINIO_ROOT_USER: 'minio', MINIO_ROOT_PASSWORD: '${MINIO_ROOT_PASSWORD}' },
+        volumes: [`${name}-data:/data`],
+      },
+      volumes: [`${name}-data`],
+    }),
+  },
+  secret: {
+    label: 'Secret',
+    description: 'Credential mounted into services',
+    icon: '🔑',
+    borderClass: 'border-yellow-500',
+    accentClass: 'bg-yellow-500',
+    color: '#eab308',
+    handles: { source: false, target: true },
+    template: (name) => ({ section: 'secrets', config: { file: `./secrets/${name}.txt` } }),
+  },
+  network: {
+    label: 'Network',
+    description: 'Network services attach to',
+    icon: '🔀',
+    borderClass: 'border-slate-400',
+    accentClass: 'bg-slate-400',
+    color: '#94a3b8',
+    handles: { source: false, target: true },
+    template: () => ({ section: 'networks', config: { driver: 'bridge' } }),
+  },
+  external: {
+    label: 'External SaaS',
+    description: 'Third-party API outside the stack',
+    icon: '☁️',
+    borderClass: 'border-pink-400 border-dashed',
+    accentClass: 'bg-pink-400',
+    color: '#f472b6',
+    handles: { source: false, target: true },
+  },
+};
+
+export function isNodeKind(kind: string | undefined): kind is NodeKind {
+  return NODE_KINDS.includes(kind as NodeKind);
+}
+
+export function nodeKindInfo(kind: string | undefined): NodeKindInfo {
+  return isNodeKind(kind) ? NODE_CATALOG[kind] : NODE_CATALOG.service;
+}
+
+const ID_PREFIXES: Record<NodeTemplate['section'], string> = {
+  services: '',
+  networks: 'network:',
+  secrets: 'secret:',
+};
+
+// First of `kind`, `kind-2`, ... that no node uses as an ID or name yet
+function uniqueName(graph: InfraGraph, kind: NodeKind): string {
+  const taken = new Set(graph.nodes.flatMap((node) => [node.id, node.data.serviceName, node.data.label]));
+  const prefixed = (name: string) => [name, `network:${name}`, `secret:${name}`, `${kind}:${name}`];
+  let name = kind as string;
+  for (let i = 2; prefixed(name).some((candidate) => taken.has(candidate)); i++) name = `${kind}-${i}`;
+  return name;
+}
+
+// New node for a palette item dropped at `position`. Compose-able kinds carry
+// their template and the compose file of the graph, or `docker-compose.yml`
+// when the graph has none.
+export function createPaletteNode(graph: InfraGraph, kind: NodeKind, position: XYPosition): InfraNode {
+  const name = uniqueName(graph, kind);
+  const template = NODE_CATALOG[kind].template?.(name);
+  const composePath =
+    graph.nodes.find((node) => node.data.dockerComposeConfig && node.data.sourcePath)?.data.sourcePath ?? 'docker-compose.yml';
+
+  return {
+    id: template ? `${ID_PREFIXES[template.section]}${name}` : `${kind}:${name}`,
+    type: kind,
+    position,
+    data: {
+      label: name,
+      type: kind,
+      details: NODE_CATALOG[kind].description,
+      ...(template
+        ? {
+            template,
+            sourcePath: composePath,
+            ...(template.section === 'services'
+              ? { serviceName: name, dockerComposeConfig: template.config as ComposeService }
+              : {}),
+          }
+        : {}),
+    },
+  };
+}
@@ -0,0 +1,149 @@
+// Bundled cloud pricing tables used for offline cost estimates
+//
+// Prices are on-demand list prices in USD for the first region of each provider,
+// taken on the date in `version`. Other regions are priced with a multiplier.
+// Add a new table rather than editing an old one so estimates name the prices
+// they were made with.
+
+import type { CloudProvider } from './providers';
+
+export interface ProviderPricing {
+  // Price multiplier of each region over the first one
+  regions: Record<string, number>;
+  // Always-on container, per vCPU-hour and GiB-hour
+  container: { vcpuHour: number; gibHour: number };
+  // Container size of services whose config sets no limits
+  defaultContainer: { cpus: number; memoryGib: number };
+  // Monthly price of each managed database tier, without storage
+  databaseTiers: Record<string, number>;
+  defaultDatabaseTier: string;
+  // Per GB-month, and the smallest volume the service provisions
+  databaseStorageGb: number;
+  minDatabaseStorageGb: number;
+  // Monthly price of each managed cache tier
+  cacheTiers: Record<string, number>;
+  defaultCacheTier: string;
+  // Per GB-month of object storage
+  bucketStorageGb: number;
+  // A queue with light traffic (about a million operations a month)
+  queueMonthly: number;
+  // One secret with light access
+  secretMonthly: number;
+}
+
+export interface PricingTable {
+  version: string;
+  currency: string;
+  providers: Record<CloudProvider, ProviderPricing>;
+}
+
+export const PRICING_TABLES: PricingTable[] = [
+  {
+    version: '2026-09',
+    currency: 'USD',
+    providers: {
+      gcp: {
+        regions: {
+          'us-central1': 1,
+          'us-east1': 1,
+          'us-west1': 1,
+          'europe-west1': 1.1,
+          'europe-west3': 1.2,
+          'asia-east1': 1.15,
+          'asia-northeast1': 1.28,
+          'australia-southeast1': 1.35,
+        },
+        container: { vcpuHour: 0.0648, gibHour: 0.0072 },
+        defaultContainer: { cpus: 1, memoryGib: 0.5 },
+        databaseTiers: {
+          'db-f1-micro': 7.67,
+          'db-g1-small': 25.55,
+          'db-custom-1-3840': 49.93,
+          'db-custom-2-7680': 99.86,
+          'db-custom-4-15360': 199.72,
+        },
+        defaultDatabaseTier: 'db-f1-micro',
+        databaseStorageGb: 0.17,
+        minDatabaseStorageGb: 10,
+        cacheTiers: {
+          'Basic, 1 GB': 35.77,
+          'Basic, 5 GB': 178.85,
+          'Standard, 1 GB': 46.72,
+          'Standard, 5 GB': 233.6,
+        },
+        defaultCacheTier: 'Basic, 1 GB',
+        bucketStorageGb: 0.02,
+        queueMonthly: 0,
+        secretMonthly: 0.06,
+      },
+      aws: {
+        regions: {
+          'us-east-1': 1,
+          'us-east-2': 1,
+          'us-west-2': 1,
+          'eu-west-1': 1.1,
+          'eu-central-1': 1.16,
+          'ap-southeast-1': 1.2,
+          'ap-northeast-1': 1.25,
+          'ap-southeast-2': 1.25,
+        },
+        container: { vcpuHour: 0.04048, gibHour: 0.004445 },
+        defaultContainer: { cpus: 0.25, memoryGib: 0.5 },
+        databaseTiers: {
+          'db.t4g.micro': 11.68,
+          'db.t4g.small': 23.36,
+          'db.t4g.medium': 46.72,
+          'db.m7g.large': 122.64,
+        },
+        defaultDatabaseTier: 'db.t4g.micro',
+        databaseStorageGb: 0.115,
+        minDatabaseStorageGb: 20,
+        cacheTiers: {
+          'cache.t4g.micro': 11.68,
+          'cache.t4g.small': 23.36,
+          'cache.t4g.medium': 47.45,
+          'cache.m7g.large': 115.34,
+        },
+        defaultCacheTier: 'cache.t4g.micro',
+        bucketStorageGb: 0.023,
+        queueMonthly: 0.4,
+        secretMonthly: 0.4,
+      },
+      azure: {
+        regions: {
+          eastus: 1,
+          eastus2: 1,
+          westus2: 1,
+          westeurope: 1.12,
+          northeurope: 1.05,
+          southeastasia: 1.15,
+          japaneast: 1.25,
+          australiaeast: 1.25,
+        },
+        container: { vcpuHour: 0.0864, gibHour: 0.0108 },
+        defaultContainer: { cpus: 0.5, memoryGib: 1 },
+        databaseTiers: {
+          B_Standard_B1ms: 12.41,
+          B_Standard_B2s: 49.64,
+          GP_Standard_D2ds_v5: 125.56,
+          GP_Standard_D4ds_v5: 251.12,
+        },
+        defaultDatabaseTier: 'B_Standard_B1ms',
+        databaseStorageGb: 0.115,
+        minDatabaseStorageGb: 32,
+        cacheTiers: {
+          'Basic C0': 16.06,
+          'Basic C1': 40.15,
+          'Standard C0': 40.15,
+          'Standard C1': 100.74,
+        },
+        defaultCacheTier: 'Basic C0',
+        bucketStorageGb: 0.0208,
+        queueMonthly: 0.05,
+        secretMonthly: 0.03,
+      },
+    },
+  },
+];
+
+export const CURRENT_PRICING = PRICING_TABLES[PRICING_TABLES.length - 1];
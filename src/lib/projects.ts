@@ -0,0 +1,52 @@
+// Projects, stored by the backend
+
+import type { CloudProvider } from './providers';
+
+export interface Project {
+  id: string;
+  name: string;
+  repo_url: string;
+  repo_full_name: string;
+  provider: string;
+  // Missing for projects created before regions could be picked
+  region?: string;
+}
+
+export interface NewProject {
+  name: string;
+  repo_url: string;
+  repo_full_name: string;
+  provider: CloudProvider;
+  region: string;
+}
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL;
+
+export async function getProject(projectId: string): Promise<Project> {
+  const response = await fetch(`${API_URL}/api/projects/${projectId}`);
+  if (!response.ok) throw new Error('Failed to load project');
+  return response.json();
+}
+
+export async function createProject(project: NewProject): Promise<Project> {
+  const response = await fetch(`${API_URL}/api/projects`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(project),
+  });
+  if (!response.ok) throw new Error('Failed to create project');
+  return response.json();
+}
+
+export async function updateProject(
+  projectId: string,
+  changes: { provider: CloudProvider; region: string }
+): Promise<Project> {
+  const response = await fetch(`${API_URL}/api/projects/${projectId}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(changes),
+  });
+  if (!response.ok) throw new Error(`Failed to update project: ${response.statusText}`);
+  return response.json();
+}
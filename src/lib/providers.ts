@@ -0,0 +1,154 @@
+// Cloud providers and the managed services graph nodes map to on each of them
+
+import { getImageName } from './compose';
+import type { InfraNode } from './graph';
+
+export type CloudProvider = 'gcp' | 'aws' | 'azure';
+
+// Where a project deploys to
+export interface CloudTarget {
+  provider: CloudProvider;
+  region: string;
+}
+
+export interface ProviderInfo {
+  label: string;
+  regions: string[];
+  defaultRegion: string;
+}
+
+export const PROVIDERS: Record<CloudProvider, ProviderInfo> = {
+  gcp: {
+    label: 'Google Cloud',
+    regions: ['us-central1', 'us-east1', 'us-west1', 'europe-west1', 'europe-west3', 'asia-east1', 'asia-northeast1', 'australia-southeast1'],
+    defaultRegion: 'us-central1',
+  },
+  aws: {
+    label: 'AWS',
+    regions: ['us-east-1', 'us-east-2', 'us-west-2', 'eu-west-1', 'eu-central-1', 'ap-southeast-1', 'ap-northeast-1', 'ap-southeast-2'],
+    defaultRegion: 'us-east-1',
+  },
+  azure: {
+    label: 'Azure',
+    regions: ['eastus', 'eastus2', 'westus2', 'westeurope', 'northeurope', 'southeastasia', 'japaneast', 'australiaeast'],
+    defaultRegion: 'eastus',
+  },
+};
+
+export function isCloudProvider(value: string | undefined): value is CloudProvider {
+  return value === 'gcp' || value === 'aws' || value === 'azure';
+}
+
+// Region to deploy to, falling back to the provider's default for unknown regions
+export function providerRegion(provider: CloudProvider, region: string | undefined): string {
+  return region && PROVIDERS[provider].regions.includes(region) ? region : PROVIDERS[provider].defaultRegion;
+}
+
+// Managed building blocks a node can be deployed as
+export type ModuleType = 'service' | 'job' | 'postgres' | 'mysql' | 'redis' | 'queue' | 'bucket' | 'secret';
+
+export const MANAGED_SERVICES: Record<CloudProvider, Record<ModuleType, string>> = {
+  gcp: {
+    service: 'Cloud Run',
+    job: 'Cloud Run job',
+    postgres: 'Cloud SQL for PostgreSQL',
+    mysql: 'Cloud SQL for MySQL',
+    redis: 'Memorystore for Redis',
+    queue: 'Pub/Sub',
+    bucket: 'Cloud Storage',
+    secret: 'Secret Manager',
+  },
+  aws: {
+    service: 'ECS Fargate',
+    job: 'ECS Fargate task',
+    postgres: 'RDS for PostgreSQL',
+    mysql: 'RDS for MySQL',
+    redis: 'ElastiCache for Redis',
+    queue: 'SQS',
+    bucket: 'S3',
+    secret: 'Secrets Manager',
+  },
+  azure: {
+    service: 'Container Apps',
+    job: 'Container Apps job',
+    postgres: 'Azure Database for PostgreSQL',
+    mysql: 'Azure Database for MySQL',
+    redis: 'Azure Cache for Redis',
+    queue: 'Service Bus',
+    bucket: 'Blob Storage',
+    secret: 'Key Vault',
+  },
+};
+
+// Size each building block is generated with, matching the module defaults
+export const MANAGED_TIERS: Record<CloudProvider, Record<ModuleType, string>> = {
+  gcp: {
+    service: '1 vCPU, 512 MiB',
+    job: '1 vCPU, 512 MiB',
+    postgres: 'db-f1-micro',
+    mysql: 'db-f1-micro',
+    redis: 'Basic, 1 GB',
+    queue: 'Standard topic',
+    bucket: 'Standard storage',
+    secret: 'Automatic replication',
+  },
+  aws: {
+    service: '0.25 vCPU, 512 MiB',
+    job: '0.25 vCPU, 512 MiB',
+    postgres: 'db.t4g.micro, 20 GB',
+    mysql: 'db.t4g.micro, 20 GB',
+    redis: 'cache.t4g.micro',
+    queue: 'Standard queue',
+    bucket: 'S3 Standard',
+    secret: 'Standard',
+  },
+  azure: {
+    service: '0.5 vCPU, 1 GiB',
+    job: '0.5 vCPU, 1 GiB',
+    postgres: 'B_Standard_B1ms',
+    mysql: 'B_Standard_B1ms',
+    redis: 'Basic C0',
+    queue: 'Basic',
+    bucket: 'Standard LRS',
+    secret: 'Standard',
+  },
+};
+
+const POSTGRES_IMAGES = ['postgres', 'postgis', 'postgresql', 'timescaledb'];
+const MYSQL_IMAGES = ['mysql', 'mariadb'];
+const REDIS_IMAGES = ['redis', 'valkey', 'keydb'];
+
+// Which managed building block a node maps to, or why it does not map to one
+export function managedModule(node: Pick<InfraNode, 'id' | 'type' | 'data'>): { type: ModuleType } | { reason: string } {
+  const { data } = node;
+  if (data.resourceType) return { reason: 'Already defined in Terraform' };
+  if (data.volumeName || node.id.startsWith('volume:')) return { reason: 'Volumes are replaced by the managed service that mounts them' };
+
+  const image = data.dockerComposeConfig?.image ? getImageName(data.dockerComposeConfig.image) : '';
+  const isImage = (names: string[]) => names.some((name) => image === name || image.startsWith(`${name}-`));
+
+  switch (node.type) {
+    case 'database':
+      if (isImage(POSTGRES_IMAGES)) return { type: 'postgres' };
+      if (isImage(MYSQL_IMAGES)) return { type: 'mysql' };
+      return { reason: `No managed equivalent for ${image || 'this database'}` };
+    case 'cache':
+      return isImage(REDIS_IMAGES) ? { type: 'redis' } : { reason: `No managed equivalent for ${image || 'this cache'}` };
+    case 'queue':
+      return { type: 'queue' };
+    case 'storage':
+      return { type: 'bucket' };
+    case 'secret':
+      return { type: 'secret' };
+    case 'job':
+      return { type: 'job' };
+    case 'service':
+      return data.dockerComposeConfig || data.kubernetesKind ? { type: 'service' } : { reason: 'Not a container' };
+    case 'loadbalancer':
+      return { reason: 'Ingress is provided by the managed service platform' };
+    case 'network':
+      return { reason: 'Networking is provided by the managed service platform' };
+    default:
+      return { reason: 'Not deployed by the generated Terraform' };
+  }
+}
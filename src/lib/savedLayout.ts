@@ -0,0 +1,187 @@
+// Saved graph layouts and annotations, stored per project and branch with the
+// project's analysis
+//
+// A saved layout only records what the analysis cannot reproduce: node positions,
+// group sizes, nodes and edges added by hand or from chat, analyzed nodes and
+// edges that were removed, and notes. It is laid
+// over a fresh analysis on load, so positions survive re-analysis for every node
+// whose ID still matches.
+
+import type { Edge, XYPosition } from '@xyflow/react';
+import { layoutGraph } from './layout';
+import type { InfraGraph, InfraNode } from './graph';
+
+export interface SavedLayout {
+  branch: string;
+  positions: Record<string, XYPosition>;
+  // Sizes of group nodes
+  sizes: Record<string, { width: number; height: number }>;
+  // Nodes and edges that are not part of the analysis
+  nodes: InfraNode[];
+  edges: Edge[];
+  notes: Record<string, string>;
+  // Analyzed node IDs the layout was made for
+  node_ids: string[];
+  // Analyzed nodes and edges that were removed; missing from layouts saved before removals were kept
+  removed_node_ids?: string[];
+  removed_edge_ids?: string[];
+  updated_at?: string;
+}
+
+// Differences between the analysis a layout was saved for and the current one
+export interface LayoutConflict {
+  added: string[];
+  removed: string[];
+  savedAt?: string;
+}
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL;
+
+// Space between the top of the lowest saved node and nodes placed after a re-analysis
+const NEW_NODES_GAP = 240;
+
+function layoutUrl(projectId: string, branch: string): string {
+  return `${API_URL}/api/projects/${projectId}/analysis/layout?branch=${encodeURIComponent(branch)}`;
+}
+
+export async function getSavedLayout(projectId: string, branch: string): Promise<SavedLayout | null> {
+  const response = await fetch(layoutUrl(projectId, branch));
+  if (response.status === 404) return null;
+  if (!response.ok) throw new Error(`Failed to load saved layout: ${response.statusText}`);
+  return response.json();
+}
+
+export async function saveLayout(projectId: string, layout: SavedLayout): Promise<SavedLayout> {
+  const response = await fetch(layoutUrl(projectId, layout.branch), {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(layout),
+  });
+  if (!response.ok) throw new Error(`Failed to save layout: ${response.statusText}`);
+  return response.json();
+}
+
+// Record the parts of `graph` that differ from the `analyzed` graph it started from
+export function captureLayout(graph: InfraGraph, analyzed: InfraGraph, branch: string): SavedLayout {
+  const analyzedNodeIds = new Set(analyzed.nodes.map((node) => node.id));
+  const analyzedEdgeIds = new Set(analyzed.edges.map((edge) => edge.id));
+  const nodeIds = new Set(graph.nodes.map((node) => node.id));
+  const edgeIds = new Set(graph.edges.map((edge) => edge.id));
+
+  const positions: SavedLayout['positions'] = {};
+  const sizes: SavedLayout['sizes'] = {};
+  const notes: SavedLayout['notes'] = {};
+
+  for (const node of graph.nodes) {
+    positions[node.id] = { x: Math.round(node.position.x), y: Math.round(node.position.y) };
+    const { width, height } = node.style ?? {};
+    if (typeof width === 'number' && typeof height === 'number') sizes[node.id] = { width, height };
+    if (node.data.note) notes[node.id] = node.data.note;
+  }
+
+  return {
+    branch,
+    positions,
+    sizes,
+    // Only what is needed to rebuild the element, not React Flow's runtime state
+    nodes: graph.nodes
+      .filter((node) => !analyzedNodeIds.has(node.id))
+      .map(({ id, type, data, parentId, extent }) => ({
+        id,
+        type,
+        data,
+        position: positions[id],
+        ...(parentId ? { parentId, extent } : {}),
+      })),
+    edges: graph.edges
+      .filter((edge) => !analyzedEdgeIds.has(edge.id))
+      .map(({ id, source, target, sourceHandle, targetHandle, label, animated }) => ({
+        id,
+        source,
+        target,
+        sourceHandle,
+        targetHandle,
+        label,
+        animated,
+      })),
+    notes,
+    node_ids: analyzed.nodes.map((node) => node.id),
+    removed_node_ids: analyzed.nodes.filter((node) => !nodeIds.has(node.id)).map((node) => node.id),
+    removed_edge_ids: analyzed.edges.filter((edge) => !edgeIds.has(edge.id)).map((edge) => edge.id),
+  };
+}
+
+// Lay a saved layout over a fresh analysis. Nodes and edges removed from the
+// layout stay removed; nodes it has no position for are laid out on their own
+// below the saved ones.
+export function restoreLayout(analyzed: InfraGraph, layout: SavedLayout): { graph: InfraGraph; conflict: LayoutConflict | null } {
+  const analyzedIds = new Set(analyzed.nodes.map((node) => node.id));
+  const removedNodeIds = new Set(layout.removed_node_ids ?? []);
+  const removedEdgeIds = new Set(layout.removed_edge_ids ?? []);
+  const nodes: InfraNode[] = [
+    // Children of a removed group went with it
+    ...analyzed.nodes.filter((node) => !removedNodeIds.has(node.id) && !(node.parentId && removedNodeIds.has(node.parentId))),
+    ...layout.nodes.filter((node) => !analyzedIds.has(node.id)),
+  ].map((node) => {
+    const size = layout.sizes[node.id];
+    const note = layout.notes[node.id];
+    return {
+      ...node,
+      position: layout.positions[node.id] ?? node.position,
+      ...(size ? { style: { ...node.style, ...size } } : {}),
+      ...(note ? { data: { ...node.data, note } } : {}),
+    };
+  });
+
+  const nodeIds = new Set(nodes.map((node) => node.id));
+  const edgeIds = new Set(analyzed.edges.map((edge) => edge.id));
+  const edges = [
+    ...analyzed.edges.filter(
+      (edge) => !removedEdgeIds.has(edge.id) && nodeIds.has(edge.source) && nodeIds.has(edge.target)
+    ),
+    ...layout.edges.filter((edge) => !edgeIds.has(edge.id) && nodeIds.has(edge.source) && nodeIds.has(edge.target)),
+  ];
+
+  let graph: InfraGraph = { nodes, edges };
+  const unplaced = nodes.filter((node) => !layout.positions[node.id]);
+  if (unplaced.length === nodes.length) {
+    graph = layoutGraph(graph);
+  } else if (unplaced.length > 0) {
+    graph = placeNewNodes(graph, new Set(unplaced.map((node) => node.id)));
+  }
+
+  const savedIds = new Set(layout.node_ids);
+  const added = analyzed.nodes.filter((node) => !savedIds.has(node.id)).map((node) => node.id);
+  const removed = layout.node_ids.filter((id) => !analyzedIds.has(id));
+
+  return {
+    graph,
+    conflict: added.length > 0 || removed.length > 0 ? { added, removed, savedAt: layout.updated_at } : null,
+  };
+}
+
+function placeNewNodes(graph: InfraGraph, newIds: Set<string>): InfraGraph {
+  const placed = graph.nodes.filter((node) => !newIds.has(node.id) && !node.parentId);
+  const bottom = Math.max(
+    0,
+    ...placed.map((node) => node.position.y + (node.measured?.height ?? (node.style?.height as number | undefined) ?? 0))
+  );
+
+  // New children of saved groups keep the position the analysis gave them
+  const sub = layoutGraph({
+    nodes: graph.nodes.filter((node) => newIds.has(node.id) && (!node.parentId || newIds.has(node.parentId))),
+    edges: graph.edges.filter((edge) => newIds.has(edge.source) && newIds.has(edge.target)),
+  });
+  const positions = new Map(sub.nodes.map((node) => [node.id, node]));
+
+  return {
+    nodes: graph.nodes.map((node) => {
+      const laidOut = positions.get(node.id);
+      if (!laidOut) return node;
+      // Children keep their position relative to their group
+      const offset = node.parentId && newIds.has(node.parentId) ? 0 : bottom + NEW_NODES_GAP;
+      return { ...laidOut, position: { x: laidOut.position.x, y: laidOut.position.y + offset } };
+    }),
+    edges: graph.edges,
+  };
+}
@@ -0,0 +1,223 @@
+// Credential detection for file changes about to be committed
+//
+// New content is checked against known credential formats and for
+// high-entropy values assigned to a key. Only values the old content did not
+// already have are reported, so a change is never blocked by a secret that is
+// already in the repository. Detected values can be swapped for an environment
+// reference or a secret manager placeholder before committing.
+
+import { FileChange, getChangeStatus } from './changes';
+import { envVarName } from './composeEdit';
+import type { CloudProvider } from './providers';
+
+export type SecretReplacement = 'env' | 'secret-manager';
+
+export interface SecretMatch {
+  // Unique within a change set
+  id: string;
+  ruleId: string;
+  label: string;
+  path: string;
+  // Offsets of the secret value in the new content
+  start: number;
+  end: number;
+  // 1-based lines the value spans
+  line: number;
+  endLine: number;
+  // Variable name for the replacement
+  name: string;
+  // Found by entropy rather than a known format, so it may be a false positive
+  heuristic: boolean;
+}
+
+interface SecretRule {
+  id: string;
+  label: string;
+  pattern: RegExp;
+  // Capture group holding the value; the whole match by default
+  group?: number;
+  name: string;
+  // Variable name from the key the value is assigned to, if any
+  nameFor?: (key: string | undefined) => string;
+  // Only applies to files whose content passes this check
+  applies?: (content: string) => boolean;
+}
+
+// Most specific first; a value is reported by the first rule that matches it
+const SECRET_RULES: SecretRule[] = [
+  {
+    id: 'gcp-service-account',
+    label: 'GCP service account key',
+    pattern: /"private_key"\s*:\s*"(-----BEGIN[^"]*)"/g,
+    group: 1,
+    name: 'GOOGLE_PRIVATE_KEY',
+    nameFor: () => 'GOOGLE_PRIVATE_KEY',
+    applies: (content) => /"type"\s*:\s*"service_account"/.test(content),
+  },
+  {
+    id: 'private-key',
+    label: 'Private key',
+    // Up to the END marker; without one, over the base64 lines that follow
+    // (full-width lines, then a shorter last line) so the key body is caught too
+    pattern:
+      /-----BEGIN ((?:[A-Z0-9]+ )*)PRIVATE KEY-----(?:[\s\S]*?-----END \1PRIVATE KEY-----|(?:\r?\n[ \t]*[A-Za-z0-9+/]{60,}={0,2})*(?:\r?\n[ \t]*[A-Za-z0-9+/]+={0,2}(?=\r?\n|$))?)/g,
+    name: 'PRIVATE_KEY',
+  },
+  {
+    id: 'aws-access-key',
+    label: 'AWS access key ID',
+    pattern: /\b((?:AKIA|ASIA)[0-9A-Z]{16})\b/g,
+    group: 1,
+    name: 'AWS_ACCESS_KEY_ID',
+  },
+  {
+    id: 'aws-secret-key',
+    label: 'AWS secret access key',
+    pattern: /aws_?secret_?access_?key["']?\s*[:=]\s*["']?([A-Za-z0-9/+=]{40})(?![A-Za-z0-9/+=])/gi,
+    group: 1,
+    name: 'AWS_SECRET_ACCESS_KEY',
+  },
+  {
+    id: 'github-token',
+    label: 'GitHub token',
+    pattern: /\b((?:ghp|gho|ghu|ghs|ghr)_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g,
+    group: 1,
+    name: 'GITHUB_TOKEN',
+  },
+  {
+    id: 'database-url',
+    label: 'Database URL with password',
+    pattern: /\b(?:postgres(?:ql)?|mysql|mariadb|mongodb(?:\+srv)?|rediss?|amqps?|mssql|sqlserver):\/\/[^:/\s@]+:([^@\s"']+)@/gi,
+    group: 1,
+    name: 'DATABASE_PASSWORD',
+    nameFor: (key) => {
+      const base = key?.replace(/_?PASSWORD$/, '');
+      return base ? `${base}_PASSWORD` : 'DATABASE_PASSWORD';
+    },
+  },
+];
+
+// A value assigned to a key, as in `KEY=value`, `key: value` or `"key": "value"`
+const ASSIGNMENT = /([A-Za-z_][A-Za-z0-9_.-]*)["']?\s*[:=]\s*["']?([A-Za-z0-9+/=_-]{20,})/g;
+// Bits per character above which an assigned value is treated as random.
+// Hex strings such as commit SHAs stay below it.
+const ENTROPY_THRESHOLD = 4.2;
+// Files full of hashes that are not secrets
+const LOCKFILES = /(^|\/)(package-lock\.json|yarn\.lock|pnpm-lock\.yaml|go\.sum|[^/]+\.lock)$/;
+
+function entropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) counts.set(char, (counts.get(char) ?? 0) + 1);
+  let bits = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    bits -= p * Math.log2(p);
+  }
+  return bits;
+}
+
+function isPlaceholder(value: string): boolean {
+  return value.includes('${') || value.startsWith('$') || /^<.*>$/.test(value) || /^(x+|\*+|changeme|password)$/i.test(value);
+}
+
+function lineAt(content: string, offset: number): number {
+  let line = 1;
+  for (let i = 0; i < offset; i++) if (content[i] === '\n') line++;
+  return line;
+}
+
+// Key the line holding `offset` assigns to, as in `KEY=...`, `- KEY=...` or `"key": ...`
+function keyOfLine(content: string, offset: number): string | undefined {
+  const lineStart = content.lastIndexOf('\n', offset - 1) + 1;
+  const match = content.slice(lineStart, offset).match(/^\s*(?:-\s*)?["']?([A-Za-z_][A-Za-z0-9_.-]*)["']?\s*[:=]/);
+  return match ? envVarName(match[1]) || undefined : undefined;
+}
+
+export function detectSecrets(file: FileChange): SecretMatch[] {
+  const { path, oldContent, newContent } = file;
+  const matches: SecretMatch[] = [];
+  const overlaps = (start: number, end: number) => matches.some((match) => start < match.end && end > match.start);
+
+  const add = (ruleId: string, label: string, start: number, value: string, name: string, heuristic: boolean) => {
+    const end = start + value.length;
+    if (isPlaceholder(value) || oldContent.includes(value) || overlaps(start, end)) return;
+    matches.push({
+      id: `${path}:${start}`,
+      ruleId,
+      label,
+      path,
+      start,
+      end,
+      line: lineAt(newContent, start),
+      endLine: lineAt(newContent, end),
+      name,
+      heuristic,
+    });
+  };
+
+  for (const rule of SECRET_RULES) {
+    if (rule.applies && !rule.applies(newContent)) continue;
+    for (const match of newContent.matchAll(rule.pattern)) {
+      const value = match[rule.group ?? 0];
+      const start = (match.index ?? 0) + match[0].indexOf(value);
+      const key = keyOfLine(newContent, start);
+      add(rule.id, rule.label, start, value, rule.nameFor ? rule.nameFor(key) : key ?? rule.name, false);
+    }
+  }
+
+  if (!LOCKFILES.test(path)) {
+    for (const match of newContent.matchAll(ASSIGNMENT)) {
+      const value = match[2];
+      if (entropy(value) < ENTROPY_THRESHOLD || !/\d/.test(value) || !/[A-Za-z]/.test(value)) continue;
+      const start = (match.index ?? 0) + match[0].lastIndexOf(value);
+      add('high-entropy', 'High-entropy value', start, value, envVarName(match[1]) || 'SECRET', true);
+    }
+  }
+
+  return matches.sort((a, b) => a.start - b.start);
+}
+
+export function detectChangeSetSecrets(files: FileChange[]): SecretMatch[] {
+  return files.filter((file) => getChangeStatus(file) !== 'deleted').flatMap(detectSecrets);
+}
+
+function secretId(name: string): string {
+  return name.toLowerCase().replace(/_/g, '-');
+}
+
+// What a secret is replaced with. Environment references use the syntax of the
+// file; secret manager placeholders name the secret in the project's provider.
+export function secretPlaceholder(match: SecretMatch, replacement: SecretReplacement, provider: CloudProvider): string {
+  if (replacement === 'env') {
+    return match.path.endsWith('.tf') ? `\${var.${match.name.toLowerCase()}}` : `\${${match.name}}`;
+  }
+
+  const id = secretId(match.name);
+  switch (provider) {
+    case 'gcp':
+      return `projects/PROJECT_ID/secrets/${id}/versions/latest`;
+    case 'aws':
+      return `arn:aws:secretsmanager:REGION:ACCOUNT_ID:secret:${id}`;
+    case 'azure':
+      return `@Microsoft.KeyVault(SecretUri=https://VAULT_NAME.vault.azure.net/secrets/${id})`;
+  }
+}
+
+export function replaceSecrets(
+  content: string,
+  matches: SecretMatch[],
+  replacement: SecretReplacement,
+  provider: CloudProvider
+): string {
+  return [...matches]
+    .sort((a, b) => b.start - a.start)
+    .reduce(
+      (text, match) => text.slice(0, match.start) + secretPlaceholder(match, replacement, provider) + text.slice(match.end),
+      content
+    );
+}
+
+// First and last characters only, for showing a detected value
+export function maskSecret(value: string): string {
+  return value.length <= 8 ? '•'.repeat(value.length) : `${value.slice(0, 4)}${'•'.repeat(8)}${value.slice(-2)}`;
+}
@@ -0,0 +1,522 @@
+// Offline security and best-practice checks for compose files and Dockerfiles
+//
+// Rules look at one compose service or one Dockerfile at a time and report
+// findings with a severity. Rules with an obvious remedy describe a fix, which
+// `fixFinding` applies to the file's current content so it can be reviewed as a
+// change like any other.
+
+import { Document, isMap, isScalar, isSeq, LineCounter, Node, parseDocument, Scalar, YAMLMap } from 'yaml';
+import { ComposeFile, ComposeService, getEnvironment, getImageName, inferNodeKind } from './compose';
+import { editCompose } from './composeEdit';
+import { splitImage } from './composeForm';
+import { classifyInfraFile } from './github';
+import type { InfraNode } from './graph';
+
+export type Severity = 'critical' | 'high' | 'medium' | 'low';
+
+// Most severe first
+export const SEVERITIES: Severity[] = ['critical', 'high', 'medium', 'low'];
+
+export type RuleId =
+  | 'privileged'
+  | 'plaintext-secret'
+  | 'database-port'
+  | 'root-user'
+  | 'image-unpinned'
+  | 'missing-healthcheck'
+  | 'missing-limits'
+  | 'dockerfile-unpinned'
+  | 'dockerfile-root'
+  | 'add-remote-url'
+  | 'add-local-file';
+
+export interface Finding {
+  // Stable across edits elsewhere in the file, unlike the line
+  id: string;
+  ruleId: RuleId;
+  severity: Severity;
+  title: string;
+  message: string;
+  path: string;
+  line?: number;
+  // Compose service the finding is about
+  service?: string;
+  // Environment variable or Dockerfile instruction the finding is about
+  subject?: string;
+  // What the proposed fix does, for rules that have one
+  fix?: string;
+}
+
+export interface ScannedFile {
+  path: string;
+  content: string;
+}
+
+const SECRET_NAME = /(PASSWORD|PASSWD|SECRET|TOKEN|API_?KEY|PRIVATE_KEY|ACCESS_KEY|CREDENTIALS?)$/i;
+const URL_CREDENTIALS = /(:\/\/[^:/@\s]+:)([^@\s]+)@/;
+const ARCHIVE = /\.(tar|tar\.gz|tgz|tar\.bz2|tbz2|tar\.xz|txz)$/i;
+
+// Healthchecks for images whose probe command is well known
+const HEALTHCHECKS: Array<{ images: string[]; test: string }> = [
+  { images: ['postgres', 'postgis', 'postgresql', 'timescaledb'], test: 'pg_isready' },
+  { images: ['mysql', 'mariadb'], test: 'mysqladmin ping -h localhost' },
+  { images: ['redis', 'keydb'], test: 'redis-cli ping' },
+  { images: ['valkey'], test: 'valkey-cli ping' },
+  { images: ['mongo', 'mongodb'], test: `mongosh --quiet --eval "db.adminCommand('ping')"` },
+  { images: ['rabbitmq'], test: 'rabbitmq-diagnostics -q ping' },
+];
+
+// Limits proposed for services that set none
+const DEFAULT_LIMITS = { cpus: '0.5', memory: '512M' };
+// Unprivileged user proposed for containers that run as root
+const UNPRIVILEGED_USER = '1000:1000';
+
+// Quoted so values like `1000:1000` are never read as numbers
+function quoted(value: string): Scalar {
+  const scalar = new Scalar(value);
+  scalar.type = Scalar.QUOTE_DOUBLE;
+  return scalar;
+}
+
+function findingId(ruleId: RuleId, path: string, service?: string, subject?: string): string {
+  return [ruleId, path, service ?? '', subject ?? ''].join(':');
+}
+
+function isRoot(user: string): boolean {
+  return /^(root|0)(:|$)/.test(user.trim());
+}
+
+function knownHealthcheck(image: string | undefined): string | undefined {
+  const name = image ? getImageName(image) : '';
+  return HEALTHCHECKS.find((check) => check.images.some((candidate) => name === candidate || name.startsWith(`${candidate}-`)))
+    ?.test;
+}
+
+function isUnpinned(image: string): boolean {
+  if (image.includes('@') || image.includes('${')) return false;
+  const { tag } = splitImage(image);
+  return !tag || tag === 'latest';
+}
+
+// Published ports that are reachable from other hosts
+function openPorts(service: ComposeService): string[] {
+  return (service.ports ?? []).flatMap((port) => {
+    if (typeof port === 'object') {
+      return port.host_ip && port.host_ip !== '0.0.0.0' ? [] : [String(port.published ?? port.target)];
+    }
+    const parts = String(port).split(':');
+    return parts.length >= 3 || String(port).startsWith('[') ? [] : [parts[0]];
+  });
+}
+
+export function scanCompose(path: string, content: string): Finding[] {
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(content, { lineCounter });
+  if (doc.errors.length > 0) return [];
+  const compose = (doc.toJS() ?? {}) as ComposeFile;
+
+  const lineOf = (keys: Array<string | number>) => {
+    let node = doc.getIn(keys, true) as Node | undefined;
+    // `NAME=value` items of an environment list
+    const parent = doc.getIn(keys.slice(0, -1), true);
+    if (!node && isSeq(parent)) {
+      node = parent.items.find((item) => isScalar(item) && String(item.value).split('=')[0] === keys[keys.length - 1]) as
+        | Node
+        | undefined;
+    }
+    return node?.range ? lineCounter.linePos(node.range[0]).line : undefined;
+  };
+
+  const findings: Finding[] = [];
+  for (const [name, service] of Object.entries(compose.services ?? {})) {
+    if (!service) continue;
+    const report = (finding: Omit<Finding, 'id' | 'path' | 'service' | 'line'>, keys: Array<string | number>) =>
+      findings.push({
+        ...finding,
+        id: findingId(finding.ruleId, path, name, finding.subject),
+        path,
+        service: name,
+        line: lineOf(['services', name, ...keys]) ?? lineOf(['services', name]),
+      });
+
+    if (service.privileged === true) {
+      report(
+        {
+          ruleId: 'privileged',
+          severity: 'critical',
+          title: 'Privileged container',
+          message: `${name} runs privileged, which gives it root access to the host.`,
+          fix: 'Remove `privileged: true`',
+        },
+        ['privileged']
+      );
+    }
+
+    for (const [variable, value] of Object.entries(getEnvironment(service))) {
+      if (!value || value.includes('${')) continue;
+      if (SECRET_NAME.test(variable)) {
+        report(
+          {
+            ruleId: 'plaintext-secret',
+            severity: 'high',
+            title: 'Secret in plain text',
+            message: `${variable} is committed in plain text.`,
+            subject: variable,
+            fix: `Read ${variable} from the environment or .env file`,
+          },
+          ['environment', variable]
+        );
+      } else if (URL_CREDENTIALS.test(value)) {
+        report(
+          {
+            ruleId: 'plaintext-secret',
+            severity: 'high',
+            title: 'Password in connection URL',
+            message: `${variable} has a password written into the URL.`,
+            subject: variable,
+            fix: `Read the password from \${${variable}_PASSWORD}`,
+          },
+          ['environment', variable]
+        );
+      }
+    }
+
+    const kind = inferNodeKind(service.image);
+    const ports = openPorts(service);
+    if ((kind === 'database' || kind === 'cache') && ports.length > 0) {
+      report(
+        {
+          ruleId: 'database-port',
+          severity: 'high',
+          title: 'Data store published to the network',
+          message: `${name} publishes port ${ports.join(', ')} on every host interface.`,
+          fix: 'Publish the ports on 127.0.0.1 only',
+        },
+        ['ports']
+      );
+    }
+
+    if (service.user !== undefined && isRoot(String(service.user))) {
+      report(
+        {
+          ruleId: 'root-user',
+          severity: 'medium',
+          title: 'Runs as root',
+          message: `${name} is configured to run as root.`,
+          fix: `Run as ${UNPRIVILEGED_USER}`,
+        },
+        ['user']
+      );
+    }
+
+    if (service.image && !service.build && isUnpinned(service.image)) {
+      report(
+        {
+          ruleId: 'image-unpinned',
+          severity: 'medium',
+          title: 'Unpinned image',
+          message: `${service.image} can change between deploys. Pin a version tag or digest.`,
+        },
+        ['image']
+      );
+    }
+
+    if (!service.healthcheck || service.healthcheck.disable) {
+      const test = knownHealthcheck(service.image);
+      report(
+        {
+          ruleId: 'missing-healthcheck',
+          severity: 'low',
+          title: 'No healthcheck',
+          message: `Nothing tells whether ${name} is ready, so dependents can start too early.`,
+          fix: test ? `Add a healthcheck running \`${test}\`` : undefined,
+        },
+        ['healthcheck']
+      );
+    }
+
+    if (!service.deploy?.resources?.limits && service.mem_limit === undefined && service.cpus === undefined) {
+      report(
+        {
+          ruleId: 'missing-limits',
+          severity: 'low',
+          title: 'No resource limits',
+          message: `${name} can use all of the host's CPU and memory.`,
+          fix: `Limit it to ${DEFAULT_LIMITS.cpus} CPU and ${DEFAULT_LIMITS.memory} memory`,
+        },
+        ['deploy']
+      );
+    }
+  }
+
+  return findings;
+}
+
+interface Instruction {
+  keyword: string;
+  args: string;
+  line: number;
+}
+
+// Instructions with their continuation lines joined, skipping comments
+function parseDockerfile(content: string): Instruction[] {
+  const instructions: Instruction[] = [];
+  let current: Instruction | null = null;
+
+  content.split('\n').forEach((raw, index) => {
+    const text = raw.trim();
+    if (!current && (!text || text.startsWith('#'))) return;
+
+    const continues = text.endsWith('\\');
+    const part = continues ? text.slice(0, -1) : text;
+    if (current) {
+      if (!text.startsWith('#')) current.args = `${current.args} ${part.trim()}`.trim();
+    } else {
+      const [keyword, ...rest] = part.split(/\s+/);
+      current = { keyword: keyword.toUpperCase(), args: rest.join(' '), line: index + 1 };
+    }
+
+    if (!continues) {
+      instructions.push(current);
+      current = null;
+    }
+  });
+  if (current) instructions.push(current);
+
+  return instructions;
+}
+
+// Source arguments of an ADD or COPY, without flags and the destination
+function sources(args: string): string[] {
+  let words = args.split(/\s+/).filter((word) => !word.startsWith('--'));
+  if (args.startsWith('[')) {
+    try {
+      words = JSON.parse(args);
+    } catch {
+      // Not valid JSON, so Docker treats it as the shell form too
+    }
+  }
+  return words.slice(0, -1);
+}
+
+export function scanDockerfile(path: string, content: string): Finding[] {
+  const instructions = parseDockerfile(content);
+  const findings: Finding[] = [];
+  const report = (finding: Omit<Finding, 'id' | 'path'>) =>
+    findings.push({ ...finding, id: findingId(finding.ruleId, path, undefined, finding.subject), path });
+
+  const stages = new Set<string>();
+  let finalStage = 0;
+  instructions.forEach((instruction, index) => {
+    if (instruction.keyword === 'FROM') {
+      const [image, as, alias] = instruction.args.split(/\s+/).filter((word) => !word.startsWith('--'));
+      if (image && image !== 'scratch' && !stages.has(image.toLowerCase()) && isUnpinned(image)) {
+        report({
+          ruleId: 'dockerfile-unpinned',
+          severity: 'medium',
+          title: 'Unpinned base image',
+          message: `${image} can change between builds. Pin a version tag or digest.`,
+          line: instruction.line,
+          subject: `FROM ${image}`,
+        });
+      }
+      if (as?.toUpperCase() === 'AS' && alias) stages.add(alias.toLowerCase());
+      finalStage = index;
+    }
+
+    if (instruction.keyword === 'ADD') {
+      const added = sources(instruction.args);
+      if (added.some((source) => /^https?:\/\//.test(source))) {
+        report({
+          ruleId: 'add-remote-url',
+          severity: 'medium',
+          title: 'ADD from a URL',
+          message: 'ADD downloads the file without verifying it. Use `ADD --checksum=...` or download and verify it in a RUN step.',
+          line: instruction.line,
+          subject: `ADD ${instruction.args}`,
+        });
+      } else if (added.length > 0 && !added.some((source) => ARCHIVE.test(source))) {
+        report({
+          ruleId: 'add-local-file',
+          severity: 'low',
+          title: 'ADD instead of COPY',
+          message: 'ADD also extracts archives and fetches URLs. COPY does only what is meant here.',
+          line: instruction.line,
+          subject: `ADD ${instruction.args}`,
+          fix: 'Use COPY',
+        });
+      }
+    }
+  });
+
+  const final = instructions.slice(finalStage);
+  const base = final[0]?.keyword === 'FROM' ? final[0].args : '';
+  const user = final.filter((instruction) => instruction.keyword === 'USER').pop();
+  if (final.length > 0 && (user ? isRoot(user.args) : !/nonroot|rootless/.test(base))) {
+    report({
+      ruleId: 'dockerfile-root',
+      severity: 'medium',
+      title: 'Container runs as root',
+      message: user
+        ? 'The final USER instruction switches to root.'
+        : 'There is no USER instruction, so the container runs as root unless the base image sets a user.',
+      line: user?.line ?? final[0].line,
+      fix: `Switch to user ${UNPRIVILEGED_USER} before the container starts`,
+    });
+  }
+
+  return findings;
+}
+
+export function scanFile(file: ScannedFile): Finding[] {
+  switch (classifyInfraFile(file.path)) {
+    case 'compose':
+      return scanCompose(file.path, file.content);
+    case 'dockerfile':
+      return scanDockerfile(file.path, file.content);
+    default:
+      return [];
+  }
+}
+
+export function scanFiles(files: ScannedFile[]): Finding[] {
+  return files.flatMap(scanFile);
+}
+
+export function worstSeverity(findings: Finding[]): Severity | undefined {
+  return SEVERITIES.find((severity) => findings.some((finding) => finding.severity === severity));
+}
+
+function normalizePath(path: string): string {
+  const parts: string[] = [];
+  for (const part of path.split('/')) {
+    if (part === '..') parts.pop();
+    else if (part && part !== '.') parts.push(part);
+  }
+  return parts.join('/');
+}
+
+// Repository path of the Dockerfile a compose service builds from
+export function serviceDockerfile(composePath: string, service: ComposeService): string | undefined {
+  if (!service.build) return undefined;
+  const dir = composePath.includes('/') ? composePath.slice(0, composePath.lastIndexOf('/')) : '';
+  const context = typeof service.build === 'string' ? service.build : service.build.context ?? '.';
+  const dockerfile = typeof service.build === 'string' ? 'Dockerfile' : service.build.dockerfile ?? 'Dockerfile';
+  return normalizePath(`${dir}/${context}/${dockerfile}`);
+}
+
+// Findings about each compose service node, including its Dockerfile's
+export function findingsByNode(findings: Finding[], nodes: InfraNode[]): Record<string, Finding[]> {
+  const result: Record<string, Finding[]> = {};
+  for (const node of nodes) {
+    const { serviceName, sourcePath, dockerComposeConfig } = node.data;
+    if (!serviceName || !sourcePath || !dockerComposeConfig) continue;
+
+    const dockerfile = serviceDockerfile(sourcePath, dockerComposeConfig);
+    const matches = findings.filter(
+      (finding) => (finding.path === sourcePath && finding.service === serviceName) || finding.path === dockerfile
+    );
+    if (matches.length > 0) result[node.id] = matches;
+  }
+  return result;
+}
+
+function setEnvironmentValue(doc: Document, service: string, name: string, value: string) {
+  const environment = doc.getIn(['services', service, 'environment'], true);
+  if (isMap(environment)) {
+    environment.set(name, value);
+  } else if (isSeq(environment)) {
+    const index = environment.items.findIndex((item) => String(isScalar(item) ? item.value : item).split('=')[0] === name);
+    if (index !== -1) environment.set(index, doc.createNode(`${name}=${value}`));
+  }
+}
+
+function fixCompose(doc: Document, finding: Finding, service: ComposeService) {
+  const name = finding.service as string;
+  const path = ['services', name];
+
+  switch (finding.ruleId) {
+    case 'privileged':
+      doc.deleteIn([...path, 'privileged']);
+      break;
+    case 'plaintext-secret': {
+      const variable = finding.subject as string;
+      const value = getEnvironment(service)[variable];
+      const replacement = SECRET_NAME.test(variable)
+        ? `\${${variable}}`
+        : value.replace(URL_CREDENTIALS, `$1\${${variable}_PASSWORD}@`);
+      setEnvironmentValue(doc, name, variable, replacement);
+      break;
+    }
+    case 'database-port': {
+      const ports = doc.getIn([...path, 'ports'], true);
+      if (!isSeq(ports)) break;
+      ports.items.forEach((item, index) => {
+        if (item instanceof YAMLMap) {
+          if (!item.get('host_ip')) item.set('host_ip', '127.0.0.1');
+          return;
+        }
+        const port = String(isScalar(item) ? item.value : item);
+        const parts = port.split(':');
+        if (parts.length >= 3 || port.startsWith('[')) return;
+        ports.set(index, quoted(parts.length === 1 ? `127.0.0.1::${port}` : `127.0.0.1:${port}`));
+      });
+      break;
+    }
+    case 'root-user':
+      doc.setIn([...path, 'user'], quoted(UNPRIVILEGED_USER));
+      break;
+    case 'missing-healthcheck': {
+      const test = knownHealthcheck(service.image);
+      if (test) {
+        doc.setIn([...path, 'healthcheck'], doc.createNode({ test, interval: '10s', timeout: '5s', retries: 5 }));
+      }
+      break;
+    }
+    case 'missing-limits':
+      doc.setIn([...path, 'deploy', 'resources', 'limits'], doc.createNode(DEFAULT_LIMITS));
+      break;
+  }
+}
+
+function fixDockerfile(content: string, finding: Finding): string {
+  const lines = content.split('\n');
+  const index = (finding.line ?? 1) - 1;
+
+  switch (finding.ruleId) {
+    case 'add-local-file':
+      lines[index] = lines[index].replace(/^(\s*)ADD\b/i, '$1COPY');
+      break;
+    case 'dockerfile-root': {
+      const instructions = parseDockerfile(content);
+      const finalStage = instructions.map((instruction) => instruction.keyword).lastIndexOf('FROM');
+      const start = instructions
+        .slice(finalStage)
+        .find((instruction) => instruction.keyword === 'CMD' || instruction.keyword === 'ENTRYPOINT');
+      const user = `USER ${UNPRIVILEGED_USER}`;
+      if (start) {
+        lines.splice(start.line - 1, 0, user);
+      } else {
+        while (lines.length > 0 && !lines[lines.length - 1].trim()) lines.pop();
+        lines.push(user, '');
+      }
+      break;
+    }
+  }
+
+  return lines.join('\n');
+}
+
+// Apply the finding's fix to the current content of its file
+export function fixFinding(finding: Finding, content: string): string {
+  const current = scanFile({ path: finding.path, content }).find((candidate) => candidate.id === finding.id);
+  if (!current) throw new Error(`${finding.path} no longer has this problem`);
+  if (!current.fix) throw new Error('There is no automatic fix for this problem');
+
+  if (classifyInfraFile(finding.path) === 'dockerfile') return fixDockerfile(content, current);
+
+  return editCompose(content, (doc) => {
+    const service = (doc.toJS() as ComposeFile).services[current.service as string];
+    fixCompose(doc, current, service);
+  });
+}
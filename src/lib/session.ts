@@ -0,0 +1,115 @@
+// Server-side GitHub session, kept in an encrypted httpOnly cookie
+//
+// Only route handlers read the cookie, so the OAuth token never reaches the
+// browser. The payload is sealed with AES-256-GCM under SESSION_SECRET; a
+// cookie that fails to open or has expired counts as no session. The OAuth
+// flow in progress (state and PKCE verifier) is sealed the same way.
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import type { NextRequest, NextResponse } from 'next/server';
+import type { AuthMode } from './github';
+
+export const SESSION_COOKIE = 'terra_session';
+const OAUTH_FLOW_COOKIE = 'terra_oauth';
+// Sessions end after this long even if the token is still valid
+const SESSION_TTL_SECONDS = 8 * 60 * 60;
+// Time the user has to approve the app on GitHub
+const OAUTH_FLOW_TTL_SECONDS = 10 * 60;
+
+export interface Session {
+  mode: AuthMode;
+  // User access token; in app mode it only reads the user and their installations
+  token: string;
+  login: string;
+  userId: number;
+  name: string | null;
+  // GitHub App installation repositories are read and written through, in app mode
+  installationId?: number;
+  // Unix time in milliseconds
+  expiresAt: number;
+}
+
+// A login started by this browser and not yet completed
+export interface OAuthFlow {
+  mode: AuthMode;
+  state: string;
+  codeVerifier: string;
+  redirectUri: string;
+  // Path to open once signed in
+  returnTo: string;
+  // Unix time in milliseconds
+  expiresAt: number;
+}
+
+function sessionKey(): Buffer {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret) throw new Error('SESSION_SECRET is not set');
+  return createHash('sha256').update(secret).digest();
+}
+
+// iv | auth tag | ciphertext, base64url encoded
+function seal(payload: Session | OAuthFlow): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', sessionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(JSON.stringify(payload), 'utf8'), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64url');
+}
+
+function unseal<T>(value: string): T | null {
+  try {
+    const data = Buffer.from(value, 'base64url');
+    const decipher = createDecipheriv('aes-256-gcm', sessionKey(), data.subarray(0, 12));
+    decipher.setAuthTag(data.subarray(12, 28));
+    const plaintext = Buffer.concat([decipher.update(data.subarray(28)), decipher.final()]).toString('utf8');
+    return JSON.parse(plaintext);
+  } catch {
+    return null;
+  }
+}
+
+export function getSession(request: NextRequest): Session | null {
+  const value = request.cookies.get(SESSION_COOKIE)?.value;
+  if (!value) return null;
+
+  const session = unseal<Session>(value);
+  if (!session || session.expiresAt <= Date.now()) return null;
+  // Sessions from before auth modes existed were always OAuth app sessions
+  return { ...session, mode: session.mode ?? 'oauth' };
+}
+
+// Start a session, or update one while keeping its expiry
+export function setSession(response: NextResponse, session: Omit<Session, 'expiresAt'> & { expiresAt?: number }) {
+  const expiresAt = session.expiresAt ?? Date.now() + SESSION_TTL_SECONDS * 1000;
+  response.cookies.set(SESSION_COOKIE, seal({ ...session, expiresAt }), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: Math.max(0, Math.floor((expiresAt - Date.now()) / 1000)),
+  });
+}
+
+export function clearSession(response: NextResponse) {
+  response.cookies.set(SESSION_COOKIE, '', { httpOnly: true, path: '/', maxAge: 0 });
+}
+
+export function setOAuthFlow(response: NextResponse, flow: Omit<OAuthFlow, 'expiresAt'>) {
+  response.cookies.set(OAUTH_FLOW_COOKIE, seal({ ...flow, expiresAt: Date.now() + OAUTH_FLOW_TTL_SECONDS * 1000 }), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: OAUTH_FLOW_TTL_SECONDS,
+  });
+}
+
+// Expired flows are returned too, so the callback can tell them apart from
+// a missing cookie
+export function getOAuthFlow(request: NextRequest): OAuthFlow | null {
+  const value = request.cookies.get(OAUTH_FLOW_COOKIE)?.value;
+  return value ? unseal<OAuthFlow>(value) : null;
+}
+
+export function clearOAuthFlow(response: NextResponse) {
+  response.cookies.set(OAUTH_FLOW_COOKIE, '', { httpOnly: true, path: '/', maxAge: 0 });
+}
@@ -0,0 +1,329 @@
+// Terraform configuration model and dependency graph builder
+
+import { parseHcl, hclLiteral, stripStringLiterals, HclBlock, HclBody, HclLiteral } from './hcl';
+import { createGraphBuilder, InfraGraph, NodeKind } from './graph';
+
+export interface TerraformResource {
+  mode: 'managed' | 'data';
+  type: string;
+  name: string;
+  // `google_sql_database_instance.main` or `data.google_project.current`
+  address: string;
+  attributes: Record<string, string>;
+  // Literal sizing attributes (`tier`, `instance_class`, `sku_name`...), from
+  // the body or nested blocks such as `settings`
+  size: Record<string, string>;
+  references: string[];
+  dependsOn: string[];
+  file: string;
+  line: number;
+}
+
+export interface TerraformModule {
+  name: string;
+  address: string;
+  source?: string;
+  attributes: Record<string, string>;
+  references: string[];
+  dependsOn: string[];
+  file: string;
+  line: number;
+}
+
+export interface TerraformVariable {
+  name: string;
+  type?: string;
+  description?: string;
+  default?: string;
+  sensitive: boolean;
+  file: string;
+}
+
+export interface TerraformOutput {
+  name: string;
+  value?: string;
+  description?: string;
+  references: string[];
+  sensitive: boolean;
+  file: string;
+}
+
+export interface TerraformConfig {
+  resources: TerraformResource[];
+  dataSources: TerraformResource[];
+  modules: TerraformModule[];
+  variables: TerraformVariable[];
+  outputs: TerraformOutput[];
+  // Files that could not be parsed and were left out
+  errors: Array<{ file: string; message: string }>;
+}
+
+export interface TerraformSourceFile {
+  path: string;
+  content: string;
+}
+
+const REFERENCE_PATTERN =
+  /(?<![\w.-])(data\.[A-Za-z_][\w-]*\.[A-Za-z_][\w-]*|module\.[A-Za-z_][\w-]*|var\.[A-Za-z_][\w-]*|local\.[A-Za-z_][\w-]*|[A-Za-z][\w-]*_[\w-]*\.[A-Za-z_][\w-]*)/g;
+
+// Collect the addresses an expression refers to, e.g. `google_sql_database_instance.main`
+// from `google_sql_database_instance.main.connection_name`
+export function findReferences(expression: string): string[] {
+  const references = new Set<string>();
+  for (const match of stripStringLiterals(expression).matchAll(REFERENCE_PATTERN)) {
+    references.add(match[1]);
+  }
+  return Array.from(references);
+}
+
+function collectReferences(body: HclBody, references: Set<string>) {
+  for (const [name, attribute] of Object.entries(body.attributes)) {
+    if (name === 'depends_on') continue;
+    findReferences(attribute.expression).forEach((reference) => references.add(reference));
+  }
+  for (const block of body.blocks) {
+    collectReferences(block.body, references);
+  }
+}
+
+function rawAttributes(body: HclBody): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const [name, attribute] of Object.entries(body.attributes)) {
+    attributes[name] = attribute.expression;
+  }
+  return attributes;
+}
+
+const SIZE_ATTRIBUTES = ['tier', 'instance_class', 'sku_name', 'node_type', 'memory_size_gb', 'family', 'capacity'];
+
+// Body attributes win over ones in nested blocks
+function sizeAttributes(body: HclBody, size: Record<string, string> = {}): Record<string, string> {
+  for (const name of SIZE_ATTRIBUTES) {
+    const expression = body.attributes[name]?.expression;
+    const value = expression === undefined ? undefined : hclLiteral(expression);
+    if (size[name] === undefined && (typeof value === 'string' || typeof value === 'number')) size[name] = String(value);
+  }
+  for (const block of body.blocks) {
+    sizeAttributes(block.body, size);
+  }
+  return size;
+}
+
+function stringAttribute(body: HclBody, name: string): string | undefined {
+  const expression = body.attributes[name]?.expression;
+  if (expression === undefined) return undefined;
+  const value: HclLiteral | undefined = hclLiteral(expression);
+  return typeof value === 'string' ? value : expression;
+}
+
+function dependsOn(body: HclBody): string[] {
+  const expression = body.attributes.depends_on?.expression;
+  return expression ? findReferences(expression) : [];
+}
+
+function readBlock(block: HclBlock, file: string, config: TerraformConfig) {
+  const { body } = block;
+
+  switch (block.type) {
+    case 'resource':
+    case 'data': {
+      const [type, name] = block.labels;
+      if (!type || !name) return;
+
+      const references = new Set<string>();
+      collectReferences(body, references);
+      const mode = block.type === 'resource' ? 'managed' : 'data';
+      const resource: TerraformResource = {
+        mode,
+        type,
+        name,
+        address: mode === 'managed' ? `${type}.${name}` : `data.${type}.${name}`,
+        attributes: rawAttributes(body),
+        size: sizeAttributes(body),
+        references: Array.from(references),
+        dependsOn: dependsOn(body),
+        file,
+        line: block.line,
+      };
+      (mode === 'managed' ? config.resources : config.dataSources).push(resource);
+      break;
+    }
+
+    case 'module': {
+      const [name] = block.labels;
+      if (!name) return;
+
+      const references = new Set<string>();
+      collectReferences(body, references);
+      config.modules.push({
+        name,
+        address: `module.${name}`,
+        source: stringAttribute(body, 'source'),
+        attributes: rawAttributes(body),
+        references: Array.from(references),
+        dependsOn: dependsOn(body),
+        file,
+        line: block.line,
+      });
+      break;
+    }
+
+    case 'variable': {
+      const [name] = block.labels;
+      if (!name) return;
+
+      config.variables.push({
+        name,
+        type: body.attributes.type?.expression,
+        description: stringAttribute(body, 'description'),
+        default: body.attributes.default?.expression,
+        sensitive: body.attributes.sensitive?.expression === 'true',
+        file,
+      });
+      break;
+    }
+
+    case 'output': {
+      const [name] = block.labels;
+      if (!name) return;
+
+      const value = body.attributes.value?.expression;
+      config.outputs.push({
+        name,
+        value,
+        description: stringAttribute(body, 'description'),
+        references: value ? findReferences(value) : [],
+        sensitive: body.attributes.sensitive?.expression === 'true',
+        file,
+      });
+      break;
+    }
+  }
+}
+
+// Parse a set of .tf files that make up one Terraform module. A file that
+// fails to parse is recorded in `errors` and the rest of the module is kept.
+export function parseTerraform(files: TerraformSourceFile[]): TerraformConfig {
+  const config: TerraformConfig = { resources: [], dataSources: [], modules: [], variables: [], outputs: [], errors: [] };
+
+  for (const file of files) {
+    let body: HclBody;
+    try {
+      body = parseHcl(file.content);
+    } catch (error) {
+      config.errors.push({
+        file: file.path,
+        message: `Invalid Terraform file ${file.path}: ${error instanceof Error ? error.message : String(error)}`,
+      });
+      continue;
+    }
+
+    for (const block of body.blocks) {
+      readBlock(block, file.path, config);
+    }
+  }
+
+  return config;
+}
+
+const DATABASE_RESOURCES = [
+  /sql_database/, /_db_instance$/, /_rds_/, /_dynamodb_/, /_cosmosdb_/, /_postgresql_/, /_mysql_/, /_mssql_/, /_mariadb_/, /_spanner_/, /_bigtable_/, /_firestore_/,
+  /_bigquery_dataset$/, /_docdb_/, /_neptune_/, /_alloydb_/, /_database/,
+];
+
+const STORAGE_RESOURCES = [
+  /_storage_bucket/, /_s3_bucket/, /_storage_account$/, /_storage_container$/, /_storage_blob$/,
+  /_storage_share$/, /_efs_/, /_filestore_/, /_compute_disk$/, /_ebs_volume$/, /_managed_disk$/,
+];
+
+const CACHE_RESOURCES = [/_redis/, /_memcache/, /_elasticache_/];
+
+const QUEUE_RESOURCES = [
+  /_sqs_/, /_sns_topic$/, /_pubsub_/, /_servicebus_/, /_eventhub/, /_kinesis_/, /_msk_cluster$/, /_mq_broker$/,
+];
+
+const CDN_RESOURCES = [/cloudfront/, /_cdn_/, /front_door/, /_backend_bucket$/];
+
+const LOAD_BALANCER_RESOURCES = [
+  /_(lb|alb|elb)(_|$)/, /load_balancer/, /api_?gateway/, /application_gateway/,
+  /url_map|forwarding_rule|target_https?_proxy/,
+];
+
+const SECRET_RESOURCES = [/secretsmanager/, /secret_manager/, /key_vault/, /_kms_/, /_ssm_parameter$/];
+
+const NETWORK_RESOURCES = [
+  /_vpc$/, /_vpc_/, /_subnet/, /_compute_network$/, /_virtual_network$/, /_security_group/, /_firewall/,
+  /_route_table/, /_nat_gateway$/, /_router(_nat)?$/, /dns_(zone|record)|route53/,
+];
+
+const JOB_RESOURCES = [
+  /_cloud_scheduler_job$/, /_cloud_run_v2_job$/, /_cloudwatch_event_rule$/, /_scheduler_schedule$/,
+  /_batch_job/, /_container_app_job$/, /_dataflow_job$/,
+];
+
+export function inferResourceKind(resourceType: string): NodeKind {
+  const matches = (patterns: RegExp[]) => patterns.some((pattern) => pattern.test(resourceType));
+
+  if (matches(STORAGE_RESOURCES)) return 'storage';
+  if (matches(CACHE_RESOURCES)) return 'cache';
+  if (matches(QUEUE_RESOURCES)) return 'queue';
+  if (matches(DATABASE_RESOURCES)) return 'database';
+  if (matches(CDN_RESOURCES)) return 'cdn';
+  if (matches(LOAD_BALANCER_RESOURCES)) return 'loadbalancer';
+  if (matches(SECRET_RESOURCES)) return 'secret';
+  if (matches(JOB_RESOURCES)) return 'job';
+  if (matches(NETWORK_RESOURCES)) return 'network';
+  return 'service';
+}
+
+export interface TerraformGraphOptions {
+  // Prefix for node IDs, used to keep several root modules apart in one graph
+  idPrefix?: string;
+}
+
+// Turn a Terraform module into graph nodes and edges. Managed resources and module
+// calls become nodes, references between them and explicit depends_on become edges
+// pointing from the referencing block to the one it uses.
+export function terraformToGraph(config: TerraformConfig, options: TerraformGraphOptions = {}): InfraGraph {
+  const builder = createGraphBuilder();
+  const prefix = options.idPrefix ?? '';
+  const addresses = new Set<string>();
+
+  for (const resource of config.resources) {
+    addresses.add(resource.address);
+    builder.addNode(`${prefix}${resource.address}`, inferResourceKind(resource.type), {
+      label: resource.name,
+      details: resource.type,
+      terraformAddress: resource.address,
+      resourceType: resource.type,
+      resourceSize: resource.size,
+      sourcePath: resource.file,
+    });
+  }
+
+  for (const call of config.modules) {
+    addresses.add(call.address);
+    builder.addNode(`${prefix}${call.address}`, 'service', {
+      label: call.name,
+      details: call.source ? `module • ${call.source}` : 'module',
+      terraformAddress: call.address,
+      sourcePath: call.file,
+    });
+  }
+
+  for (const block of [...config.resources, ...config.modules]) {
+    for (const reference of block.dependsOn) {
+      if (addresses.has(reference)) builder.addEdge(`${prefix}${block.address}`, `${prefix}${reference}`, 'depends_on', true);
+    }
+    for (const reference of block.references) {
+      if (addresses.has(reference)) builder.addEdge(`${prefix}${block.address}`, `${prefix}${reference}`);
+    }
+  }
+
+  return builder.build();
+}
+
+// Parse Terraform files straight into a graph
+export function parseTerraformGraph(files: TerraformSourceFile[], options: TerraformGraphOptions = {}): InfraGraph {
+  return terraformToGraph(parseTerraform(files), options);
+}
@@ -0,0 +1,461 @@
+// Generate Terraform for a cloud provider from the infrastructure graph
+//
+// Each node that has a managed equivalent becomes a call to a local module
+// (Cloud Run, RDS, Blob Storage, ...). Edges from a service to what it uses
+// become environment variables fed from the other module's `connection`
+// output. The output is a root module with variables and outputs plus the
+// modules it calls, reviewed as new files.
+
+import type { ChangeSet, FileChange } from './changes';
+import { getEnvironment, getPorts } from './compose';
+import { envVarName } from './composeEdit';
+import type { InfraGraph, InfraNode } from './graph';
+import { CloudProvider, MANAGED_SERVICES, ModuleType, PROVIDERS, managedModule } from './providers';
+import { TERRAFORM_MODULES } from './terraformModules';
+
+export interface GeneratedModule {
+  nodeId: string;
+  // Terraform identifier of the module call
+  name: string;
+  type: ModuleType;
+}
+
+export interface SkippedNode {
+  nodeId: string;
+  label: string;
+  reason: string;
+}
+
+export interface TerraformGeneration {
+  changeSet: ChangeSet;
+  modules: GeneratedModule[];
+  skipped: SkippedNode[];
+}
+
+export interface TerraformGeneratorOptions {
+  provider: CloudProvider;
+  region?: string;
+  // Prefix for cloud resource names
+  namePrefix: string;
+  // Directory to write the configuration to
+  directory?: string;
+}
+
+interface Variable {
+  name: string;
+  description: string;
+  type: string;
+  default?: string;
+  sensitive?: boolean;
+  // Value for terraform.tfvars.example when there is no default
+  example?: string;
+}
+
+const CONTAINER_MODULES: ModuleType[] = ['service', 'job'];
+
+// Modules whose `connection` output carries credentials on some provider
+const SENSITIVE_CONNECTIONS: ModuleType[] = ['postgres', 'mysql', 'redis', 'queue'];
+
+const PROVIDER_VERSIONS: Record<CloudProvider, { name: string; source: string; version: string }> = {
+  gcp: { name: 'google', source: 'hashicorp/google', version: '~> 6.0' },
+  aws: { name: 'aws', source: 'hashicorp/aws', version: '~> 5.0' },
+  azure: { name: 'azurerm', source: 'hashicorp/azurerm', version: '~> 4.0' },
+};
+
+export function hclString(value: string): string {
+  const escaped = value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n')
+    .replace(/\$\{/g, '$${')
+    .replace(/%\{/g, '%%{');
+  return `"${escaped}"`;
+}
+
+function hclKey(key: string): string {
+  return /^[A-Za-z_][A-Za-z0-9_-]*$/.test(key) ? key : hclString(key);
+}
+
+// `key = value` lines with the `=` aligned, as `terraform fmt` does
+function attributes(pairs: Array<[string, string]>, indent = '  '): string[] {
+  const width = Math.max(0, ...pairs.map(([key]) => key.length));
+  return pairs.map(([key, value]) => `${indent}${key.padEnd(width)} = ${value}`);
+}
+
+function identifier(label: string, taken: Set<string>): string {
+  const base = label.toLowerCase().replace(/[^a-z0-9_]+/g, '_').replace(/^_+|_+$/g, '') || 'resource';
+  let name = /^\d/.test(base) ? `n_${base}` : base;
+  for (let i = 2; taken.has(name); i++) name = `${base}_${i}`;
+  taken.add(name);
+  return name;
+}
+
+// Environment variable a service gets for a connection to a module of `type`
+function connectionVariable(type: ModuleType, target: string): string | undefined {
+  switch (type) {
+    case 'postgres':
+    case 'mysql':
+      return 'DATABASE_URL';
+    case 'redis':
+      return 'REDIS_URL';
+    case 'queue':
+      return `${envVarName(target)}_QUEUE`;
+    case 'bucket':
+      return `${envVarName(target)}_BUCKET`;
+    case 'secret':
+      return `${envVarName(target)}_SECRET`;
+    case 'service':
+      return `${envVarName(target)}_URL`;
+    default:
+      return undefined;
+  }
+}
+
+// Arguments every call to a module of `type` needs on `provider`
+function contextArguments(provider: CloudProvider, type: ModuleType, name: string): Array<[string, string]> {
+  switch (provider) {
+    case 'gcp':
+      return [
+        ['project_id', 'var.project_id'],
+        ['region', 'var.region'],
+      ];
+    case 'aws': {
+      const network: Array<[string, string]> = [
+        ['subnet_ids', 'var.subnet_ids'],
+        ['security_group_ids', '[aws_security_group.this.id]'],
+      ];
+      if (type === 'service') {
+        return [
+          ['region', 'var.region'],
+          ['cluster_id', 'aws_ecs_cluster.this.id'],
+          ['execution_role_arn', 'aws_iam_role.ecs_execution.arn'],
+          ...network,
+        ];
+      }
+      if (type === 'job') return [['region', 'var.region'], ['execution_role_arn', 'aws_iam_role.ecs_execution.arn']];
+      return ['postgres', 'mysql', 'redis'].includes(type) ? network : [];
+    }
+    case 'azure': {
+      if (type === 'secret') return [['key_vault_id', 'azurerm_key_vault.this.id'], ['value', `var.${name}_value`]];
+      const group: Array<[string, string]> = [
+        ['resource_group_name', 'azurerm_resource_group.this.name'],
+        ['location', 'azurerm_resource_group.this.location'],
+      ];
+      return CONTAINER_MODULES.includes(type)
+        ? [...group, ['container_app_environment_id', 'azurerm_container_app_environment.this.id']]
+        : group;
+    }
+  }
+}
+
+function sharedResources(provider: CloudProvider, types: Set<ModuleType>): string {
+  const uses = (...candidates: ModuleType[]) => candidates.some((type) => types.has(type));
+
+  switch (provider) {
+    case 'gcp':
+      return `provider "google" {
+  project = var.project_id
+  region  = var.region
+}
+`;
+    case 'aws':
+      return [
+        `provider "aws" {
+  region = var.region
+}
+`,
+        uses('service', 'job') &&
+          `resource "aws_ecs_cluster" "this" {
+  name = var.name_prefix
+}
+
+resource "aws_iam_role" "ecs_execution" {
+  name = "\${var.name_prefix}-ecs-execution"
+  assume_role_policy = jsonencode({
+    Version = "2012-10-17"
+    Statement = [{
+      Effect    = "Allow"
+      Action    = "sts:AssumeRole"
+      Principal = { Service = "ecs-tasks.amazonaws.com" }
+    }]
+  })
+}
+
+resource "aws_iam_role_policy_attachment" "ecs_execution" {
+  role       = aws_iam_role.ecs_execution.name
+  policy_arn = "arn:aws:iam::aws:policy/service-role/AmazonECSTaskExecutionRolePolicy"
+}
+`,
+        uses('service', 'postgres', 'mysql', 'redis') &&
+          `# Services and data stores can reach each other, nothing else can reach them
+resource "aws_security_group" "this" {
+  name_prefix = "\${var.name_prefix}-"
+  vpc_id      = var.vpc_id
+
+  ingress {
+    from_port = 0
+    to_port   = 0
+    protocol  = "-1"
+    self      = true
+  }
+
+  egress {
+    from_port   = 0
+    to_port     = 0
+    protocol    = "-1"
+    cidr_blocks = ["0.0.0.0/0"]
+  }
+}
+`,
+      ]
+        .filter(Boolean)
+        .join('\n');
+    case 'azure':
+      return [
+        `provider "azurerm" {
+  features {}
+  subscription_id = var.subscription_id
+}
+
+resource "azurerm_resource_group" "this" {
+  name     = "\${var.name_prefix}-rg"
+  location = var.location
+}
+`,
+        uses('service', 'job') &&
+          `resource "azurerm_container_app_environment" "this" {
+  name                = "\${var.name_prefix}-env"
+  resource_group_name = azurerm_resource_group.this.name
+  location            = azurerm_resource_group.this.location
+}
+`,
+        uses('secret') &&
+          `data "azurerm_client_config" "current" {}
+
+resource "azurerm_key_vault" "this" {
+  name                      = substr(replace("\${var.name_prefix}-kv", "/[^a-zA-Z0-9-]/", ""), 0, 24)
+  resource_group_name       = azurerm_resource_group.this.name
+  location                  = azurerm_resource_group.this.location
+  tenant_id                 = data.azurerm_client_config.current.tenant_id
+  sku_name                  = "standard"
+  enable_rbac_authorization = true
+  purge_protection_enabled  = true
+}
+`,
+      ]
+        .filter(Boolean)
+        .join('\n');
+  }
+}
+
+function providerVariables(provider: CloudProvider, region: string, namePrefix: string): Variable[] {
+  const common: Variable = {
+    name: 'name_prefix',
+    description: 'Prefix for the names of all resources',
+    type: 'string',
+    default: hclString(namePrefix),
+  };
+
+  switch (provider) {
+    case 'gcp':
+      return [
+        { name: 'project_id', description: 'Google Cloud project ID', type: 'string', example: '"my-project"' },
+        { name: 'region', description: 'Region to deploy to', type: 'string', default: hclString(region) },
+        common,
+      ];
+    case 'aws':
+      return [
+        { name: 'region', description: 'AWS region to deploy to', type: 'string', default: hclString(region) },
+        { name: 'vpc_id', description: 'VPC to deploy into', type: 'string', example: '"vpc-0123456789abcdef0"' },
+        {
+          name: 'subnet_ids',
+          description: 'Subnets for services and data stores',
+          type: 'list(string)',
+          example: '["subnet-0123456789abcdef0", "subnet-0fedcba9876543210"]',
+        },
+        common,
+      ];
+    case 'azure':
+      return [
+        { name: 'subscription_id', description: 'Azure subscription ID', type: 'string', example: '"00000000-0000-0000-0000-000000000000"' },
+        { name: 'location', description: 'Azure region to deploy to', type: 'string', default: hclString(region) },
+        common,
+      ];
+  }
+}
+
+function renderVariable(variable: Variable): string {
+  const lines = attributes([
+    ['description', hclString(variable.description)],
+    ['type', variable.type],
+    ...(variable.default !== undefined ? [['default', variable.default] as [string, string]] : []),
+    ...(variable.sensitive ? [['sensitive', 'true'] as [string, string]] : []),
+  ]);
+  return `variable "${variable.name}" {\n${lines.join('\n')}\n}\n`;
+}
+
+function containerImage(node: InfraNode, name: string, variables: Variable[]): string {
+  const config = node.data.dockerComposeConfig;
+  if (config?.image) return hclString(config.image);
+
+  const context = typeof config?.build === 'string' ? config.build : config?.build?.context ?? '.';
+  variables.push({
+    name: `${name}_image`,
+    description: `Container image for ${node.data.label}, built from ${context}`,
+    type: 'string',
+    example: `"registry.example.com/${node.data.label}:latest"`,
+  });
+  return `var.${name}_image`;
+}
+
+export function generateTerraform(graph: InfraGraph, options: TerraformGeneratorOptions): TerraformGeneration {
+  const { provider, namePrefix } = options;
+  const region = options.region ?? PROVIDERS[provider].defaultRegion;
+  const directory = options.directory ?? `infra/terraform/${provider}`;
+
+  const taken = new Set<string>();
+  const modules: GeneratedModule[] = [];
+  const skipped: SkippedNode[] = [];
+  for (const node of graph.nodes) {
+    if (node.type === 'namespace') continue;
+    const mapping = managedModule(node);
+    if ('type' in mapping) {
+      modules.push({ nodeId: node.id, name: identifier(node.data.label, taken), type: mapping.type });
+    } else {
+      skipped.push({ nodeId: node.id, label: node.data.label, reason: mapping.reason });
+    }
+  }
+
+  const byNode = new Map(modules.map((module) => [module.nodeId, module]));
+  const nodesById = new Map(graph.nodes.map((node) => [node.id, node]));
+  const variables = providerVariables(provider, region, namePrefix);
+  const types = new Set(modules.map((module) => module.type));
+
+  const calls = modules.map((module) => {
+    const node = nodesById.get(module.nodeId) as InfraNode;
+    const args: Array<[string, string]> = [
+      ['source', `"./modules/${module.type}"`],
+      ['name', `"\${var.name_prefix}-${module.name.replace(/_/g, '-')}"`],
+      ...contextArguments(provider, module.type, module.name),
+    ];
+    if (provider === 'azure' && module.type === 'secret') {
+      variables.push({ name: `${module.name}_value`, description: `Value of the ${node.data.label} secret`, type: 'string', sensitive: true, example: '""' });
+    }
+
+    const env: Array<[string, string]> = [];
+    if (CONTAINER_MODULES.includes(module.type)) {
+      args.push(['image', containerImage(node, module.name, variables)]);
+      const port = node.data.dockerComposeConfig ? getPorts(node.data.dockerComposeConfig)[0]?.target : undefined;
+      if (module.type === 'service' && port && /^\d+$/.test(port)) args.push(['port', port]);
+
+      // Connections replace whatever the compose file used to reach the local container
+      const connections = new Map<string, string>();
+      for (const edge of graph.edges.filter((edge) => edge.source === node.id)) {
+        const target = byNode.get(edge.target);
+        const variable = target && connectionVariable(target.type, nodesById.get(edge.target)?.data.label ?? target.name);
+        if (target && variable) connections.set(variable, `module.${target.name}.connection`);
+      }
+
+      const environment = node.data.dockerComposeConfig ? getEnvironment(node.data.dockerComposeConfig) : {};
+      for (const [key, value] of Object.entries(environment)) {
+        if (connections.has(key)) continue;
+        // Interpolated and pass-through values have to be supplied at deploy time
+        if (!value || value.includes('${')) {
+          const variable = `${module.name}_${key.toLowerCase().replace(/[^a-z0-9_]+/g, '_')}`;
+          variables.push({ name: variable, description: `${key} for ${node.data.label}`, type: 'string', sensitive: true, example: '""' });
+          env.push([hclKey(key), `var.${variable}`]);
+        } else {
+          env.push([hclKey(key), hclString(value)]);
+        }
+      }
+      for (const [key, value] of connections) env.push([hclKey(key), value]);
+    }
+
+    const body = [
+      ...attributes(args.slice(0, 1)),
+      '',
+      ...attributes(args.slice(1)),
+      ...(env.length > 0 ? ['', '  env = {', ...attributes(env, '    '), '  }'] : []),
+    ];
+    return `# ${node.data.label}: ${MANAGED_SERVICES[provider][module.type]}\nmodule "${module.name}" {\n${body.join('\n')}\n}\n`;
+  });
+
+  const { name: providerName, source, version } = PROVIDER_VERSIONS[provider];
+  const usesPassword = types.has('postgres') || types.has('mysql');
+  const requiredProviders = [
+    { name: providerName, source, version },
+    ...(usesPassword ? [{ name: 'random', source: 'hashicorp/random', version: '~> 3.6' }] : []),
+  ].map(
+    (required) => `    ${required.name} = {\n      source  = "${required.source}"\n      version = "${required.version}"\n    }`
+  );
+  const versions = `terraform {
+  required_version = ">= 1.5"
+
+  required_providers {
+${requiredProviders.join('\n')}
+  }
+}
+`;
+
+  const main = [sharedResources(provider, types), ...calls].join('\n');
+
+  const outputs = modules
+    .map((module) => {
+      const node = nodesById.get(module.nodeId) as InfraNode;
+      const lines = attributes([
+        ['description', hclString(`${MANAGED_SERVICES[provider][module.type]} for ${node.data.label}`)],
+        ['value', `module.${module.name}.connection`],
+        ...(SENSITIVE_CONNECTIONS.includes(module.type) ? [['sensitive', 'true'] as [string, string]] : []),
+      ]);
+      return `output "${module.name}" {\n${lines.join('\n')}\n}\n`;
+    })
+    .join('\n');
+
+  const examples = attributes(
+    variables
+      .filter((variable) => variable.default === undefined)
+      .map((variable): [string, string] => [variable.name, variable.example ?? '""']),
+    ''
+  );
+
+  const readme = [
+    `# ${PROVIDERS[provider].label} infrastructure`,
+    '',
+    'Generated from the infrastructure graph. Copy `terraform.tfvars.example` to `terraform.tfvars`, fill it in, then run `terraform init` and `terraform apply`.',
+    '',
+    '| Resource | Deployed as |',
+    '| --- | --- |',
+    ...modules.map((module) => `| ${nodesById.get(module.nodeId)?.data.label} | ${MANAGED_SERVICES[provider][module.type]} |`),
+    ...(skipped.length > 0
+      ? ['', 'Not included:', '', ...skipped.map((node) => `- ${node.label}: ${node.reason}`)]
+      : []),
+    '',
+  ].join('\n');
+
+  const files: FileChange[] = [
+    { path: `${directory}/README.md`, newContent: readme, description: 'How the graph maps to managed services' },
+    { path: `${directory}/versions.tf`, newContent: versions, description: 'Terraform and provider versions' },
+    { path: `${directory}/main.tf`, newContent: main, description: 'Provider, shared resources and one module per resource' },
+    { path: `${directory}/variables.tf`, newContent: variables.map(renderVariable).join('\n'), description: 'Input variables' },
+    { path: `${directory}/outputs.tf`, newContent: outputs, description: 'Connection details of each resource' },
+    { path: `${directory}/terraform.tfvars.example`, newContent: `${examples.join('\n')}\n`, description: 'Variables to fill in' },
+    ...[...types].flatMap((type) => {
+      const files = TERRAFORM_MODULES[provider][type];
+      const label = MANAGED_SERVICES[provider][type];
+      return [
+        { path: `${directory}/modules/${type}/main.tf`, newContent: files.main, description: `${label} module` },
+        { path: `${directory}/modules/${type}/variables.tf`, newContent: files.variables, description: `${label} module variables` },
+        { path: `${directory}/modules/${type}/outputs.tf`, newContent: files.outputs, description: `${label} module outputs` },
+      ];
+    }),
+  ].map((file) => ({ ...file, oldContent: '', status: 'added' as const }));
+
+  return {
+    changeSet: {
+      description: `Generate Terraform for ${PROVIDERS[provider].label} (${modules.length} resource${modules.length === 1 ? '' : 's'})`,
+      files,
+    },
+    modules,
+    skipped,
+  };
+}
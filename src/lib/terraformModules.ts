@@ -0,0 +1,768 @@
+// Terraform modules emitted by the generator, one per managed building block
+// and provider
+//
+// Every module takes a `name` and exposes a `connection` output: the value a
+// client needs to reach it (URL, queue or bucket name, secret ID), so the
+// generator can wire connections the same way on every provider.
+
+import type { CloudProvider, ModuleType } from './providers';
+
+export interface ModuleFiles {
+  main: string;
+  variables: string;
+  outputs: string;
+}
+
+const NAME_VARIABLE = `variable "name" {
+  description = "Name of the resource"
+  type        = string
+}
+`;
+
+const CONTAINER_VARIABLES = `
+variable "image" {
+  description = "Container image to run"
+  type        = string
+}
+
+variable "env" {
+  description = "Environment variables for the container"
+  type        = map(string)
+  default     = {}
+  sensitive   = true
+}
+`;
+
+const PORT_VARIABLE = `
+variable "port" {
+  description = "Port the container listens on"
+  type        = number
+  default     = 8080
+}
+`;
+
+const GCP_VARIABLES = `
+variable "project_id" {
+  description = "Google Cloud project ID"
+  type        = string
+}
+
+variable "region" {
+  description = "Region to deploy to"
+  type        = string
+}
+`;
+
+const AWS_NETWORK_VARIABLES = `
+variable "subnet_ids" {
+  description = "Subnets to place the resource in"
+  type        = list(string)
+}
+
+variable "security_group_ids" {
+  description = "Security groups to attach"
+  type        = list(string)
+}
+`;
+
+const AZURE_VARIABLES = `
+variable "resource_group_name" {
+  description = "Resource group to create the resource in"
+  type        = string
+}
+
+variable "location" {
+  description = "Azure region"
+  type        = string
+}
+`;
+
+const AZURE_ENVIRONMENT_VARIABLE = `
+variable "container_app_environment_id" {
+  description = "Container Apps environment to run in"
+  type        = string
+}
+`;
+
+function databaseVariables(defaults: { size: string; sizeDescription: string; sizeName: string }) {
+  return `
+variable "${defaults.sizeName}" {
+  description = "${defaults.sizeDescription}"
+  type        = string
+  default     = "${defaults.size}"
+}
+
+variable "database_name" {
+  description = "Name of the database to create"
+  type        = string
+  default     = "app"
+}
+
+variable "username" {
+  description = "Name of the database user"
+  type        = string
+  default     = "app"
+}
+`;
+}
+
+const PASSWORD = `resource "random_password" "this" {
+  length  = 32
+  special = false
+}
+`;
+
+function sqlScheme(engine: 'postgres' | 'mysql'): string {
+  return engine === 'postgres' ? 'postgresql' : 'mysql';
+}
+
+// Google Cloud
+
+function gcpDatabase(engine: 'postgres' | 'mysql'): ModuleFiles {
+  return {
+    main: `${PASSWORD}
+resource "google_sql_database_instance" "this" {
+  name             = var.name
+  project          = var.project_id
+  region           = var.region
+  database_version = "${engine === 'postgres' ? 'POSTGRES_16' : 'MYSQL_8_0'}"
+
+  settings {
+    tier = var.tier
+
+    backup_configuration {
+      enabled = true
+    }
+  }
+
+  deletion_protection = true
+}
+
+resource "google_sql_database" "this" {
+  name     = var.database_name
+  project  = var.project_id
+  instance = google_sql_database_instance.this.name
+}
+
+resource "google_sql_user" "this" {
+  name     = var.username
+  project  = var.project_id
+  instance = google_sql_database_instance.this.name
+  password = random_password.this.result
+}
+`,
+    variables: NAME_VARIABLE + GCP_VARIABLES + databaseVariables({ sizeName: 'tier', sizeDescription: 'Machine tier', size: 'db-f1-micro' }),
+    outputs: `output "instance_connection_name" {
+  description = "Connection name for the Cloud SQL connector"
+  value       = google_sql_database_instance.this.connection_name
+}
+
+output "connection" {
+  description = "Database URL"
+  value       = "${sqlScheme(engine)}://\${var.username}:\${random_password.this.result}@\${google_sql_database_instance.this.public_ip_address}/\${var.database_name}"
+  sensitive   = true
+}
+`,
+  };
+}
+
+const GCP_MODULES: Record<ModuleType, ModuleFiles> = {
+  service: {
+    main: `resource "google_cloud_run_v2_service" "this" {
+  name     = var.name
+  project  = var.project_id
+  location = var.region
+
+  template {
+    containers {
+      image = var.image
+
+      ports {
+        container_port = var.port
+      }
+
+      dynamic "env" {
+        for_each = nonsensitive(keys(var.env))
+        content {
+          name  = env.value
+          value = var.env[env.value]
+        }
+      }
+
+      resources {
+        limits = {
+          cpu    = var.cpu
+          memory = var.memory
+        }
+      }
+    }
+  }
+}
+`,
+    variables: NAME_VARIABLE + GCP_VARIABLES + CONTAINER_VARIABLES + PORT_VARIABLE + `
+variable "cpu" {
+  description = "CPU limit"
+  type        = string
+  default     = "1"
+}
+
+variable "memory" {
+  description = "Memory limit"
+  type        = string
+  default     = "512Mi"
+}
+`,
+    outputs: `output "connection" {
+  description = "URL of the service"
+  value       = google_cloud_run_v2_service.this.uri
+}
+`,
+  },
+  job: {
+    main: `resource "google_cloud_run_v2_job" "this" {
+  name     = var.name
+  project  = var.project_id
+  location = var.region
+
+  template {
+    template {
+      containers {
+        image = var.image
+
+        dynamic "env" {
+          for_each = nonsensitive(keys(var.env))
+          content {
+            name  = env.value
+            value = var.env[env.value]
+          }
+        }
+      }
+    }
+  }
+}
+`,
+    variables: NAME_VARIABLE + GCP_VARIABLES + CONTAINER_VARIABLES,
+    outputs: `output "connection" {
+  description = "Name of the job"
+  value       = google_cloud_run_v2_job.this.name
+}
+`,
+  },
+  postgres: gcpDatabase('postgres'),
+  mysql: gcpDatabase('mysql'),
+  redis: {
+    main: `resource "google_redis_instance" "this" {
+  name           = var.name
+  project        = var.project_id
+  region         = var.region
+  tier           = "BASIC"
+  memory_size_gb = var.memory_size_gb
+}
+`,
+    variables: NAME_VARIABLE + GCP_VARIABLES + `
+variable "memory_size_gb" {
+  description = "Memory size in GiB"
+  type        = number
+  default     = 1
+}
+`,
+    outputs: `output "connection" {
+  description = "Redis URL"
+  value       = "redis://\${google_redis_instance.this.host}:\${google_redis_instance.this.port}"
+}
+`,
+  },
+  queue: {
+    main: `resource "google_pubsub_topic" "this" {
+  name    = var.name
+  project = var.project_id
+}
+
+resource "google_pubsub_subscription" "this" {
+  name    = "\${var.name}-sub"
+  project = var.project_id
+  topic   = google_pubsub_topic.this.id
+}
+`,
+    variables: NAME_VARIABLE + GCP_VARIABLES,
+    outputs: `output "connection" {
+  description = "Topic ID"
+  value       = google_pubsub_topic.this.id
+}
+
+output "subscription_id" {
+  description = "Subscription ID"
+  value       = google_pubsub_subscription.this.id
+}
+`,
+  },
+  bucket: {
+    main: `resource "google_storage_bucket" "this" {
+  name                        = "\${var.project_id}-\${var.name}"
+  project                     = var.project_id
+  location                    = var.region
+  uniform_bucket_level_access = true
+  public_access_prevention    = "enforced"
+}
+`,
+    variables: NAME_VARIABLE + GCP_VARIABLES,
+    outputs: `output "connection" {
+  description = "Bucket name"
+  value       = google_storage_bucket.this.name
+}
+`,
+  },
+  secret: {
+    main: `resource "google_secret_manager_secret" "this" {
+  secret_id = var.name
+  project   = var.project_id
+
+  replication {
+    auto {}
+  }
+}
+`,
+    variables: NAME_VARIABLE + GCP_VARIABLES,
+    outputs: `output "connection" {
+  description = "Secret ID"
+  value       = google_secret_manager_secret.this.id
+}
+`,
+  },
+};
+
+// AWS
+
+function awsTask(withService: boolean): ModuleFiles {
+  return {
+    main: `resource "aws_cloudwatch_log_group" "this" {
+  name              = "/ecs/\${var.name}"
+  retention_in_days = 14
+}
+
+resource "aws_ecs_task_definition" "this" {
+  family                   = var.name
+  requires_compatibilities = ["FARGATE"]
+  network_mode             = "awsvpc"
+  cpu                      = var.cpu
+  memory                   = var.memory
+  execution_role_arn       = var.execution_role_arn
+
+  container_definitions = jsonencode([{
+    name         = var.name
+    image        = var.image
+    essential    = true${withService ? '\n    portMappings = [{ containerPort = var.port }]' : ''}
+    environment  = [for key in nonsensitive(keys(var.env)) : { name = key, value = var.env[key] }]
+    logConfiguration = {
+      logDriver = "awslogs"
+      options = {
+        awslogs-group         = aws_cloudwatch_log_group.this.name
+        awslogs-region        = var.region
+        awslogs-stream-prefix = var.name
+      }
+    }
+  }])
+}
+${withService ? `
+resource "aws_ecs_service" "this" {
+  name            = var.name
+  cluster         = var.cluster_id
+  task_definition = aws_ecs_task_definition.this.arn
+  desired_count   = var.desired_count
+  launch_type     = "FARGATE"
+
+  network_configuration {
+    subnets          = var.subnet_ids
+    security_groups  = var.security_group_ids
+    assign_public_ip = true
+  }
+}
+` : ''}`,
+    variables: NAME_VARIABLE + CONTAINER_VARIABLES + (withService ? PORT_VARIABLE + AWS_NETWORK_VARIABLES : '') + `
+variable "region" {
+  description = "AWS region, used for logging"
+  type        = string
+}
+
+variable "execution_role_arn" {
+  description = "IAM role ECS uses to pull the image and write logs"
+  type        = string
+}
+
+variable "cpu" {
+  description = "CPU units"
+  type        = number
+  default     = 256
+}
+
+variable "memory" {
+  description = "Memory in MiB"
+  type        = number
+  default     = 512
+}
+${withService ? `
+variable "cluster_id" {
+  description = "ECS cluster to run in"
+  type        = string
+}
+
+variable "desired_count" {
+  description = "Number of tasks to keep running"
+  type        = number
+  default     = 1
+}
+` : ''}`,
+    outputs: withService
+      ? `output "connection" {
+  description = "Name of the ECS service"
+  value       = aws_ecs_service.this.name
+}
+`
+      : `output "connection" {
+  description = "Task definition ARN, to run on demand or on a schedule"
+  value       = aws_ecs_task_definition.this.arn
+}
+`,
+  };
+}
+
+function awsDatabase(engine: 'postgres' | 'mysql'): ModuleFiles {
+  return {
+    main: `${PASSWORD}
+resource "aws_db_subnet_group" "this" {
+  name       = var.name
+  subnet_ids = var.subnet_ids
+}
+
+resource "aws_db_instance" "this" {
+  identifier                = var.name
+  engine                    = "${engine}"
+  instance_class            = var.instance_class
+  allocated_storage         = 20
+  storage_encrypted         = true
+  db_name                   = var.database_name
+  username                  = var.username
+  password                  = random_password.this.result
+  db_subnet_group_name      = aws_db_subnet_group.this.name
+  vpc_security_group_ids    = var.security_group_ids
+  backup_retention_period   = 7
+  final_snapshot_identifier = "\${var.name}-final"
+}
+`,
+    variables: NAME_VARIABLE + AWS_NETWORK_VARIABLES + databaseVariables({ sizeName: 'instance_class', sizeDescription: 'Instance class', size: 'db.t4g.micro' }),
+    outputs: `output "connection" {
+  description = "Database URL"
+  value       = "${sqlScheme(engine)}://\${var.username}:\${random_password.this.result}@\${aws_db_instance.this.endpoint}/\${var.database_name}"
+  sensitive   = true
+}
+`,
+  };
+}
+
+const AWS_MODULES: Record<ModuleType, ModuleFiles> = {
+  service: awsTask(true),
+  job: awsTask(false),
+  postgres: awsDatabase('postgres'),
+  mysql: awsDatabase('mysql'),
+  redis: {
+    main: `resource "aws_elasticache_subnet_group" "this" {
+  name       = var.name
+  subnet_ids = var.subnet_ids
+}
+
+resource "aws_elasticache_cluster" "this" {
+  cluster_id         = var.name
+  engine             = "redis"
+  node_type          = var.node_type
+  num_cache_nodes    = 1
+  subnet_group_name  = aws_elasticache_subnet_group.this.name
+  security_group_ids = var.security_group_ids
+}
+`,
+    variables: NAME_VARIABLE + AWS_NETWORK_VARIABLES + `
+variable "node_type" {
+  description = "Cache node type"
+  type        = string
+  default     = "cache.t4g.micro"
+}
+`,
+    outputs: `output "connection" {
+  description = "Redis URL"
+  value       = "redis://\${aws_elasticache_cluster.this.cache_nodes[0].address}:\${aws_elasticache_cluster.this.cache_nodes[0].port}"
+}
+`,
+  },
+  queue: {
+    main: `resource "aws_sqs_queue" "this" {
+  name                    = var.name
+  sqs_managed_sse_enabled = true
+}
+`,
+    variables: NAME_VARIABLE,
+    outputs: `output "connection" {
+  description = "Queue URL"
+  value       = aws_sqs_queue.this.url
+}
+`,
+  },
+  bucket: {
+    main: `resource "aws_s3_bucket" "this" {
+  bucket_prefix = "\${var.name}-"
+}
+
+resource "aws_s3_bucket_public_access_block" "this" {
+  bucket                  = aws_s3_bucket.this.id
+  block_public_acls       = true
+  block_public_policy     = true
+  ignore_public_acls      = true
+  restrict_public_buckets = true
+}
+`,
+    variables: NAME_VARIABLE,
+    outputs: `output "connection" {
+  description = "Bucket name"
+  value       = aws_s3_bucket.this.bucket
+}
+`,
+  },
+  secret: {
+    main: `resource "aws_secretsmanager_secret" "this" {
+  name = var.name
+}
+`,
+    variables: NAME_VARIABLE,
+    outputs: `output "connection" {
+  description = "Secret ARN"
+  value       = aws_secretsmanager_secret.this.arn
+}
+`,
+  },
+};
+
+// Azure
+
+const AZURE_CONTAINER = `      name   = var.name
+      image  = var.image
+      cpu    = var.cpu
+      memory = var.memory
+
+      dynamic "env" {
+        for_each = nonsensitive(keys(var.env))
+        content {
+          name  = env.value
+          value = var.env[env.value]
+        }
+      }`;
+
+const AZURE_CONTAINER_VARIABLES = `
+variable "cpu" {
+  description = "CPU cores"
+  type        = number
+  default     = 0.5
+}
+
+variable "memory" {
+  description = "Memory, in steps matching the CPU"
+  type        = string
+  default     = "1Gi"
+}
+`;
+
+function azureDatabase(engine: 'postgres' | 'mysql'): ModuleFiles {
+  const server = engine === 'postgres' ? 'azurerm_postgresql_flexible_server' : 'azurerm_mysql_flexible_server';
+  const database =
+    engine === 'postgres'
+      ? `resource "azurerm_postgresql_flexible_server_database" "this" {
+  name      = var.database_name
+  server_id = azurerm_postgresql_flexible_server.this.id
+}`
+      : `resource "azurerm_mysql_flexible_database" "this" {
+  name                = var.database_name
+  resource_group_name = var.resource_group_name
+  server_name         = azurerm_mysql_flexible_server.this.name
+  charset             = "utf8mb4"
+  collation           = "utf8mb4_unicode_ci"
+}`;
+
+  return {
+    main: `${PASSWORD}
+resource "${server}" "this" {
+  name                   = var.name
+  resource_group_name    = var.resource_group_name
+  location               = var.location
+  version                = "${engine === 'postgres' ? '16' : '8.0.21'}"
+  sku_name               = var.sku_name
+  administrator_login    = var.username
+  administrator_password = random_password.this.result
+  backup_retention_days  = 7
+}
+
+${database}
+`,
+    variables: NAME_VARIABLE + AZURE_VARIABLES + databaseVariables({ sizeName: 'sku_name', sizeDescription: 'Server SKU', size: 'B_Standard_B1ms' }),
+    outputs: `output "connection" {
+  description = "Database URL"
+  value       = "${sqlScheme(engine)}://\${var.username}:\${random_password.this.result}@\${${server}.this.fqdn}/\${var.database_name}"
+  sensitive   = true
+}
+`,
+  };
+}
+
+const AZURE_MODULES: Record<ModuleType, ModuleFiles> = {
+  service: {
+    main: `resource "azurerm_container_app" "this" {
+  name                         = var.name
+  resource_group_name          = var.resource_group_name
+  container_app_environment_id = var.container_app_environment_id
+  revision_mode                = "Single"
+
+  template {
+    container {
+${AZURE_CONTAINER}
+    }
+  }
+
+  ingress {
+    external_enabled = true
+    target_port      = var.port
+
+    traffic_weight {
+      percentage      = 100
+      latest_revision = true
+    }
+  }
+}
+`,
+    variables: NAME_VARIABLE + AZURE_VARIABLES + AZURE_ENVIRONMENT_VARIABLE + CONTAINER_VARIABLES + PORT_VARIABLE + AZURE_CONTAINER_VARIABLES,
+    outputs: `output "connection" {
+  description = "URL of the app"
+  value       = "https://\${azurerm_container_app.this.ingress[0].fqdn}"
+}
+`,
+  },
+  job: {
+    main: `resource "azurerm_container_app_job" "this" {
+  name                         = var.name
+  resource_group_name          = var.resource_group_name
+  location                     = var.location
+  container_app_environment_id = var.container_app_environment_id
+  replica_timeout_in_seconds   = 1800
+
+  manual_trigger_config {
+    parallelism              = 1
+    replica_completion_count = 1
+  }
+
+  template {
+    container {
+${AZURE_CONTAINER}
+    }
+  }
+}
+`,
+    variables: NAME_VARIABLE + AZURE_VARIABLES + AZURE_ENVIRONMENT_VARIABLE + CONTAINER_VARIABLES + AZURE_CONTAINER_VARIABLES,
+    outputs: `output "connection" {
+  description = "Name of the job"
+  value       = azurerm_container_app_job.this.name
+}
+`,
+  },
+  postgres: azureDatabase('postgres'),
+  mysql: azureDatabase('mysql'),
+  redis: {
+    main: `resource "azurerm_redis_cache" "this" {
+  name                = var.name
+  resource_group_name = var.resource_group_name
+  location            = var.location
+  capacity            = 0
+  family              = "C"
+  sku_name            = "Basic"
+  minimum_tls_version = "1.2"
+}
+`,
+    variables: NAME_VARIABLE + AZURE_VARIABLES,
+    outputs: `output "connection" {
+  description = "Redis URL"
+  value       = "rediss://:\${azurerm_redis_cache.this.primary_access_key}@\${azurerm_redis_cache.this.hostname}:\${azurerm_redis_cache.this.ssl_port}"
+  sensitive   = true
+}
+`,
+  },
+  queue: {
+    main: `resource "azurerm_servicebus_namespace" "this" {
+  name                = var.name
+  resource_group_name = var.resource_group_name
+  location            = var.location
+  sku                 = "Basic"
+}
+
+resource "azurerm_servicebus_queue" "this" {
+  name         = var.name
+  namespace_id = azurerm_servicebus_namespace.this.id
+}
+`,
+    variables: NAME_VARIABLE + AZURE_VARIABLES,
+    outputs: `output "connection" {
+  description = "Service Bus connection string"
+  value       = azurerm_servicebus_namespace.this.default_primary_connection_string
+  sensitive   = true
+}
+`,
+  },
+  bucket: {
+    main: `resource "azurerm_storage_account" "this" {
+  # Storage account names are 3-24 lowercase letters and digits
+  name                     = substr(replace(lower(var.name), "/[^a-z0-9]/", ""), 0, 24)
+  resource_group_name      = var.resource_group_name
+  location                 = var.location
+  account_tier             = "Standard"
+  account_replication_type = "LRS"
+  min_tls_version          = "TLS1_2"
+}
+
+resource "azurerm_storage_container" "this" {
+  name                  = "data"
+  storage_account_id    = azurerm_storage_account.this.id
+  container_access_type = "private"
+}
+`,
+    variables: NAME_VARIABLE + AZURE_VARIABLES,
+    outputs: `output "connection" {
+  description = "Blob container URL"
+  value       = "\${azurerm_storage_account.this.primary_blob_endpoint}\${azurerm_storage_container.this.name}"
+}
+`,
+  },
+  secret: {
+    main: `resource "azurerm_key_vault_secret" "this" {
+  name         = var.name
+  value        = var.value
+  key_vault_id = var.key_vault_id
+}
+`,
+    variables: NAME_VARIABLE + `
+variable "key_vault_id" {
+  description = "Key Vault to store the secret in"
+  type        = string
+}
+
+variable "value" {
+  description = "Secret value"
+  type        = string
+  sensitive   = true
+}
+`,
+    outputs: `output "connection" {
+  description = "Secret ID"
+  value       = azurerm_key_vault_secret.this.id
+}
+`,
+  },
+};
+
+export const TERRAFORM_MODULES: Record<CloudProvider, Record<ModuleType, ModuleFiles>> = {
+  gcp: GCP_MODULES,
+  aws: AWS_MODULES,
+  azure: AZURE_MODULES,
+};